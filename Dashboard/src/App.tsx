@@ -1,7 +1,7 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { DashboardSidebar } from "@/components/DashboardSidebar";
@@ -16,31 +16,42 @@ import SecurityPage from "./pages/SecurityPage";
 import SettingsPage from "./pages/SettingsPage";
 import LoginPage from "./pages/Login"; // add login page
 import AlertPage from "./pages/AlertsPage";
+import VerifyPage from "./pages/VerifyPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
+import KycPage from "./pages/KycPage";
+import UsersPage from "./pages/UsersPage";
 
 import "leaflet/dist/leaflet.css";
 import { useAuth } from "./hooks/useAuth"; // custom hook for auth state
+import { queryClient } from "./lib/api";
+import { RealtimeProvider } from "./components/RealtimeProvider";
+import { Permission, hasDashboardAccess } from "./lib/permissions";
 
-const queryClient = new QueryClient();
-
-function ProtectedLayout({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+function ProtectedLayout({ permission, children }: { permission: Permission; children: React.ReactNode }) {
+  const { user, loading, can } = useAuth();
 
   if (loading) return <div>Loading...</div>;
 
-  if (!user || !user.roles.includes("admin")) {
+  if (!user || !hasDashboardAccess(user.roles)) {
     return <Navigate to="/login" replace />;
   }
 
+  if (!can(permission)) {
+    return <Navigate to="/" replace />;
+  }
+
   return (
-    <SidebarProvider defaultOpen={true}>
-      <div className="flex min-h-screen w-full bg-background">
-        <DashboardSidebar />
-        <div className="flex flex-1 flex-col">
-          <DashboardHeader />
-          <main className="flex-1">{children}</main>
+    <RealtimeProvider>
+      <SidebarProvider defaultOpen={true}>
+        <div className="flex min-h-screen w-full bg-background">
+          <DashboardSidebar />
+          <div className="flex flex-1 flex-col">
+            <DashboardHeader />
+            <main className="flex-1">{children}</main>
+          </div>
         </div>
-      </div>
-    </SidebarProvider>
+      </SidebarProvider>
+    </RealtimeProvider>
   );
 }
 
@@ -58,7 +69,7 @@ const App = () => (
           <Route
             path="/"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="overview">
                 <Dashboard />
               </ProtectedLayout>
             }
@@ -66,7 +77,7 @@ const App = () => (
           <Route
             path="/map"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="map">
                 <MapPage />
               </ProtectedLayout>
             }
@@ -74,15 +85,23 @@ const App = () => (
           <Route
             path="/tourists"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="tourists">
                 <TouristsPage />
               </ProtectedLayout>
             }
           />
+          <Route
+            path="/analytics"
+            element={
+              <ProtectedLayout permission="analytics">
+                <AnalyticsPage />
+              </ProtectedLayout>
+            }
+          />
           <Route
             path="/efir"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="efir">
                 <EFIRPage />
               </ProtectedLayout>
             }
@@ -90,7 +109,7 @@ const App = () => (
           <Route
             path="/security"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="security">
                 <SecurityPage />
               </ProtectedLayout>
             }
@@ -98,7 +117,7 @@ const App = () => (
           <Route
             path="/settings"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="settings">
                 <SettingsPage />
               </ProtectedLayout>
             }
@@ -107,12 +126,39 @@ const App = () => (
           <Route
             path="/alerts"
             element={
-              <ProtectedLayout>
+              <ProtectedLayout permission="alerts">
                 <AlertPage />
               </ProtectedLayout>
             }
           />
 
+          <Route
+            path="/verify"
+            element={
+              <ProtectedLayout permission="verify">
+                <VerifyPage />
+              </ProtectedLayout>
+            }
+          />
+
+          <Route
+            path="/kyc"
+            element={
+              <ProtectedLayout permission="kyc">
+                <KycPage />
+              </ProtectedLayout>
+            }
+          />
+
+          <Route
+            path="/users"
+            element={
+              <ProtectedLayout permission="users">
+                <UsersPage />
+              </ProtectedLayout>
+            }
+          />
+
           {/* Catch-all */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertActionInput, useOfficers } from "@/hooks/useApi";
+
+// Actions that need more than a click: a resolution note or the officer to hand over to
+export type DialogAction = "resolve" | "reassign";
+
+interface AlertActionDialogProps {
+  action: DialogAction | null;
+  busy?: boolean;
+  onClose: () => void;
+  onSubmit: (action: DialogAction, body: NonNullable<AlertActionInput["body"]>) => void;
+}
+
+const COPY: Record<DialogAction, { title: string; description: string; submit: string }> = {
+  resolve: {
+    title: "Resolve Alert",
+    description: "Describe how the alert was handled. The note is kept in the alert history.",
+    submit: "Resolve",
+  },
+  reassign: {
+    title: "Reassign Alert",
+    description: "Hand this alert to another officer. They become its owner immediately.",
+    submit: "Reassign",
+  },
+};
+
+export function AlertActionDialog({ action, busy, onClose, onSubmit }: AlertActionDialogProps) {
+  const [note, setNote] = useState("");
+  const [officerId, setOfficerId] = useState("");
+  const { data: officers = [] } = useOfficers(action === "reassign");
+
+  useEffect(() => {
+    setNote("");
+    setOfficerId("");
+  }, [action]);
+
+  if (!action) return null;
+  const copy = COPY[action];
+  const valid = action === "resolve" ? note.trim() !== "" : officerId !== "";
+
+  const submit = () =>
+    onSubmit(action, action === "resolve" ? { resolution: note.trim() } : { officerId, note: note.trim() || undefined });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {action === "reassign" && (
+            <div className="space-y-2">
+              <Label>Officer</Label>
+              <Select value={officerId} onValueChange={setOfficerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an officer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {officers.map((o) => (
+                    <SelectItem key={o._id} value={o._id}>
+                      {o.name || o.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="alert-action-note">{action === "resolve" ? "Resolution" : "Note (optional)"}</Label>
+            <Textarea id="alert-action-note" rows={4} value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!valid || busy}>
+            {busy ? "Saving..." : copy.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { MoreHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+import { Alert, AlertAction } from "@/lib/api";
+import { AlertActionInput } from "@/hooks/useApi";
+import { AlertActionDialog, DialogAction } from "@/components/AlertActionDialog";
+
+interface AlertActionsProps {
+  status: Alert["status"];
+  severity: NonNullable<Alert["severity"]>;
+  // Mirrors the backend: an accepted alert is managed by its owner or an admin
+  canManage: boolean;
+  onAction: (action: AlertAction, body?: AlertActionInput["body"]) => Promise<void>;
+  children?: React.ReactNode; // extra buttons, e.g. "Details" on the card
+}
+
+const ACTION_DONE: Record<AlertAction, string> = {
+  acknowledge: "Alert acknowledged",
+  accept: "You have successfully accepted this alert.",
+  release: "Alert returned to the open queue",
+  reassign: "Alert reassigned",
+  escalate: "Alert escalated",
+  resolve: "Alert resolved",
+  reopen: "Alert reopened",
+};
+
+// Lifecycle buttons for one alert, shared by the alert card and the details sheet
+export function AlertActions({ status, severity, canManage, onAction, children }: AlertActionsProps) {
+  const [pending, setPending] = useState<AlertAction | null>(null);
+  const [dialog, setDialog] = useState<DialogAction | null>(null);
+  const { toast } = useToast();
+
+  const runAction = async (action: AlertAction, body?: AlertActionInput["body"]) => {
+    setPending(action);
+    try {
+      await onAction(action, body);
+      toast({ title: "Alert Updated", description: ACTION_DONE[action] });
+      setDialog(null);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message || `Failed to ${action} the alert.`, variant: "destructive" });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const isAccepted = status === "accepted";
+  const isResolved = status === "resolved";
+
+  return (
+    <div className="flex gap-2 pt-2">
+      {(status === "open" || status === "acknowledged") && (
+        <Button size="sm" className="flex-1 text-xs" onClick={() => runAction("accept")} disabled={!!pending}>
+          {pending === "accept" ? "Accepting..." : "Accept Alert"}
+        </Button>
+      )}
+      {isAccepted && canManage && (
+        <Button size="sm" className="flex-1 text-xs" onClick={() => setDialog("resolve")} disabled={!!pending}>
+          Resolve
+        </Button>
+      )}
+      {isResolved && (
+        <Button size="sm" variant="outline" className="flex-1 text-xs" onClick={() => runAction("reopen")} disabled={!!pending}>
+          {pending === "reopen" ? "Reopening..." : "Reopen"}
+        </Button>
+      )}
+      {children}
+      {!isResolved && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="text-xs" disabled={!!pending} aria-label="More actions">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {status === "open" && (
+              <DropdownMenuItem onClick={() => runAction("acknowledge")}>Acknowledge</DropdownMenuItem>
+            )}
+            {severity !== "critical" && (
+              <DropdownMenuItem onClick={() => runAction("escalate")}>Escalate severity</DropdownMenuItem>
+            )}
+            {canManage && <DropdownMenuItem onClick={() => setDialog("reassign")}>Reassign…</DropdownMenuItem>}
+            {status === "acknowledged" && (
+              <DropdownMenuItem onClick={() => setDialog("resolve")}>Resolve…</DropdownMenuItem>
+            )}
+            {isAccepted && canManage && (
+              <DropdownMenuItem onClick={() => runAction("release")}>Release to queue</DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <AlertActionDialog
+        action={dialog}
+        busy={!!pending}
+        onClose={() => setDialog(null)}
+        onSubmit={(action, body) => runAction(action, body)}
+      />
+    </div>
+  );
+}
@@ -4,12 +4,14 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { useState } from "react";
-import { useToast } from "@/components/ui/use-toast";
+import { AlertAction, AlertSeverity } from "@/lib/api";
+import { AlertActionInput } from "@/hooks/useApi";
+import { AlertActions } from "@/components/AlertActions";
 
 interface AlertCardProps {
   id: string;
-  type: 'critical' | 'high' | 'medium' | 'low' | string;
+  type: 'sos' | 'anomaly' | 'geofence' | 'eFIR' | string;
+  severity?: AlertSeverity;
   title: string;
   description: string;
   location: string | { lat: number; lng: number };
@@ -17,9 +19,12 @@ interface AlertCardProps {
   timestamp: string;
   status: 'open' | 'acknowledged' | 'accepted' | 'resolved';
   acceptedBy?: { _id: string; name: string; email: string };
+  resolution?: string;
   isNew?: boolean;
-  onAccept?: (alertId: string) => Promise<void>;
+  onAction?: (action: AlertAction, body?: AlertActionInput["body"]) => Promise<void>;
+  onDetails?: () => void;
   currentUserId?: string;
+  isAdmin?: boolean;
 }
 
 const alertStyles = {
@@ -32,6 +37,7 @@ const alertStyles = {
 export function AlertCard({
   id,
   type,
+  severity = "medium",
   title,
   description,
   location,
@@ -39,29 +45,19 @@ export function AlertCard({
   timestamp,
   status,
   acceptedBy,
+  resolution,
   isNew = false,
-  onAccept,
-  currentUserId
+  onAction,
+  onDetails,
+  currentUserId,
+  isAdmin = false
 }: AlertCardProps) {
-  const styles = alertStyles[type] || alertStyles.low;
-  const [isAccepting, setIsAccepting] = useState(false);
-  const { toast } = useToast();
-
-  const handleAccept = async () => {
-    if (!onAccept) return;
-    setIsAccepting(true);
-    try {
-      await onAccept(id);
-      toast({ title: "Alert Accepted", description: "You have successfully accepted this alert." });
-    } catch {
-      toast({ title: "Error", description: "Failed to accept the alert.", variant: "destructive" });
-    } finally {
-      setIsAccepting(false);
-    }
-  };
+  const styles = alertStyles[severity] || alertStyles.low;
 
   const isAcceptedByCurrentUser = acceptedBy && currentUserId && acceptedBy._id === currentUserId;
   const isAccepted = status === 'accepted';
+  const isResolved = status === 'resolved';
+  const canManage = !isAccepted || !!isAcceptedByCurrentUser || isAdmin;
 
   // Safely render location
   const renderLocation = () => {
@@ -76,15 +72,19 @@ export function AlertCard({
       styles.border,
       styles.bg,
       isNew && "ring-2 ring-primary/50",
-      isAccepted && "border-primary/50 bg-primary/5"
+      isAccepted && "border-primary/50 bg-primary/5",
+      isResolved && "opacity-75"
     )}>
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-2">
             <div className={cn("w-3 h-3 rounded-full", styles.dot, isNew && "animate-pulse")} />
             <Badge className={cn("text-xs font-medium", styles.badge)}>{type.toUpperCase()}</Badge>
+            <Badge variant="outline" className="text-xs capitalize">{severity}</Badge>
             {isNew && <Badge variant="outline" className="text-xs bg-primary/10 text-primary border-primary/20">NEW</Badge>}
+            {status === 'acknowledged' && <Badge variant="outline" className="text-xs">ACKNOWLEDGED</Badge>}
             {isAccepted && <Badge variant="outline" className="text-xs bg-green-500/10 text-green-500 border-green-500/20">ACCEPTED</Badge>}
+            {isResolved && <Badge variant="secondary" className="text-xs">RESOLVED</Badge>}
           </div>
           <span className="text-xs text-muted-foreground">{timestamp}</span>
         </div>
@@ -112,16 +112,23 @@ export function AlertCard({
               <span>Accepted by: {isAcceptedByCurrentUser ? 'You' : acceptedBy.name}</span>
             </div>
           )}
-        </div>
-
-        <div className="flex gap-2 pt-2">
-          {!isAccepted && onAccept && (
-            <Button size="sm" className="flex-1 text-xs" onClick={handleAccept} disabled={isAccepting}>
-              {isAccepting ? "Accepting..." : "Accept Alert"}
-            </Button>
+          {isResolved && resolution && (
+            <div className="flex items-start gap-2 text-muted-foreground">
+              <CheckCircle className="h-3 w-3 mt-0.5" />
+              <span>Resolution: {resolution}</span>
+            </div>
           )}
-          <Button variant="outline" size="sm" className="flex-1 text-xs">Details</Button>
         </div>
+
+        {onAction ? (
+          <AlertActions status={status} severity={severity} canManage={canManage} onAction={onAction}>
+            <Button variant="outline" size="sm" className="flex-1 text-xs" onClick={onDetails}>Details</Button>
+          </AlertActions>
+        ) : (
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" size="sm" className="flex-1 text-xs" onClick={onDetails}>Details</Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
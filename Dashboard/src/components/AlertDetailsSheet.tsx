@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { MapContainer, TileLayer, CircleMarker, Polyline } from "react-leaflet";
+import { FileText, MapPin, Phone, ShieldCheck, TriangleAlert, User } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { Alert, AlertAction, AlertHistoryEntry } from "@/lib/api";
+import { AlertActionInput, queryKeys, useAddAlertNote, useAlertDetails } from "@/hooks/useApi";
+import { useRealtime } from "@/hooks/useRealtime";
+import { AlertActions } from "@/components/AlertActions";
+
+interface AlertDetailsSheetProps {
+  alertId: string | null;
+  currentUserId?: string;
+  isAdmin?: boolean;
+  onClose: () => void;
+  onAction: (alertId: string) => (action: AlertAction, body?: AlertActionInput["body"]) => Promise<void>;
+}
+
+const HISTORY_LABELS: Record<AlertHistoryEntry["action"], string> = {
+  acknowledge: "Acknowledged",
+  accept: "Accepted",
+  release: "Released to queue",
+  reassign: "Reassigned",
+  escalate: "Escalated",
+  resolve: "Resolved",
+  reopen: "Reopened",
+  respond: "Responded",
+  note: "Note",
+};
+
+const LOCATIONS_SHOWN = 8;
+
+const alertPosition = (alert: Alert): [number, number] | null =>
+  typeof alert.location === "object" && alert.location?.lat != null ? [alert.location.lat, alert.location.lng] : null;
+
+function Section({ title, icon: Icon, children }: { title: string; icon: typeof User; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        <Icon className="h-4 w-4 text-muted-foreground" />
+        {title}
+      </h4>
+      {children}
+    </section>
+  );
+}
+
+export function AlertDetailsSheet({ alertId, currentUserId, isAdmin = false, onClose, onAction }: AlertDetailsSheetProps) {
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useAlertDetails(alertId);
+  const addNote = useAddAlertNote();
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  // Other officers' actions and notes show up while the sheet is open
+  useRealtime<{ alertId: string }>("alert_updated", (payload) => {
+    if (alertId && String(payload.alertId) === alertId) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertDetails(alertId) });
+    }
+  });
+
+  const submitNote = async () => {
+    if (!alertId || !note.trim()) return;
+    try {
+      await addNote.mutateAsync({ alertId, note: note.trim() });
+      setNote("");
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  const alert = data?.alert;
+  const position = alert ? alertPosition(alert) : null;
+  const trail = (data?.recentLocations ?? []).map((p) => [p.lat, p.lon] as [number, number]);
+  const mapCenter = position ?? trail.at(-1) ?? null;
+  const isAccepted = alert?.status === "accepted";
+  const canManage = !isAccepted || alert?.acceptedBy?._id === currentUserId || isAdmin;
+
+  return (
+    <Sheet open={!!alertId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-xl">
+        {isLoading || !alert ? (
+          <div className="space-y-4 pt-6">
+            {error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : (
+              [...Array(4)].map((_, i) => <Skeleton key={i} className="h-24 w-full" />)
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <SheetHeader>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge>{alert.type.toUpperCase()}</Badge>
+                <Badge variant="outline" className="capitalize">{alert.severity ?? "medium"}</Badge>
+                <Badge variant="secondary" className="uppercase">{alert.status}</Badge>
+              </div>
+              <SheetTitle>{alert.message || "Alert"}</SheetTitle>
+              <SheetDescription>
+                Raised {new Date(alert.createdAt).toLocaleString()}
+                {alert.acceptedBy && ` · handled by ${alert.acceptedBy._id === currentUserId ? "you" : alert.acceptedBy.name}`}
+              </SheetDescription>
+            </SheetHeader>
+
+            <AlertActions
+              status={alert.status}
+              severity={alert.severity ?? "medium"}
+              canManage={canManage}
+              onAction={onAction(alert._id)}
+            />
+
+            {mapCenter && (
+              <div className="h-48 overflow-hidden rounded-lg border">
+                <MapContainer key={alert._id} center={mapCenter} zoom={15} className="h-full w-full" scrollWheelZoom={false}>
+                  <TileLayer
+                    url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                    attribution="&copy; OpenStreetMap contributors"
+                  />
+                  {trail.length > 1 && <Polyline positions={trail} pathOptions={{ color: "hsl(214 84% 48%)", weight: 3 }} />}
+                  {position && (
+                    <CircleMarker center={position} radius={8} pathOptions={{ color: "hsl(0 75% 58%)", fillOpacity: 0.8 }} />
+                  )}
+                </MapContainer>
+              </div>
+            )}
+
+            <Section title="Tourist" icon={User}>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <span className="text-muted-foreground">Name</span>
+                <span>{data.tourist.name || "-"}</span>
+                <span className="text-muted-foreground">Tourist ID</span>
+                <span className="break-all">{data.tourist.touristId}</span>
+                <span className="text-muted-foreground">Phone</span>
+                <span>{data.tourist.phone || "-"}</span>
+                <span className="text-muted-foreground">KYC</span>
+                <span className="capitalize">{data.tourist.kycStatus?.replace("_", " ") || "-"}</span>
+                <span className="text-muted-foreground">Digital ID</span>
+                <span className="capitalize">
+                  {data.digitalId
+                    ? `${data.digitalId.status} · expires ${new Date(data.digitalId.expiryAt).toLocaleDateString()}`
+                    : "Not registered"}
+                </span>
+                {!!data.digitalId?.destinations.length && (
+                  <>
+                    <span className="text-muted-foreground">Itinerary</span>
+                    <span>{data.digitalId.destinations.map((d) => d.location).join(" → ")}</span>
+                  </>
+                )}
+              </div>
+            </Section>
+
+            {data.emergencyContacts && (
+              <Section title="Emergency Contacts" icon={Phone}>
+                {data.emergencyContacts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No contacts on file</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {data.emergencyContacts.map((c, i) => (
+                      <li key={i} className="flex justify-between">
+                        <span>
+                          {c.name}
+                          {c.relationship && <span className="text-muted-foreground"> ({c.relationship})</span>}
+                        </span>
+                        <a href={`tel:${c.phone}`} className="text-primary hover:underline">{c.phone}</a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Section>
+            )}
+
+            <Section title={`Last ${Math.min(LOCATIONS_SHOWN, data.recentLocations.length)} Locations`} icon={MapPin}>
+              {data.recentLocations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No location history</p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {data.recentLocations.slice(-LOCATIONS_SHOWN).reverse().map((p) => (
+                    <li key={p.ts} className="flex justify-between text-muted-foreground">
+                      <span>{new Date(p.ts).toLocaleString()}</span>
+                      <span>
+                        {p.lat.toFixed(5)}, {p.lon.toFixed(5)}
+                        {p.speed != null && ` · ${p.speed.toFixed(1)} m/s`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Related Anomalies" icon={TriangleAlert}>
+              {data.anomalies.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None</p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {data.anomalies.map((a) => (
+                    <li key={a._id} className="flex justify-between text-muted-foreground">
+                      <span>{new Date(a.createdAt).toLocaleString()}</span>
+                      <span>{a.score != null ? `score ${a.score.toFixed(3)}` : a.type}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="e-FIRs" icon={FileText}>
+              {data.efirs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None filed</p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {data.efirs.map((f) => (
+                    <li key={f._id} className="flex justify-between">
+                      <span>
+                        {f.efirId} · <span className="capitalize">{f.incidentType}</span>
+                      </span>
+                      <Badge variant="outline" className="text-[10px] capitalize">{f.status.replace("_", " ")}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Separator />
+
+            <Section title="Timeline" icon={ShieldCheck}>
+              <ol className="relative space-y-4 border-l pl-4 text-sm">
+                <li className="relative">
+                  <div className="absolute -left-[22.5px] top-1.5 h-3 w-3 rounded-full bg-muted-foreground" />
+                  <p className="font-medium">Alert raised</p>
+                  <p className="text-xs text-muted-foreground">{new Date(alert.createdAt).toLocaleString()}</p>
+                </li>
+                {(alert.statusHistory ?? []).map((entry, i) => (
+                  <li key={i} className="relative">
+                    <div className="absolute -left-[22.5px] top-1.5 h-3 w-3 rounded-full bg-primary" />
+                    <p className="font-medium">
+                      {HISTORY_LABELS[entry.action] ?? entry.action}
+                      {entry.action === "escalate" && entry.severity && ` to ${entry.severity}`}
+                      {entry.from !== entry.to && (
+                        <span className="font-normal text-muted-foreground"> · {entry.from} → {entry.to}</span>
+                      )}
+                    </p>
+                    {entry.note && <p className="whitespace-pre-wrap">{entry.note}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {entry.byName ?? "System"} · {new Date(entry.at).toLocaleString()}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+
+              <div className="space-y-2 pt-2">
+                <Textarea
+                  rows={3}
+                  placeholder="Add a note for other responders..."
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={submitNote} disabled={!note.trim() || addNote.isPending}>
+                    {addNote.isPending ? "Adding..." : "Add Note"}
+                  </Button>
+                </div>
+              </div>
+            </Section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from "react";
+import { Bookmark, Link2, Search, SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Alert, AlertSeverity } from "@/lib/api";
+import { AlertFilters, AlertSort } from "@/hooks/useApi";
+import { canonicalAlertSearch, parseAlertSearch, toAlertSearch } from "@/lib/alertFilters";
+
+const STATUSES: { value: Alert["status"]; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "acknowledged", label: "Acknowledged" },
+  { value: "accepted", label: "Accepted" },
+  { value: "resolved", label: "Resolved" },
+];
+
+const SEVERITIES: { value: AlertSeverity; label: string }[] = [
+  { value: "critical", label: "Critical" },
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+const TYPES: { value: string; label: string }[] = [
+  { value: "sos", label: "SOS" },
+  { value: "anomaly", label: "Anomaly" },
+  { value: "geofence", label: "Geofence" },
+  { value: "eFIR", label: "e-FIR" },
+];
+
+const SORTS: { value: AlertSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "severity", label: "Most severe" },
+];
+
+// Presets are plain query strings, the same thing an officer shares as a link
+const PRESETS: { label: string; search: string }[] = [
+  { label: "Active", search: "" },
+  { label: "Assigned to me", search: "status=accepted&assignee=me" },
+  { label: "Critical & high", search: "severity=critical,high" },
+  { label: "SOS", search: "type=sos" },
+  { label: "Resolved", search: "status=resolved" },
+  { label: "Everything", search: "status=all" },
+];
+
+const SAVED_VIEWS_KEY = "alertViews";
+
+interface SavedView {
+  name: string;
+  search: string;
+}
+
+const loadSavedViews = (): SavedView[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_VIEWS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+interface AlertFilterBarProps {
+  filters: AlertFilters;
+  onChange: (filters: AlertFilters) => void;
+}
+
+export function AlertFilterBar({ filters, onChange }: AlertFilterBarProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState(filters.q ?? "");
+  const [savedViews, setSavedViews] = useState<SavedView[]>(loadSavedViews);
+  const [viewName, setViewName] = useState("");
+
+  // Any change of view starts again from the first page
+  const update = (patch: Partial<AlertFilters>) => onChange({ ...filters, ...patch, page: undefined });
+
+  // Follow the URL when it changes underneath us (preset, back button, shared link)
+  useEffect(() => setText(filters.q ?? ""), [filters.q]);
+
+  // The debounced search applies to the filters current when it fires, not when it was scheduled
+  const updateRef = useRef(update);
+  updateRef.current = update;
+
+  useEffect(() => {
+    if (text.trim() === (filters.q ?? "")) return;
+    const timer = setTimeout(() => updateRef.current({ q: text.trim() || undefined }), 300);
+    return () => clearTimeout(timer);
+  }, [text, filters.q]);
+
+  const toggle = <K extends "status" | "severity" | "type">(key: K, value: NonNullable<AlertFilters[K]>[number]) => {
+    const current = (filters[key] ?? []) as string[];
+    update({ [key]: current.includes(value) ? current.filter((v) => v !== value) : [...current, value] });
+  };
+
+  const applySearch = (search: string) => onChange(parseAlertSearch(new URLSearchParams(search)));
+  const currentView = canonicalAlertSearch(toAlertSearch(filters).toString());
+
+  const saveView = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    const next = [...savedViews.filter((v) => v.name !== name), { name, search: currentView }];
+    localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(next));
+    setSavedViews(next);
+    setViewName("");
+  };
+
+  const removeView = (name: string) => {
+    const next = savedViews.filter((v) => v.name !== name);
+    localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(next));
+    setSavedViews(next);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Anyone with access can open this exact view." });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  const extraFilters = [filters.from, filters.to, filters.touristId].filter(Boolean).length;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            size="sm"
+            variant={canonicalAlertSearch(preset.search) === currentView ? "default" : "outline"}
+            onClick={() => applySearch(preset.search)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        {savedViews.map((view) => (
+          <div key={view.name} className="flex items-center">
+            <Button
+              size="sm"
+              variant={view.search === currentView ? "default" : "outline"}
+              className="rounded-r-none"
+              onClick={() => applySearch(view.search)}
+            >
+              <Bookmark className="mr-1 h-3 w-3" />
+              {view.name}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="rounded-l-none border-l-0 px-2"
+              onClick={() => removeView(view.name)}
+              aria-label={`Remove ${view.name}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="ml-auto flex gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline">
+                <Bookmark className="mr-1 h-4 w-4" />
+                Save view
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 space-y-2">
+              <Label htmlFor="alert-view-name">View name</Label>
+              <Input
+                id="alert-view-name"
+                value={viewName}
+                placeholder="e.g. Night shift SOS"
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && saveView()}
+              />
+              <Button size="sm" className="w-full" onClick={saveView} disabled={!viewName.trim()}>
+                Save
+              </Button>
+            </PopoverContent>
+          </Popover>
+          <Button size="sm" variant="outline" onClick={copyLink}>
+            <Link2 className="mr-1 h-4 w-4" />
+            Copy link
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative min-w-[220px] flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            placeholder="Search message, tourist name or ID..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+        </div>
+
+        <Select value={filters.sort ?? "newest"} onValueChange={(sort) => update({ sort: sort as AlertSort })}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORTS.map((s) => (
+              <SelectItem key={s.value} value={s.value}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline">
+              <SlidersHorizontal className="mr-1 h-4 w-4" />
+              More filters{extraFilters > 0 && ` (${extraFilters})`}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="alert-from">From</Label>
+                <Input
+                  id="alert-from"
+                  type="date"
+                  value={filters.from ?? ""}
+                  max={filters.to}
+                  onChange={(e) => update({ from: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="alert-to">To</Label>
+                <Input
+                  id="alert-to"
+                  type="date"
+                  value={filters.to ?? ""}
+                  min={filters.from}
+                  onChange={(e) => update({ to: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-tourist">Tourist ID</Label>
+              <Input
+                id="alert-tourist"
+                value={filters.touristId ?? ""}
+                placeholder="Exact Digital ID"
+                onChange={(e) => update({ touristId: e.target.value.trim() || undefined })}
+              />
+            </div>
+            {extraFilters > 0 && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="w-full"
+                onClick={() => update({ from: undefined, to: undefined, touristId: undefined })}
+              >
+                Clear
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        <ChipGroup label="Status" options={STATUSES} selected={filters.status ?? []} onToggle={(v) => toggle("status", v)} />
+        <ChipGroup label="Severity" options={SEVERITIES} selected={filters.severity ?? []} onToggle={(v) => toggle("severity", v)} />
+        <ChipGroup label="Type" options={TYPES} selected={filters.type ?? []} onToggle={(v) => toggle("type", v)} />
+        {filters.assignee === "me" && (
+          <Button size="sm" variant="secondary" className="h-7 text-xs" onClick={() => update({ assignee: undefined })}>
+            Assigned to me
+            <X className="ml-1 h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ChipGroupProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onToggle: (value: T) => void;
+}
+
+// No chip selected means no filter on that field
+function ChipGroup<T extends string>({ label, options, selected, onToggle }: ChipGroupProps<T>) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {options.map((o) => (
+        <Button
+          key={o.value}
+          size="sm"
+          variant={selected.includes(o.value) ? "default" : "outline"}
+          className="h-7 rounded-full px-3 text-xs"
+          onClick={() => onToggle(o.value)}
+        >
+          {o.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -11,12 +11,19 @@ import {
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { SidebarTrigger } from "@/components/ui/sidebar";
-import { useNavigate } from "react-router-dom"; // If React Router
-// If Next.js -> import { useRouter } from "next/navigation";
+import { apiFetch, signOut } from "@/lib/api";
+import { useRealtimeStatus } from "@/hooks/useRealtime";
+import { RealtimeStatus } from "@/lib/realtime";
 
-export function DashboardHeader() {
-  const navigate = useNavigate(); // Next.js -> const router = useRouter();
+const STATUS_INDICATOR: Record<RealtimeStatus, { label: string; box: string; dot: string; text: string }> = {
+  open: { label: "Live", box: "bg-success/10 border-success/20", dot: "bg-success animate-pulse", text: "text-success" },
+  connecting: { label: "Connecting", box: "bg-warning/10 border-warning/20", dot: "bg-warning", text: "text-warning" },
+  reconnecting: { label: "Reconnecting", box: "bg-warning/10 border-warning/20", dot: "bg-warning animate-pulse", text: "text-warning" },
+  closed: { label: "Offline", box: "bg-destructive/10 border-destructive/20", dot: "bg-destructive", text: "text-destructive" },
+};
 
+export function DashboardHeader() {
+  const indicator = STATUS_INDICATOR[useRealtimeStatus()];
   const currentTime = new Date().toLocaleString("en-US", {
     weekday: "long",
     year: "numeric",
@@ -28,21 +35,12 @@ export function DashboardHeader() {
 
   const handleLogout = async () => {
     try {
-      // optional API call if backend has logout
-      await fetch("/api/auth/logout", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
-
-      // remove token from storage
-      localStorage.removeItem("token");
-
-      // redirect to login
-      navigate("/login"); // Next.js -> router.push("/login");
+      // tokens are not blacklisted server-side, so this is best effort
+      await apiFetch("/api/auth/logout", { method: "POST" });
     } catch (err) {
       console.error("Logout failed:", err);
+    } finally {
+      signOut();
     }
   };
 
@@ -84,11 +82,11 @@ export function DashboardHeader() {
             </Badge>
           </Button>
 
-          {/* System Status Indicator */}
-          <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-md bg-success/10 border border-success/20">
-            <div className="w-2 h-2 bg-success rounded-full animate-pulse"></div>
-            <span className="text-xs font-medium text-success">
-              System Online
+          {/* Realtime Connection Indicator */}
+          <div className={`hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-md border ${indicator.box}`}>
+            <div className={`w-2 h-2 rounded-full ${indicator.dot}`}></div>
+            <span className={`text-xs font-medium ${indicator.text}`}>
+              {indicator.label}
             </span>
           </div>
 
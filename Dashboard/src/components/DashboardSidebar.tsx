@@ -7,9 +7,14 @@ import {
   BarChart3, 
   FileText,
   Shield,
-  Settings
+  Settings,
+  ScanLine,
+  UserCheck,
+  UserCog
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Permission } from "@/lib/permissions";
 
 import {
   Sidebar,
@@ -23,24 +28,35 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar";
 
-const navigationItems = [
-  { title: "Overview", url: "/", icon: LayoutDashboard },
-  { title: "Live Map", url: "/map", icon: Map },
-  { title: "Tourist Management", url: "/tourists", icon: Users },
-  { title: "Alert Center", url: "/alerts", icon: AlertTriangle },
-  { title: "Analytics", url: "/analytics", icon: BarChart3 },
-  { title: "E-FIR System", url: "/efir", icon: FileText },
+interface NavItem {
+  title: string;
+  url: string;
+  icon: typeof LayoutDashboard;
+  permission: Permission;
+}
+
+const navigationItems: NavItem[] = [
+  { title: "Overview", url: "/", icon: LayoutDashboard, permission: "overview" },
+  { title: "Live Map", url: "/map", icon: Map, permission: "map" },
+  { title: "Tourist Management", url: "/tourists", icon: Users, permission: "tourists" },
+  { title: "Alert Center", url: "/alerts", icon: AlertTriangle, permission: "alerts" },
+  { title: "Analytics", url: "/analytics", icon: BarChart3, permission: "analytics" },
+  { title: "E-FIR System", url: "/efir", icon: FileText, permission: "efir" },
+  { title: "Verify ID", url: "/verify", icon: ScanLine, permission: "verify" },
+  { title: "KYC Review", url: "/kyc", icon: UserCheck, permission: "kyc" },
 ];
 
-const systemItems = [
-  { title: "Security", url: "/security", icon: Shield },
-  { title: "Settings", url: "/settings", icon: Settings },
+const systemItems: NavItem[] = [
+  { title: "Users", url: "/users", icon: UserCog, permission: "users" },
+  { title: "Security", url: "/security", icon: Shield, permission: "security" },
+  { title: "Settings", url: "/settings", icon: Settings, permission: "settings" },
 ];
 
 export function DashboardSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
   const currentPath = location.pathname;
+  const { can } = useAuth();
 
   const isActive = (path: string) => currentPath === path;
   const isMainGroupExpanded = navigationItems.some((item) => isActive(item.url));
@@ -74,7 +90,7 @@ export function DashboardSidebar() {
 
           <SidebarGroupContent>
             <SidebarMenu>
-              {navigationItems.map((item) => {
+              {navigationItems.filter((item) => can(item.permission)).map((item) => {
                 const active = isActive(item.url);
                 return (
                   <SidebarMenuItem key={item.title}>
@@ -103,7 +119,7 @@ export function DashboardSidebar() {
 
           <SidebarGroupContent>
             <SidebarMenu>
-              {systemItems.map((item) => {
+              {systemItems.filter((item) => can(item.permission)).map((item) => {
                 const active = isActive(item.url);
                 return (
                   <SidebarMenuItem key={item.title}>
@@ -126,4 +142,4 @@ export function DashboardSidebar() {
       </SidebarContent>
     </Sidebar>
   );
-}
\ No newline at end of file
+}
\ No newline at end of file
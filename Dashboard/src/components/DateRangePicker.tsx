@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { DateRange as DayRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DateRange } from "@/hooks/useApi";
+import { lastDays } from "@/lib/utils";
+
+const PRESETS = [7, 30, 90];
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  // While the popover is open the range is picked afresh: first click sets the start, second the end
+  const [draft, setDraft] = useState<DayRange | undefined>();
+
+  const select = (range: DayRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange({ from: toDay(range.from), to: toDay(range.to) });
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {PRESETS.map((days) => {
+        const preset = lastDays(days);
+        const active = preset.from === value.from && preset.to === value.to;
+        return (
+          <Button key={days} size="sm" variant={active ? "default" : "outline"} onClick={() => onChange(preset)}>
+            {days}d
+          </Button>
+        );
+      })}
+      <Popover
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          setDraft(next ? { from: undefined } : undefined);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {format(parseISO(value.from), "d MMM yyyy")} – {format(parseISO(value.to), "d MMM yyyy")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={parseISO(value.from)}
+            selected={draft}
+            onSelect={select}
+            disabled={{ after: new Date() }}
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
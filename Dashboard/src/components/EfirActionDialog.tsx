@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EfirActionInput, useOfficers } from "@/hooks/useApi";
+
+// Case actions that need input: the officer to assign or the resolution
+export type EfirDialogAction = "assign" | "resolve";
+
+interface EfirActionDialogProps {
+  action: EfirDialogAction | null;
+  efirId?: string;
+  busy?: boolean;
+  onClose: () => void;
+  onSubmit: (action: EfirDialogAction, body: NonNullable<EfirActionInput["body"]>) => void;
+}
+
+const COPY: Record<EfirDialogAction, { title: string; description: string; submit: string }> = {
+  assign: {
+    title: "Assign e-FIR",
+    description: "The officer becomes responsible for the investigation and the case moves to review.",
+    submit: "Assign",
+  },
+  resolve: {
+    title: "Resolve e-FIR",
+    description: "Record the outcome of the investigation. The tourist who filed the report is notified.",
+    submit: "Resolve",
+  },
+};
+
+export function EfirActionDialog({ action, efirId, busy, onClose, onSubmit }: EfirActionDialogProps) {
+  const [note, setNote] = useState("");
+  const [officerId, setOfficerId] = useState("");
+  const { data: officers = [] } = useOfficers(action === "assign");
+
+  useEffect(() => {
+    setNote("");
+    setOfficerId("");
+  }, [action]);
+
+  if (!action) return null;
+  const copy = COPY[action];
+  const valid = action === "resolve" ? note.trim() !== "" : officerId !== "";
+
+  const submit = () =>
+    onSubmit(action, action === "resolve" ? { resolution: note.trim() } : { officerId, note: note.trim() || undefined });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {copy.title}
+            {efirId && <span className="ml-2 text-sm font-normal text-muted-foreground">{efirId}</span>}
+          </DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {action === "assign" && (
+            <div className="space-y-2">
+              <Label>Officer</Label>
+              <Select value={officerId} onValueChange={setOfficerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an officer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {officers.map((o) => (
+                    <SelectItem key={o._id} value={o._id}>
+                      {o.name || o.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="efir-action-note">{action === "resolve" ? "Resolution" : "Note (optional)"}</Label>
+            <Textarea id="efir-action-note" rows={4} value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!valid || busy}>
+            {busy ? "Saving..." : copy.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GeofenceInput, GeofenceSeverity } from "@/lib/api";
+
+export type GeofenceDraft = GeofenceInput & { id?: string };
+
+interface GeofenceDialogProps {
+  zone: GeofenceDraft | null;
+  saving?: boolean;
+  onClose: () => void;
+  onSave: (zone: GeofenceDraft) => void;
+  onRedraw: (zone: GeofenceDraft) => void;
+  onDelete?: (id: string) => void;
+}
+
+const SEVERITIES: GeofenceSeverity[] = ["low", "medium", "high", "critical"];
+
+export function GeofenceDialog({ zone, saving, onClose, onSave, onRedraw, onDelete }: GeofenceDialogProps) {
+  const [draft, setDraft] = useState<GeofenceDraft | null>(zone);
+
+  useEffect(() => setDraft(zone), [zone]);
+
+  if (!draft) return null;
+  const update = (changes: Partial<GeofenceDraft>) => setDraft({ ...draft, ...changes });
+  const valid = draft.name.trim() !== "" && (draft.type === "polygon" || (draft.radius ?? 0) > 0);
+
+  return (
+    <Dialog open={!!zone} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{draft.id ? "Edit Geofence" : "New Geofence"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="geofence-name">Name</Label>
+            <Input
+              id="geofence-name"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="e.g. Restricted Forest Area"
+            />
+          </div>
+
+          {draft.type === "circle" ? (
+            <div className="space-y-2">
+              <Label htmlFor="geofence-radius">Radius (meters)</Label>
+              <Input
+                id="geofence-radius"
+                type="number"
+                min={1}
+                value={draft.radius ?? ""}
+                onChange={(e) => update({ radius: Number(e.target.value) })}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Polygon with {draft.vertices?.length ?? 0} vertices</p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <Select
+              value={draft.severity ?? "medium"}
+              onValueChange={(severity) => update({ severity: severity as GeofenceSeverity })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITIES.map((s) => (
+                  <SelectItem key={s} value={s} className="capitalize">
+                    {s}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="geofence-restricted">Restricted zone</Label>
+              <p className="text-xs text-muted-foreground">Tourists entering it raise an alert</p>
+            </div>
+            <Switch
+              id="geofence-restricted"
+              checked={!!draft.restricted}
+              onCheckedChange={(restricted) => update({ restricted })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {draft.id && onDelete && (
+              <Button variant="destructive" disabled={saving} onClick={() => onDelete(draft.id!)}>
+                Delete
+              </Button>
+            )}
+            <Button variant="outline" disabled={saving} onClick={() => onRedraw(draft)}>
+              Redraw Shape
+            </Button>
+          </div>
+          <Button disabled={!valid || saving} onClick={() => onSave({ ...draft, name: draft.name.trim() })}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { HeatmapType } from "@/lib/api";
+import { HeatmapFilters } from "@/hooks/useApi";
+
+const TYPES: { type: HeatmapType; label: string }[] = [
+  { type: "sos", label: "SOS" },
+  { type: "anomaly", label: "Anomaly" },
+  { type: "geofence", label: "Geofence" },
+  { type: "eFIR", label: "e-FIR" },
+];
+
+// Hours are shown as a window on the slider; "outside" turns e.g. 06-18 into the night hours 18-06
+export interface HourWindow {
+  start: number;
+  end: number;
+  outside: boolean;
+}
+
+const PRESETS: { label: string; window: HourWindow }[] = [
+  { label: "All day", window: { start: 0, end: 24, outside: false } },
+  { label: "Day", window: { start: 6, end: 18, outside: false } },
+  { label: "Night", window: { start: 6, end: 18, outside: true } },
+];
+
+const formatHour = (h: number) => `${String(h % 24).padStart(2, "0")}:00`;
+
+interface HeatmapControlsProps {
+  filters: Omit<HeatmapFilters, "hourFrom" | "hourTo">;
+  hours: HourWindow;
+  total?: number;
+  onFiltersChange: (filters: Omit<HeatmapFilters, "hourFrom" | "hourTo">) => void;
+  onHoursChange: (hours: HourWindow) => void;
+}
+
+export function HeatmapControls({ filters, hours, total, onFiltersChange, onHoursChange }: HeatmapControlsProps) {
+  const toggleType = (type: HeatmapType) =>
+    onFiltersChange({
+      ...filters,
+      types: filters.types.includes(type) ? filters.types.filter((t) => t !== type) : [...filters.types, type],
+    });
+
+  const isPreset = (w: HourWindow) => w.start === hours.start && w.end === hours.end && w.outside === hours.outside;
+
+  return (
+    <div className="grid gap-4 rounded-lg border p-4 md:grid-cols-3">
+      <div className="space-y-2">
+        <Label>Incident types</Label>
+        <div className="flex flex-wrap gap-2">
+          {TYPES.map(({ type, label }) => (
+            <Button
+              key={type}
+              size="sm"
+              variant={filters.types.includes(type) ? "default" : "outline"}
+              onClick={() => toggleType(type)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {total !== undefined && <p className="text-xs text-muted-foreground">{total} incidents in range</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Date range</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to}
+            onChange={(e) => e.target.value && onFiltersChange({ ...filters, from: e.target.value })}
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from}
+            onChange={(e) => e.target.value && onFiltersChange({ ...filters, to: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>
+            Time of day:{" "}
+            {hours.outside
+              ? `${formatHour(hours.end)} – ${formatHour(hours.start)}`
+              : `${formatHour(hours.start)} – ${formatHour(hours.end)}`}
+          </Label>
+          <div className="flex gap-1">
+            {PRESETS.map(({ label, window }) => (
+              <Button
+                key={label}
+                size="sm"
+                variant={isPreset(window) ? "secondary" : "ghost"}
+                onClick={() => onHoursChange(window)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <Slider
+          min={0}
+          max={24}
+          step={1}
+          minStepsBetweenThumbs={1}
+          value={[hours.start, hours.end]}
+          onValueChange={([start, end]) => onHoursChange({ ...hours, start, end })}
+        />
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Switch
+            id="heatmap-outside"
+            checked={hours.outside}
+            onCheckedChange={(outside) => onHoursChange({ ...hours, outside })}
+          />
+          <Label htmlFor="heatmap-outside" className="text-xs font-normal">
+            Use the hours outside this window
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
+import { HeatmapCell } from "@/lib/api";
+
+interface HeatmapLayerProps {
+  cells: HeatmapCell[];
+  max: number;
+}
+
+// react-leaflet has no heat layer, so this drives the leaflet.heat plugin directly
+export function HeatmapLayer({ cells, max }: HeatmapLayerProps) {
+  const map = useMap();
+  const layerRef = useRef<L.HeatLayer | null>(null);
+
+  useEffect(() => {
+    const layer = L.heatLayer([], { radius: 25, blur: 20, maxZoom: 15 }).addTo(map);
+    layerRef.current = layer;
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current
+      ?.setOptions({ max: Math.max(max, 1) })
+      .setLatLngs(cells.map((c) => [c.lat, c.lon, c.count] as L.HeatLatLngTuple));
+  }, [cells, max]);
+
+  return null;
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { KycDecision } from "@/lib/api";
+
+interface KycReviewDialogProps {
+  decision: KycDecision | null;
+  requestId?: string;
+  busy?: boolean;
+  onClose: () => void;
+  onSubmit: (decision: KycDecision, comment: string) => void;
+}
+
+const COPY: Record<KycDecision, { title: string; description: string; submit: string }> = {
+  approved: {
+    title: "Approve KYC",
+    description: "The tourist is marked verified and can go on to generate their digital ID.",
+    submit: "Approve",
+  },
+  rejected: {
+    title: "Reject KYC",
+    description: "The tourist is told their verification failed. Explain why so they can resubmit.",
+    submit: "Reject",
+  },
+};
+
+export function KycReviewDialog({ decision, requestId, busy, onClose, onSubmit }: KycReviewDialogProps) {
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    setComment("");
+  }, [decision]);
+
+  if (!decision) return null;
+  const copy = COPY[decision];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {copy.title}
+            {requestId && <span className="ml-2 text-sm font-normal text-muted-foreground">{requestId}</span>}
+          </DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="kyc-review-comment">Comment</Label>
+          <Textarea id="kyc-review-comment" rows={4} value={comment} onChange={(e) => setComment(e.target.value)} />
+          <p className="text-xs text-muted-foreground">Required. Stored with the decision and shown to the tourist.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            variant={decision === "rejected" ? "destructive" : "default"}
+            onClick={() => onSubmit(decision, comment.trim())}
+            disabled={!comment.trim() || busy}
+          >
+            {busy ? "Saving..." : copy.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
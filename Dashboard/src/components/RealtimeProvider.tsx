@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { WS_URL, getToken, signOut } from "@/lib/api";
+import { RealtimeClient } from "@/lib/realtime";
+import { RealtimeContext } from "@/hooks/useRealtime";
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [client] = useState(() => new RealtimeClient(WS_URL, getToken, signOut));
+
+  useEffect(() => {
+    client.connect();
+    // Anything broadcast while we were offline is lost, so refetch what is on screen
+    const unsubscribe = client.onReconnect(() => queryClient.invalidateQueries());
+    return () => {
+      unsubscribe();
+      client.disconnect();
+    };
+  }, [client, queryClient]);
+
+  return <RealtimeContext.Provider value={client}>{children}</RealtimeContext.Provider>;
+}
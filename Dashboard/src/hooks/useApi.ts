@@ -0,0 +1,325 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Alert,
+  AlertAction,
+  AlertDetails,
+  AlertPage,
+  AnalyticsData,
+  AlertSeverity,
+  Efir,
+  EfirAction,
+  Geofence,
+  GeofenceInput,
+  GeofenceSet,
+  Heatmap,
+  HeatmapType,
+  KycDecision,
+  KycRequest,
+  Officer,
+  TouristDetails,
+  TouristPosition,
+  TrailPoint,
+  User,
+  VerificationRecord,
+  apiFetch,
+} from "@/lib/api";
+import { Role } from "@/lib/permissions";
+
+// Shared so realtime updates can invalidate or patch the same cache entries
+export const queryKeys = {
+  users: ["users"] as const,
+  touristDetails: (touristId: string) => ["touristDetails", touristId] as const,
+  alertLists: ["alerts", "list"] as const,
+  alerts: (filters: AlertFilters = {}) => ["alerts", "list", filters] as const,
+  efirs: (filters: EfirFilters = {}) => ["efirs", filters] as const,
+  kycPending: ["kyc", "pending"] as const,
+  geofences: ["geofences"] as const,
+  verifications: ["verifications"] as const,
+  officers: ["officers"] as const,
+  alertDetails: (alertId: string) => ["alerts", "details", alertId] as const,
+  positions: ["positions"] as const,
+  trail: (touristId: string) => ["trail", touristId] as const,
+  heatmap: (filters: HeatmapFilters) => ["heatmap", filters] as const,
+  analytics: (metric: keyof AnalyticsData, range: DateRange) => ["analytics", metric, range] as const,
+};
+
+export type AlertSort = "newest" | "oldest" | "severity";
+
+// Mirrors the GET /api/alert query; list values are sent comma separated
+export interface AlertFilters {
+  status?: Alert["status"][];
+  type?: string[];
+  severity?: AlertSeverity[];
+  touristId?: string;
+  assignee?: "me";
+  q?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  sort?: AlertSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface EfirFilters {
+  status?: Efir["status"][];
+  assignee?: "me" | "unassigned" | string; // or an officer's user id
+}
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+export interface HeatmapFilters {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  types: HeatmapType[];
+  hourFrom: number; // [hourFrom, hourTo), wraps past midnight when hourFrom > hourTo
+  hourTo: number;
+}
+
+interface PollOptions {
+  refetchInterval?: number;
+  enabled?: boolean;
+}
+
+export function useUsers(options: PollOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.users,
+    queryFn: () => apiFetch<{ data: User[] }>("/api/admin/users").then((r) => r.data),
+    ...options,
+  });
+}
+
+export function useUpdateUserRoles() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, roles }: { id: string; roles: Role[] }) =>
+      apiFetch<{ data: User }>(`/api/admin/user/${id}/roles`, {
+        method: "PATCH",
+        body: JSON.stringify({ roles }),
+      }).then((r) => r.data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.users }),
+  });
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiFetch(`/api/admin/user/${id}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.users }),
+  });
+}
+
+export function useTouristDetails(touristId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.touristDetails(touristId ?? ""),
+    queryFn: () =>
+      apiFetch<{ data: TouristDetails }>(`/api/tourist/details/${encodeURIComponent(touristId!)}`).then((r) => r.data),
+    enabled: !!touristId,
+  });
+}
+
+export function useAlerts(filters: AlertFilters = {}, options: PollOptions = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    const param = Array.isArray(value) ? value.join(",") : value;
+    if (param !== undefined && param !== "") params.set(key, String(param));
+  }
+  // Whole days in local time, like the heatmap
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  const query = params.toString();
+  return useQuery({
+    queryKey: queryKeys.alerts(filters),
+    queryFn: () => apiFetch<AlertPage & { success: boolean }>(`/api/alert${query ? `?${query}` : ""}`),
+    placeholderData: (previous) => previous, // keep the current page on screen while the next one loads
+    ...options,
+  });
+}
+
+export interface AlertActionInput {
+  alertId: string;
+  action: AlertAction;
+  body?: { note?: string; resolution?: string; officerId?: string; severity?: string };
+}
+
+export function useAlertAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ alertId, action, body }: AlertActionInput) =>
+      apiFetch<{ alert: Alert }>(`/api/alert/${alertId}/${action}`, {
+        method: "PATCH",
+        body: JSON.stringify(body ?? {}),
+      }).then((r) => r.alert),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["alerts"] }),
+  });
+}
+
+export function useAlertDetails(alertId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.alertDetails(alertId ?? ""),
+    queryFn: () => apiFetch<{ data: AlertDetails }>(`/api/alert/${alertId}/details`).then((r) => r.data),
+    enabled: !!alertId,
+  });
+}
+
+export function useAddAlertNote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ alertId, note }: { alertId: string; note: string }) =>
+      apiFetch<{ alert: Alert }>(`/api/alert/${alertId}/notes`, {
+        method: "POST",
+        body: JSON.stringify({ note }),
+      }).then((r) => r.alert),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["alerts"] }),
+  });
+}
+
+export function useOfficers(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.officers,
+    queryFn: () => apiFetch<{ data: Officer[] }>("/api/alert/officers").then((r) => r.data),
+    enabled,
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useEfirs(filters: EfirFilters = {}, options: PollOptions = {}) {
+  const params = new URLSearchParams();
+  if (filters.status?.length) params.set("status", filters.status.join(","));
+  if (filters.assignee) params.set("assignee", filters.assignee);
+  const query = params.toString();
+  return useQuery({
+    queryKey: queryKeys.efirs(filters),
+    queryFn: () => apiFetch<{ data: Efir[] }>(`/api/police/efirs${query ? `?${query}` : ""}`).then((r) => r.data),
+    ...options,
+  });
+}
+
+export interface EfirActionInput {
+  efirId: string;
+  action: EfirAction;
+  body?: { officerId?: string; note?: string; resolution?: string };
+}
+
+export function useEfirAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ efirId, action, body }: EfirActionInput) =>
+      apiFetch<{ data: Efir }>(`/api/police/efirs/${encodeURIComponent(efirId)}/${action}`, {
+        method: "PATCH",
+        body: JSON.stringify(body ?? {}),
+      }).then((r) => r.data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["efirs"] }),
+  });
+}
+
+export function useKycPending(options: PollOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.kycPending,
+    queryFn: () => apiFetch<{ pending: KycRequest[] }>("/api/kyc/pending").then((r) => r.pending),
+    ...options,
+  });
+}
+
+export interface KycReviewInput {
+  requestId: string;
+  status: KycDecision;
+  comment: string;
+}
+
+export function useKycReview() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ requestId, ...body }: KycReviewInput) =>
+      apiFetch<{ kyc: KycRequest }>(`/api/kyc/review/${encodeURIComponent(requestId)}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      }).then((r) => r.kyc),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["kyc"] }),
+  });
+}
+
+export function useGeofences() {
+  return useQuery({
+    queryKey: queryKeys.geofences,
+    queryFn: () => apiFetch<{ data: GeofenceSet }>("/api/tourist/geofences").then((r) => r.data),
+  });
+}
+
+export function useSaveGeofence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...zone }: GeofenceInput & { id?: string }) =>
+      apiFetch<{ data: Geofence }>(id ? `/api/admin/geofences/${id}` : "/api/admin/geofences", {
+        method: id ? "PATCH" : "POST",
+        body: JSON.stringify(zone),
+      }).then((r) => r.data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.geofences }),
+  });
+}
+
+export function useDeleteGeofence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiFetch(`/api/admin/geofences/${id}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.geofences }),
+  });
+}
+
+export function useVerifications(limit = 10) {
+  return useQuery({
+    queryKey: [...queryKeys.verifications, limit],
+    queryFn: () =>
+      apiFetch<{ data: VerificationRecord[] }>(`/api/police/verifications?limit=${limit}`).then((r) => r.data),
+  });
+}
+
+export function usePositions(options: PollOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.positions,
+    queryFn: () => apiFetch<{ data: TouristPosition[] }>("/api/police/positions").then((r) => r.data),
+    ...options,
+  });
+}
+
+export function useTrail(touristId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.trail(touristId ?? ""),
+    queryFn: () =>
+      apiFetch<{ data: TrailPoint[] }>(`/api/police/positions/${encodeURIComponent(touristId!)}/trail`).then(
+        (r) => r.data
+      ),
+    enabled: !!touristId,
+  });
+}
+
+export function useHeatmap(filters: HeatmapFilters, enabled = true) {
+  // Whole days in the officer's local time
+  const params = new URLSearchParams({
+    from: new Date(`${filters.from}T00:00:00`).toISOString(),
+    to: new Date(`${filters.to}T23:59:59.999`).toISOString(),
+    types: filters.types.join(","),
+    hourFrom: String(filters.hourFrom),
+    hourTo: String(filters.hourTo),
+  });
+  return useQuery({
+    queryKey: queryKeys.heatmap(filters),
+    queryFn: () => apiFetch<{ data: Heatmap }>(`/api/police/heatmap?${params}`).then((r) => r.data),
+    enabled: enabled && filters.types.length > 0,
+    placeholderData: (previous) => previous, // keep the layer while the slider moves
+  });
+}
+
+export function useAnalytics<K extends keyof AnalyticsData>(metric: K, range: DateRange) {
+  const params = new URLSearchParams({
+    from: new Date(`${range.from}T00:00:00`).toISOString(),
+    to: new Date(`${range.to}T23:59:59.999`).toISOString(),
+  });
+  return useQuery({
+    queryKey: queryKeys.analytics(metric, range),
+    queryFn: () => apiFetch<{ data: AnalyticsData[K] }>(`/api/analytics/${metric}?${params}`).then((r) => r.data),
+    placeholderData: (previous) => previous, // keep the chart while a new range loads
+  });
+}
@@ -1,4 +1,6 @@
 import { useEffect, useState } from "react";
+import { signOut } from "@/lib/api";
+import { Permission, can } from "@/lib/permissions";
 
 export function useAuth() {
   const [user, setUser] = useState<any | null>(null);
@@ -23,11 +25,9 @@ export function useAuth() {
   }, []);
 
   const logout = () => {
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
     setUser(null);
-    window.location.href = "/login"; // redirect
+    signOut();
   };
 
-  return { user, loading, logout };
+  return { user, loading, logout, can: (permission: Permission) => can(user?.roles, permission) };
 }
@@ -0,0 +1,41 @@
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { RealtimeClient, RealtimeStatus } from "@/lib/realtime";
+
+// Topics the backend broadcasts to the Dashboard
+export type RealtimeTopic = "alert_updated" | "authorities" | "emergency_contact" | (string & {});
+
+// Provided by components/RealtimeProvider
+export const RealtimeContext = createContext<RealtimeClient | null>(null);
+
+function useRealtimeClient() {
+  const client = useContext(RealtimeContext);
+  if (!client) throw new Error("useRealtime must be used inside RealtimeProvider");
+  return client;
+}
+
+/**
+ * Run `handler` for every message on `topic` while the component is mounted.
+ * The latest handler is always used, so it does not need to be memoised.
+ */
+export function useRealtime<T = unknown>(topic: RealtimeTopic, handler: (payload: T) => void) {
+  const client = useRealtimeClient();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => client.subscribe(topic, (payload) => handlerRef.current(payload as T)),
+    [client, topic]
+  );
+}
+
+export function useRealtimeStatus(): RealtimeStatus {
+  const client = useRealtimeClient();
+  const [status, setStatus] = useState(client.getStatus());
+
+  useEffect(() => {
+    setStatus(client.getStatus());
+    return client.onStatus(setStatus);
+  }, [client]);
+
+  return status;
+}
@@ -0,0 +1,57 @@
+import { Alert, AlertSeverity } from "@/lib/api";
+import { AlertFilters, AlertSort } from "@/hooks/useApi";
+
+// Alerts page filters <-> URL query string, so a view can be shared as a link
+
+const STATUSES: Alert["status"][] = ["open", "acknowledged", "accepted", "resolved"];
+const SEVERITIES: AlertSeverity[] = ["low", "medium", "high", "critical"];
+const TYPES = ["sos", "anomaly", "geofence", "eFIR"];
+const SORTS: AlertSort[] = ["newest", "oldest", "severity"];
+
+// The default view when the URL carries no status
+export const ACTIVE_STATUSES: Alert["status"][] = ["open", "acknowledged", "accepted"];
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[]): T[] =>
+  (value ?? "").split(",").filter((v): v is T => allowed.includes(v as T));
+
+export function parseAlertSearch(params: URLSearchParams): AlertFilters {
+  const status = params.get("status");
+  const sort = params.get("sort") as AlertSort | null;
+  const page = parseInt(params.get("page") ?? "", 10);
+  return {
+    status: status === null ? ACTIVE_STATUSES : status === "all" ? undefined : pick(status, STATUSES),
+    severity: pick(params.get("severity"), SEVERITIES),
+    type: pick(params.get("type"), TYPES),
+    touristId: params.get("touristId") || undefined,
+    assignee: params.get("assignee") === "me" ? "me" : undefined,
+    q: params.get("q") || undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    sort: sort && SORTS.includes(sort) ? sort : undefined,
+    page: page > 1 ? page : undefined,
+  };
+}
+
+// Defaults are left out, so the default view is the bare /alerts URL
+export function toAlertSearch(filters: AlertFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const status = filters.status ?? [];
+  const isActive = status.length === ACTIVE_STATUSES.length && ACTIVE_STATUSES.every((s) => status.includes(s));
+  if (!status.length) params.set("status", "all");
+  else if (!isActive) params.set("status", status.join(","));
+  if (filters.severity?.length) params.set("severity", filters.severity.join(","));
+  if (filters.type?.length) params.set("type", filters.type.join(","));
+  for (const key of ["touristId", "assignee", "q", "from", "to"] as const) {
+    if (filters[key]) params.set(key, filters[key]!);
+  }
+  if (filters.sort && filters.sort !== "newest") params.set("sort", filters.sort);
+  if (filters.page && filters.page > 1) params.set("page", String(filters.page));
+  return params;
+}
+
+// Compare views regardless of the page being shown or parameter order
+export function canonicalAlertSearch(search: string): string {
+  const params = toAlertSearch({ ...parseAlertSearch(new URLSearchParams(search)), page: undefined });
+  params.sort();
+  return params.toString();
+}
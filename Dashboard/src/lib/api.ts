@@ -0,0 +1,352 @@
+import { QueryClient } from "@tanstack/react-query";
+
+export const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+export const WS_URL = import.meta.env.VITE_WS_URL || "ws://localhost:5001";
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      // Auth and missing-record errors will not fix themselves on retry
+      retry: (failureCount, error) =>
+        !(error instanceof ApiError && [401, 403, 404].includes(error.status)) && failureCount < 2,
+    },
+  },
+});
+
+export const getToken = () => localStorage.getItem("token");
+
+export function signOut() {
+  localStorage.removeItem("token");
+  localStorage.removeItem("user");
+  queryClient.clear();
+  if (window.location.pathname !== "/login") {
+    window.location.href = "/login";
+  }
+}
+
+/**
+ * fetch against the backend with the session token attached.
+ * Throws ApiError for non-2xx and `success: false` responses; an expired
+ * session (401) signs the user out.
+ */
+export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = getToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  if (init.body && !(init.body instanceof FormData) && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  const res = await fetch(`${API_URL}${path}`, { ...init, headers });
+  const data = await res.json().catch(() => ({}));
+
+  if (res.status === 401 && token) signOut();
+  if (!res.ok || data.success === false) {
+    throw new ApiError(data.message || res.statusText || "Request failed", res.status, data);
+  }
+  return data as T;
+}
+
+/**
+ * Download a file from the backend with the session token and hand it to the
+ * browser as `filename`. Error bodies are JSON, as with apiFetch.
+ */
+export async function apiDownload(path: string, filename: string): Promise<void> {
+  const token = getToken();
+  const res = await fetch(`${API_URL}${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    if (res.status === 401 && token) signOut();
+    throw new ApiError(data.message || res.statusText || "Download failed", res.status, data);
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ------------------ Types ------------------
+
+export interface User {
+  _id: string;
+  name?: string;
+  email: string;
+  phone?: string;
+  roles: string[];
+  walletId?: string;
+  org?: string;
+  kycStatus: "not_started" | "pending" | "manual_review" | "verified" | "failed";
+  digitalIdStatus: "not_generated" | "active" | "deactive";
+  createdAt: string;
+}
+
+export interface Destination {
+  location: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface DigitalIdRecord {
+  _id: string;
+  digitalId: string;
+  walletId: string;
+  status: "pending" | "registered" | "active" | "suspended" | "expired" | "revoked";
+  expiryAt: string;
+  securityScore?: number;
+  chainTx?: { txId: string; blockNumber: number | null; timestamp: string };
+  itinerarySummary?: { destinations: Destination[] };
+  emergencyContactsEncrypted?: unknown;
+  lastKnownLocation?: { lat: number; lon: number; timestamp: string };
+  createdAt: string;
+}
+
+export interface LocationRecord {
+  _id: string;
+  touristId: string;
+  lat: number;
+  lon: number;
+  speed?: number;
+  accuracy?: number;
+  ts: string;
+}
+
+export interface TouristPosition {
+  touristId: string;
+  name: string | null;
+  lat: number;
+  lon: number;
+  ts: string;
+  alert: { id: string; type: string; status: Alert["status"] } | null;
+}
+
+export interface TrailPoint {
+  lat: number;
+  lon: number;
+  speed?: number;
+  ts: string;
+}
+
+export type AlertSeverity = "low" | "medium" | "high" | "critical";
+export type AlertAction = "acknowledge" | "accept" | "release" | "reassign" | "escalate" | "resolve" | "reopen";
+
+export interface AlertHistoryEntry {
+  action: AlertAction | "respond" | "note";
+  from: Alert["status"];
+  to: Alert["status"];
+  severity?: AlertSeverity;
+  by?: string;
+  byName?: string;
+  assignee?: string;
+  note?: string;
+  at: string;
+}
+
+export interface Alert {
+  _id: string;
+  type: "sos" | "anomaly" | "geofence" | "eFIR" | string;
+  severity?: AlertSeverity;
+  message: string;
+  location: string | { lat: number; lng: number };
+  touristId: string;
+  touristName: string | null;
+  status: "open" | "acknowledged" | "accepted" | "resolved";
+  acceptedBy?: { _id: string; name: string; email: string };
+  handledBy?: { _id: string; name: string; email: string };
+  resolution?: string;
+  resolvedAt?: string;
+  statusHistory?: AlertHistoryEntry[];
+  createdAt: string;
+}
+
+// One page of GET /api/alert
+export interface AlertPage {
+  alerts: Alert[];
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export interface AlertDetails {
+  alert: Alert;
+  tourist: { touristId: string; name: string | null; email: string | null; phone: string | null; kycStatus: User["kycStatus"] | null };
+  digitalId: {
+    digitalId: string;
+    status: DigitalIdRecord["status"];
+    expiryAt: string;
+    lastKnownLocation?: { lat: number; lon: number; timestamp: string };
+    destinations: Destination[];
+  } | null;
+  emergencyContacts: { name: string; phone: string; relationship?: string }[] | null; // null when the role may not see them
+  recentLocations: TrailPoint[];
+  anomalies: { _id: string; type?: string; score?: number; createdAt: string }[];
+  efirs: Pick<Efir, "_id" | "efirId" | "incidentType" | "status" | "dateTime" | "createdAt">[];
+}
+
+export interface Officer {
+  _id: string;
+  name?: string;
+  email: string;
+  roles: string[];
+}
+
+export interface TouristDetails {
+  digitalId: DigitalIdRecord;
+  blockchain: Record<string, unknown> | null;
+  recentEvents: unknown[];
+  recentLocations: LocationRecord[];
+  recentAlerts: Alert[];
+}
+
+export interface Efir {
+  _id: string;
+  efirId: string;
+  touristId: string;
+  incidentType?: string;
+  incidentDetails: string;
+  location?: string | { latitude?: number; longitude?: number; address?: string };
+  dateTime: string;
+  attachments?: string[];
+  status: "submitted" | "under_review" | "resolved";
+  assignedTo?: string | null;
+  assignee?: { _id: string; name: string; email: string } | null;
+  resolution?: string | null;
+  resolvedAt?: string | null;
+  statusHistory?: EfirHistoryEntry[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type EfirAction = "assign" | "resolve" | "reopen";
+
+export interface EfirHistoryEntry {
+  action: EfirAction;
+  from: Efir["status"];
+  to: Efir["status"];
+  by?: string;
+  byName?: string;
+  assignee?: string;
+  note?: string;
+  txId?: string; // set once the change is on the ledger
+  at: string;
+}
+
+export interface KycRequest {
+  _id: string;
+  requestId: string;
+  touristId: string;
+  payload: { idType?: "aadhaar" | "passport"; idNumber?: string; name?: string; dob?: string; [key: string]: unknown };
+  documents: { filename: string; mimetype: string; url: string }[];
+  status: "pending" | "auto_approved" | "approved" | "rejected";
+  autoResult?: { reason?: string; [key: string]: unknown } | null;
+  reviewComment?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  // Review queue only: the submitting tourist and why the request is waiting
+  user?: Pick<User, "_id" | "name" | "email" | "phone" | "kycStatus"> | null;
+  queue?: "manual_review" | "otp_pending";
+}
+
+export type KycDecision = "approved" | "rejected";
+
+export type GeofenceSeverity = "low" | "medium" | "high" | "critical";
+
+export interface Geofence {
+  id: string;
+  name: string;
+  type: "circle" | "polygon";
+  center?: [number, number]; // [lat, lon]
+  radius?: number; // meters
+  vertices?: [number, number][];
+  restricted?: boolean;
+  severity?: GeofenceSeverity;
+}
+
+// Body for creating or updating a zone
+export type GeofenceInput = Omit<Geofence, "id">;
+
+export interface GeofenceSet {
+  version: number;
+  changed: boolean;
+  geofences?: Geofence[];
+}
+
+export type HeatmapType = "sos" | "anomaly" | "geofence" | "eFIR";
+
+export interface HeatmapCell {
+  lat: number; // cell centre
+  lon: number;
+  count: number;
+  types: Partial<Record<HeatmapType, number>>;
+}
+
+export interface Heatmap {
+  cells: HeatmapCell[];
+  total: number;
+  max: number;
+  cellSize: number;
+  from: string;
+  to: string;
+  types: HeatmapType[];
+  hourFrom: number;
+  hourTo: number;
+}
+
+export interface VerificationRecord {
+  _id: string;
+  touristId?: string;
+  officer?: { name?: string; email?: string };
+  method: "scan" | "paste";
+  location?: { lat?: number; lng?: number; checkpoint?: string };
+  valid: boolean;
+  reason?: string;
+  createdAt: string;
+}
+
+// ------------------ Analytics ------------------
+
+export interface AlertsPerDay {
+  date: string; // YYYY-MM-DD in the backend's reporting timezone
+  sos: number;
+  anomaly: number;
+  geofence: number;
+  eFIR: number;
+  total: number;
+}
+
+export interface ResponseTimeStats {
+  acceptMinutes: number | null; // mean minutes from creation to first accept
+  resolveMinutes: number | null;
+  accepted: number;
+  resolved: number;
+}
+
+export interface ResponseTimes {
+  series: (ResponseTimeStats & { date: string })[];
+  overall: ResponseTimeStats;
+}
+
+export interface StatusCount<S extends string = string> {
+  status: S;
+  count: number;
+}
+
+// Response data of each /api/analytics endpoint
+export interface AnalyticsData {
+  "alerts-per-day": AlertsPerDay[];
+  "response-times": ResponseTimes;
+  "active-tourists": { date: string; tourists: number }[];
+  "kyc-outcomes": StatusCount<KycRequest["status"]>[];
+  "efirs-by-status": StatusCount<Efir["status"]>[];
+}
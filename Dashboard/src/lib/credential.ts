@@ -0,0 +1,103 @@
+import { API_URL } from "@/lib/api";
+
+// Offline checks for the Digital ID QR credential (an ES256 compact JWS).
+// The issuer's keys are cached so checkpoints keep working without a network.
+
+const JWKS_CACHE_KEY = "credentialKeySet";
+
+export interface CredentialClaims {
+  sub: string; // digital ID
+  name?: string;
+  photoHash?: string | null;
+  status?: string;
+  idExp?: number; // Digital ID expiry, seconds
+  tx?: { id: string; block: number | null } | null;
+  iss: string;
+  iat: number;
+  exp: number;
+  jti?: string;
+}
+
+export interface OfflineResult {
+  signatureValid: boolean;
+  issuerValid: boolean;
+  expired: boolean;
+  claims: CredentialClaims | null;
+  reason: string | null;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// Published by the backend next to its keys; credentials from any other issuer are rejected
+export interface CredentialKeySet {
+  issuer: string | null;
+  keys: Jwk[];
+}
+
+const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const decodeJson = <T,>(value: string): T => JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+
+export async function fetchCredentialKeys(): Promise<CredentialKeySet> {
+  try {
+    const res = await fetch(`${API_URL}/api/tourist/credential/keys`);
+    const { issuer, keys } = await res.json();
+    localStorage.setItem(JWKS_CACHE_KEY, JSON.stringify({ issuer, keys }));
+    return { issuer, keys };
+  } catch {
+    const cached = localStorage.getItem(JWKS_CACHE_KEY);
+    return cached ? JSON.parse(cached) : { issuer: null, keys: [] };
+  }
+}
+
+export async function verifyCredentialOffline(
+  token: string,
+  { issuer, keys }: CredentialKeySet
+): Promise<OfflineResult> {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) {
+    return { signatureValid: false, issuerValid: false, expired: false, claims: null, reason: "Not a Digital ID credential" };
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: CredentialClaims;
+  try {
+    header = decodeJson(parts[0]);
+    claims = decodeJson(parts[1]);
+  } catch {
+    return { signatureValid: false, issuerValid: false, expired: false, claims: null, reason: "Not a Digital ID credential" };
+  }
+
+  const jwk = keys.find((k) => k.kid === header.kid);
+  if (header.alg !== "ES256" || !jwk) {
+    return { signatureValid: false, issuerValid: false, expired: false, claims, reason: "Unknown signing key" };
+  }
+
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["verify"]
+  );
+  // JWS carries the raw r||s signature, which is what WebCrypto expects
+  const signatureValid = await crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    key,
+    base64UrlDecode(parts[2]),
+    new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+  );
+
+  const issuerValid = !!issuer && claims.iss === issuer;
+  const expired = claims.exp * 1000 < Date.now();
+  let reason: string | null = null;
+  if (!signatureValid) reason = "Invalid signature";
+  else if (!issuerValid) reason = "Unknown issuer";
+  else if (expired) reason = "Credential expired";
+
+  return { signatureValid, issuerValid, expired, claims, reason };
+}
@@ -0,0 +1,19 @@
+// Client-side CSV export for tables and charts that are already loaded
+
+const cell = (value: unknown) => {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  return [columns.join(","), ...rows.map((row) => columns.map((c) => cell(row[c])).join(","))].join("\n");
+}
+
+export function downloadCsv<T extends object>(filename: string, rows: T[], columns: (keyof T & string)[]) {
+  const url = URL.createObjectURL(new Blob([toCsv(rows, columns)], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
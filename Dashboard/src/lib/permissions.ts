@@ -0,0 +1,31 @@
+// Mirrors backend/config/permissions.js; the backend enforces it, the Dashboard only hides what would 403
+export type Role = "tourist" | "police" | "tourism" | "issuer" | "admin";
+
+export const ROLES: Role[] = ["tourist", "police", "tourism", "issuer", "admin"];
+
+const STAFF: Role[] = ["police", "tourism", "issuer", "admin"];
+
+export const PERMISSIONS = {
+  overview: STAFF, // every staff role can open it, so pages a role cannot use redirect here
+  alerts: ["police", "admin"],
+  map: ["police", "admin"],
+  efir: ["police", "admin"],
+  verify: ["police", "admin"],
+  analytics: ["police", "admin"],
+  kyc: ["tourism", "issuer", "admin"],
+  tourists: ["tourism", "issuer", "admin"],
+  touristDetails: STAFF,
+  geofences: ["admin"],
+  users: ["admin"],
+  security: ["admin"],
+  settings: STAFF,
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const can = (roles: string[] | undefined, permission: Permission) =>
+  !!roles?.some((role) => (PERMISSIONS[permission] as string[]).includes(role));
+
+// Accounts with none of these roles (tourists) cannot use the Dashboard
+export const hasDashboardAccess = (roles: string[] | undefined) => can(roles, "overview");
+
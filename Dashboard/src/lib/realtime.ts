@@ -0,0 +1,167 @@
+export type RealtimeStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+type Handler = (payload: unknown) => void;
+
+const HEARTBEAT_INTERVAL = 25_000;
+const HEARTBEAT_TIMEOUT = 10_000;
+const MAX_BACKOFF = 30_000;
+const INVALID_TOKEN = 4401; // close code used by the backend for missing or bad tokens
+
+/**
+ * One WebSocket to the backend shared by the whole Dashboard: reconnects with
+ * jittered exponential backoff, heartbeats to notice dead connections and
+ * fans messages out by topic.
+ */
+export class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = "closed";
+  private attempts = 0;
+  private stopped = true;
+  private hasConnected = false;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private pongTimer?: ReturnType<typeof setTimeout>;
+  private handlers = new Map<string, Set<Handler>>();
+  private statusListeners = new Set<(status: RealtimeStatus) => void>();
+  private reconnectListeners = new Set<() => void>();
+
+  constructor(
+    private url: string,
+    private getToken: () => string | null,
+    private onUnauthorized: () => void
+  ) {}
+
+  connect() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    window.addEventListener("online", this.reconnectNow);
+    this.open();
+  }
+
+  disconnect() {
+    this.stopped = true;
+    window.removeEventListener("online", this.reconnectNow);
+    clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+    this.socket?.close();
+    this.socket = null;
+    this.hasConnected = false;
+    this.setStatus("closed");
+  }
+
+  subscribe(topic: string, handler: Handler): () => void {
+    if (!this.handlers.has(topic)) this.handlers.set(topic, new Set());
+    this.handlers.get(topic)!.add(handler);
+    return () => {
+      this.handlers.get(topic)?.delete(handler);
+    };
+  }
+
+  onStatus(listener: (status: RealtimeStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /** Called after a dropped connection comes back, so missed state can be refetched. */
+  onReconnect(listener: () => void): () => void {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  private open() {
+    const token = this.getToken();
+    const url = token ? `${this.url}?token=${encodeURIComponent(token)}` : this.url;
+    this.setStatus(this.hasConnected ? "reconnecting" : "connecting");
+
+    // A still-pending attempt is abandoned, its close is ignored below
+    const previous = this.socket;
+    this.socket = null;
+    previous?.close();
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      const reconnected = this.hasConnected;
+      this.attempts = 0;
+      this.hasConnected = true;
+      this.setStatus("open");
+      this.startHeartbeat();
+      if (reconnected) this.reconnectListeners.forEach((listener) => listener());
+    };
+
+    socket.onmessage = (event) => {
+      clearTimeout(this.pongTimer); // any traffic proves the connection is alive
+      try {
+        const { topic, payload } = JSON.parse(event.data);
+        this.handlers.get(topic)?.forEach((handler) => handler(payload));
+      } catch {
+        console.error("Invalid WS message:", event.data);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.stopHeartbeat();
+      this.socket = null;
+      if (event.code === INVALID_TOKEN) {
+        this.disconnect();
+        this.onUnauthorized();
+        return;
+      }
+      if (!this.stopped) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(1000 * 2 ** this.attempts, MAX_BACKOFF) * (0.5 + Math.random() / 2);
+    this.attempts++;
+    this.setStatus("reconnecting");
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private reconnectNow = () => {
+    if (this.stopped || this.status === "open") return;
+    clearTimeout(this.reconnectTimer);
+    this.attempts = 0;
+    this.open();
+  };
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (this.socket?.readyState !== WebSocket.OPEN) return;
+      this.socket.send(JSON.stringify({ topic: "ping" }));
+      this.pongTimer = setTimeout(() => this.dropConnection(), HEARTBEAT_TIMEOUT);
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  // A dead connection can take minutes to emit 'close', so stop waiting for it
+  private dropConnection() {
+    const socket = this.socket;
+    this.socket = null;
+    this.stopHeartbeat();
+    socket?.close();
+    if (!this.stopped) this.scheduleReconnect();
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.heartbeatTimer);
+    clearTimeout(this.pongTimer);
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
@@ -1,6 +1,14 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { format, subDays } from "date-fns";
+import type { DateRange } from "@/hooks/useApi";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Range ending today, `days` calendar days long
+export const lastDays = (days: number): DateRange => ({
+  from: format(subDays(new Date(), days - 1), "yyyy-MM-dd"),
+  to: format(new Date(), "yyyy-MM-dd"),
+});
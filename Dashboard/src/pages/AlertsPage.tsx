@@ -1,130 +1,150 @@
-import { useState, useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { AlertCard } from "../components/AlertCard";
+import { AlertDetailsSheet } from "@/components/AlertDetailsSheet";
+import { AlertFilterBar } from "@/components/AlertFilterBar";
+import { parseAlertSearch, toAlertSearch } from "@/lib/alertFilters";
 import { useToast } from "@/components/ui/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
-
-interface Alert {
-  _id: string;
-  type: 'critical' | 'high' | 'medium' | 'low' | string;
-  message: string;
-  location: string | { lat: number; lng: number };
-  touristId: string;
-  touristName: string;
-  status: 'open' | 'acknowledged' | 'accepted' | 'resolved';
-  acceptedBy?: { _id: string; name: string; email: string };
-  createdAt: string;
-}
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+import { AlertAction } from "@/lib/api";
+import { AlertActionInput, AlertFilters, queryKeys, useAlertAction, useAlerts } from "@/hooks/useApi";
+import { useRealtime } from "@/hooks/useRealtime";
+import { useAuth } from "@/hooks/useAuth";
 
 export default function AlertsDashboard() {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  // The view lives in the query string so officers can share it as a link
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseAlertSearch(searchParams), [searchParams]);
+  const setFilters = (next: AlertFilters) => setSearchParams(toAlertSearch(next), { replace: true });
+
+  const { data, isLoading: loading, isFetching, error } = useAlerts(filters);
+  const alerts = data?.alerts ?? [];
+  const total = data?.total ?? 0;
+  const page = data?.page ?? 1;
+  const pages = data?.pages ?? 1;
+  const alertAction = useAlertAction();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [detailsId, setDetailsId] = useState<string | null>(null);
 
-  const BASE_URL = "http://localhost:4000";
-  const token = localStorage.getItem("token");
-  const currentUserId = localStorage.getItem("userId") || "123"; // fallback
+  const currentUserId: string | undefined = user?.id;
+  const isAdmin = !!user?.roles?.includes("admin");
 
   useEffect(() => {
-    fetchAlerts();
-    setupWebSocket();
-  }, []);
-
-  const fetchAlerts = async () => {
-    try {
-      const res = await fetch(`${BASE_URL}/api/alert`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const data = await res.json();
-      if (data.success) setAlerts(data.alerts);
-    } catch {
-      toast({ title: "Error", description: "Failed to fetch alerts", variant: "destructive" });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const setupWebSocket = () => {
-    const ws = new WebSocket(`ws://localhost:5001`);
-    ws.onmessage = (event) => {
-      const message = JSON.parse(event.data);
-
-      if (message.topic === "alert_updated") {
-        setAlerts(prev =>
-          prev.map(alert =>
-            alert._id === message.payload.alertId ? { ...alert, ...message.payload } : alert
-          )
-        );
-      }
+    if (error) toast({ title: "Error", description: "Failed to fetch alerts", variant: "destructive" });
+  }, [error, toast]);
 
-      if (message.topic === "emergency_contact" || message.topic === "authorities") {
-        fetchAlerts();
-      }
-    };
-  };
-
-  const handleAcceptAlert = async (alertId: string) => {
-    try {
-      const res = await fetch(`${BASE_URL}/api/alert/${alertId}/accept`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-      });
-      const data = await res.json();
-      if (!data.success) throw new Error(data.message);
+  // A status or severity change can move an alert in or out of the current view, so refetch
+  // rather than patch; new alerts arrive on the notification topics
+  const refetchAlerts = () => queryClient.invalidateQueries({ queryKey: queryKeys.alertLists });
+  useRealtime("alert_updated", refetchAlerts);
+  useRealtime("emergency_contact", refetchAlerts);
+  useRealtime("authorities", refetchAlerts);
 
-      setAlerts(prev =>
-        prev.map(alert =>
-          alert._id === alertId ? { ...alert, status: "accepted", acceptedBy: data.alert.acceptedBy } : alert
-        )
-      );
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: (error as Error).message || "Failed to accept alert",
-        variant: "destructive",
-      });
-    }
+  // Failures propagate to AlertCard, which shows the toast
+  const handleAction = (alertId: string) => async (action: AlertAction, body?: AlertActionInput["body"]) => {
+    await alertAction.mutateAsync({ alertId, action, body });
   };
 
-  if (loading) {
-    return (
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {[...Array(6)].map((_, i) => <Skeleton key={i} className="h-64 w-full" />)}
-      </div>
-    );
-  }
+  const goToPage = (target: number) => setFilters({ ...filters, page: target });
+  const isDefaultView = searchParams.toString() === "";
 
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Alerts Dashboard</h2>
-        <div className="text-sm text-muted-foreground">{alerts.length} active alerts</div>
+        <div className="text-sm text-muted-foreground">
+          {loading ? "Loading..." : `${total} ${isDefaultView ? "active" : "matching"} alert${total === 1 ? "" : "s"}`}
+        </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {alerts.map(alert => (
-          <AlertCard
-            key={alert._id}
-            id={alert._id}
-            type={alert.type}
-            title={alert.message}
-            description={`Alert from ${alert.touristName}`}
-            location={alert.location}
-            touristName={alert.touristName}
-            timestamp={new Date(alert.createdAt).toLocaleString()}
-            status={alert.status}
-            acceptedBy={alert.acceptedBy}
-            isNew={alert.status === "open"}
-            onAccept={handleAcceptAlert}
-            currentUserId={currentUserId}
-          />
-        ))}
+      <AlertFilterBar filters={filters} onChange={setFilters} />
 
-        {alerts.length === 0 && (
-          <div className="col-span-full text-center py-12 text-muted-foreground">
-            No active alerts
-          </div>
-        )}
-      </div>
+      {loading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => <Skeleton key={i} className="h-64 w-full" />)}
+        </div>
+      ) : (
+        <div className={cn("grid gap-4 md:grid-cols-2 lg:grid-cols-3", isFetching && "opacity-60 transition-opacity")}>
+          {alerts.map(alert => (
+            <AlertCard
+              key={alert._id}
+              id={alert._id}
+              type={alert.type}
+              severity={alert.severity}
+              title={alert.message}
+              description={`Alert from ${alert.touristName || alert.touristId}`}
+              location={alert.location}
+              touristName={alert.touristName || alert.touristId}
+              timestamp={new Date(alert.createdAt).toLocaleString()}
+              status={alert.status}
+              acceptedBy={alert.acceptedBy}
+              resolution={alert.resolution}
+              isNew={alert.status === "open"}
+              onAction={handleAction(alert._id)}
+              onDetails={() => setDetailsId(alert._id)}
+              currentUserId={currentUserId}
+              isAdmin={isAdmin}
+            />
+          ))}
+
+          {alerts.length === 0 && (
+            <div className="col-span-full text-center py-12 text-muted-foreground">
+              {isDefaultView ? "No active alerts" : "No alerts match these filters"}
+            </div>
+          )}
+        </div>
+      )}
+
+      {pages > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={page <= 1}
+                className={cn(page <= 1 && "pointer-events-none opacity-50")}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToPage(page - 1);
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem className="px-3 text-sm text-muted-foreground">
+              Page {page} of {pages}
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={page >= pages}
+                className={cn(page >= pages && "pointer-events-none opacity-50")}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToPage(page + 1);
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <AlertDetailsSheet
+        alertId={detailsId}
+        currentUserId={currentUserId}
+        isAdmin={isAdmin}
+        onClose={() => setDetailsId(null)}
+        onAction={handleAction}
+      />
     </div>
   );
 }
@@ -1,35 +1,235 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Chart } from "@/components/ui/chart";
-import { Activity, Users } from "lucide-react";
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, Area, AreaChart, XAxis, YAxis } from "recharts";
+import { Activity, Clock, Download, FileText, ShieldCheck, TriangleAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { DateRange, useAnalytics } from "@/hooks/useApi";
+import { downloadCsv } from "@/lib/csv";
+import { lastDays } from "@/lib/utils";
+
+const alertsConfig = {
+  sos: { label: "SOS", color: "hsl(var(--alert-critical))" },
+  anomaly: { label: "Anomaly", color: "hsl(var(--alert-high))" },
+  geofence: { label: "Geofence", color: "hsl(var(--alert-medium))" },
+  eFIR: { label: "e-FIR", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const responseConfig = {
+  acceptMinutes: { label: "Time to accept (min)", color: "hsl(var(--primary))" },
+  resolveMinutes: { label: "Time to resolve (min)", color: "hsl(var(--success))" },
+} satisfies ChartConfig;
+
+const touristsConfig = {
+  tourists: { label: "Active tourists", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const kycConfig = {
+  count: { label: "Requests", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const efirConfig = {
+  count: { label: "e-FIRs", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+const dayTick = (date: string) => format(parseISO(date), "d MMM");
+const statusLabel = (status: string) => status.replace("_", " ");
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes == null) return "—";
+  if (minutes < 60) return `${minutes.toFixed(1)} min`;
+  return `${(minutes / 60).toFixed(1)} h`;
+};
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  icon: typeof Activity;
+  loading: boolean;
+  error?: Error | null;
+  onDownload?: () => void;
+  children: React.ReactNode;
+}
+
+function ChartCard({ title, description, icon: Icon, loading, error, onDownload, children }: ChartCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2">
+            <Icon className="h-5 w-5" />
+            {title}
+          </CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={onDownload} disabled={!onDownload}>
+          <Download className="mr-1 h-4 w-4" />
+          CSV
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : loading ? (
+          <Skeleton className="aspect-video w-full" />
+        ) : (
+          children
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function AnalyticsPage() {
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const alerts = useAnalytics("alerts-per-day", range);
+  const response = useAnalytics("response-times", range);
+  const tourists = useAnalytics("active-tourists", range);
+  const kyc = useAnalytics("kyc-outcomes", range);
+  const efirs = useAnalytics("efirs-by-status", range);
+
+  const suffix = `${range.from}_${range.to}.csv`;
+
   return (
     <div className="p-6 space-y-6">
-      <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
+        <DateRangePicker value={range} onChange={setRange} />
+      </div>
+
       <div className="grid gap-6 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Activity className="h-5 w-5" />
-              Tourist Activity
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <Chart />
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Users className="h-5 w-5" />
-              Alert Trends
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <Chart />
-          </CardContent>
-        </Card>
+        <ChartCard
+          title="Alerts per Day"
+          description="New alerts by type"
+          icon={TriangleAlert}
+          loading={alerts.isLoading}
+          error={alerts.error}
+          onDownload={
+            alerts.data &&
+            (() => downloadCsv(`alerts_per_day_${suffix}`, alerts.data!, ["date", "sos", "anomaly", "geofence", "eFIR", "total"]))
+          }
+        >
+          <ChartContainer config={alertsConfig}>
+            <BarChart data={alerts.data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={dayTick} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={dayTick} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {(Object.keys(alertsConfig) as (keyof typeof alertsConfig)[]).map((type) => (
+                <Bar key={type} dataKey={type} stackId="alerts" fill={`var(--color-${type})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Response Times"
+          description={
+            response.data
+              ? `Mean time to accept ${formatMinutes(response.data.overall.acceptMinutes)} · to resolve ${formatMinutes(response.data.overall.resolveMinutes)}`
+              : "Mean minutes from alert to accept and to resolve"
+          }
+          icon={Clock}
+          loading={response.isLoading}
+          error={response.error}
+          onDownload={
+            response.data &&
+            (() =>
+              downloadCsv(`response_times_${suffix}`, response.data!.series, [
+                "date",
+                "acceptMinutes",
+                "resolveMinutes",
+                "accepted",
+                "resolved",
+              ]))
+          }
+        >
+          <ChartContainer config={responseConfig}>
+            <LineChart data={response.data?.series}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={dayTick} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={dayTick} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="acceptMinutes" stroke="var(--color-acceptMinutes)" strokeWidth={2} dot={false} connectNulls />
+              <Line dataKey="resolveMinutes" stroke="var(--color-resolveMinutes)" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Active Tourists"
+          description="Tourists who shared a location each day"
+          icon={Activity}
+          loading={tourists.isLoading}
+          error={tourists.error}
+          onDownload={tourists.data && (() => downloadCsv(`active_tourists_${suffix}`, tourists.data!, ["date", "tourists"]))}
+        >
+          <ChartContainer config={touristsConfig}>
+            <AreaChart data={tourists.data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={dayTick} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={dayTick} />} />
+              <Area
+                dataKey="tourists"
+                type="monotone"
+                stroke="var(--color-tourists)"
+                fill="var(--color-tourists)"
+                fillOpacity={0.2}
+              />
+            </AreaChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="KYC Outcomes"
+          description="Verification requests submitted in the range, by result"
+          icon={ShieldCheck}
+          loading={kyc.isLoading}
+          error={kyc.error}
+          onDownload={kyc.data && (() => downloadCsv(`kyc_outcomes_${suffix}`, kyc.data!, ["status", "count"]))}
+        >
+          <ChartContainer config={kycConfig}>
+            <BarChart data={kyc.data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="status" tickFormatter={statusLabel} tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={statusLabel} />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="e-FIRs by Status"
+          description="Reports filed in the range, by current status"
+          icon={FileText}
+          loading={efirs.isLoading}
+          error={efirs.error}
+          onDownload={efirs.data && (() => downloadCsv(`efirs_by_status_${suffix}`, efirs.data!, ["status", "count"]))}
+        >
+          <ChartContainer config={efirConfig}>
+            <BarChart data={efirs.data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="status" tickFormatter={statusLabel} tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={statusLabel} />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
       </div>
     </div>
   );
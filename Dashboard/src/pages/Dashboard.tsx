@@ -1,4 +1,3 @@
-import { useEffect, useState } from "react";
 import { Users, AlertTriangle, Shield, MapPin, Activity, Clock } from "lucide-react";
 import { StatCard } from "@/components/StatCard";
 import { AlertCard } from "@/components/AlertCard";
@@ -6,30 +5,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-
-const BASE_URL = "http://localhost:4000";
+import { useUsers } from "@/hooks/useApi";
+import { useAuth } from "@/hooks/useAuth";
 
 export default function Dashboard() {
-  const [users, setUsers] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    async function fetchUsers() {
-      try {
-        const token = localStorage.getItem("token");
-        const res = await fetch(`${BASE_URL}/api/admin/users`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = await res.json();
-        if (data.success) setUsers(data.data);
-      } catch (err) {
-        console.error("Failed to fetch users", err);
-      } finally {
-        setLoading(false);
-      }
-    }
-    fetchUsers();
-  }, []);
+  const { can } = useAuth();
+  // Tourism and issuer staff only get tourists back; police have no directory access
+  const showUsers = can("tourists");
+  const { data: users = [], isLoading: loading } = useUsers({ enabled: showUsers });
 
   // Compute stats dynamically
   const touristCount = users.filter((u) => u.roles.includes("tourist")).length;
@@ -58,7 +41,7 @@ export default function Dashboard() {
       icon: <Shield className="h-4 w-4" />,
       variant: "success" as const,
     },
-  ];
+  ].filter((stat) => stat.title === "Active Tourists" || can("users"));
 
 
   const systemHealth = [
@@ -88,44 +71,48 @@ export default function Dashboard() {
         </div>
       </div>
 
-      {/* Stats Grid */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        {stats.map((stat, index) => (
-          <StatCard key={index} {...stat} />
-        ))}
-      </div>
+      {showUsers && (
+        <>
+          {/* Stats Grid */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {stats.map((stat, index) => (
+              <StatCard key={index} {...stat} />
+            ))}
+          </div>
 
-      {/* Users List */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Registered Users</CardTitle>
-          <CardDescription>All system users</CardDescription>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <div>Loading...</div>
-          ) : (
-            <ul className="space-y-2">
-              {users
-              .filter((u) => !u.roles.includes("admin"))
-              .map((u) => (
-                <li
-                  key={u._id}
-                  className="border rounded p-2 flex justify-between items-center"
-                >
-                  <div>
-                    <div className="font-medium">{u.name || "Unnamed"}</div>
-                    <div className="text-sm text-muted-foreground">{u.email}</div>
-                  </div>
-                  <div className="text-xs bg-gray-200 px-2 py-1 rounded">
-                    {u.roles.join(", ")}
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </CardContent>
-      </Card>
+          {/* Users List */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Registered Users</CardTitle>
+              <CardDescription>{can("users") ? "All system users" : "Registered tourists"}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div>Loading...</div>
+              ) : (
+                <ul className="space-y-2">
+                  {users
+                  .filter((u) => !u.roles.includes("admin"))
+                  .map((u) => (
+                    <li
+                      key={u._id}
+                      className="border rounded p-2 flex justify-between items-center"
+                    >
+                      <div>
+                        <div className="font-medium">{u.name || "Unnamed"}</div>
+                        <div className="text-sm text-muted-foreground">{u.email}</div>
+                      </div>
+                      <div className="text-xs bg-gray-200 px-2 py-1 rounded">
+                        {u.roles.join(", ")}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
 
 
       {/* System Health */}
@@ -1,214 +1,365 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, Loader2, AlertCircle } from "lucide-react";
+import { Shield, Loader2, AlertCircle, Link2, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { Efir, EfirAction, EfirHistoryEntry, apiDownload } from "@/lib/api";
+import { EfirActionInput, useEfirAction, useEfirs, useOfficers, useTouristDetails } from "@/hooks/useApi";
+import { useRealtime } from "@/hooks/useRealtime";
+import { useAuth } from "@/hooks/useAuth";
+import { EfirActionDialog, EfirDialogAction } from "@/components/EfirActionDialog";
 
-const BASE_URL = "http://localhost:4000";
+const STATUSES: { value: Efir["status"]; label: string }[] = [
+  { value: "submitted", label: "Submitted" },
+  { value: "under_review", label: "Under review" },
+  { value: "resolved", label: "Resolved" },
+];
+
+const HISTORY_LABELS: Record<EfirHistoryEntry["action"], string> = {
+  assign: "Assigned",
+  resolve: "Resolved",
+  reopen: "Reopened",
+};
+
+const ACTION_DONE: Record<EfirAction, string> = {
+  assign: "Case assigned",
+  resolve: "Case resolved",
+  reopen: "Case reopened",
+};
 
 export default function EFIRPage() {
-  const [efirs, setEfirs] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [selectedTourist, setSelectedTourist] = useState<any | null>(null);
-  const [openDialog, setOpenDialog] = useState(false);
-  const token = localStorage.getItem("token");
-
-  // Fetch FIRs
-  useEffect(() => {
-    const fetchEfirs = async () => {
-      try {
-        // const res = await fetch(`${BASE_URL}/api/admin/efirs`);
-        
-        const res = await fetch(`${BASE_URL}/api/police/efirs`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = await res.json();
-        console.log("EFIR Response:", data); // Debug
-
-        if (data.success) {
-          // Remove duplicates based on efirId
-          const uniqueEfirs = Array.from(new Map(data.data.map((f: any) => [f.efirId, f])).values());
-          setEfirs(uniqueEfirs);
-        } else {
-          setError("Failed to load FIRs");
-        }
-      } catch (err) {
-        console.error(err);
-        setError("Error fetching FIRs");
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchEfirs();
-  }, []);
-
-  // Fetch tourist details
-  const fetchTouristDetails = async (touristId: string) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const currentUserId: string | undefined = user?.id;
+  const isAdmin = !!user?.roles?.includes("admin");
+
+  const [view, setView] = useState<"all" | "mine">("all");
+  const [statuses, setStatuses] = useState<Efir["status"][]>(["submitted", "under_review"]);
+  const [assignee, setAssignee] = useState("any");
+  const { data: officers = [] } = useOfficers();
+  const { data: efirList = [], isLoading: loading, error } = useEfirs({
+    status: statuses,
+    assignee: view === "mine" ? "me" : assignee === "any" ? undefined : assignee,
+  });
+  // Remove duplicates based on efirId
+  const efirs = Array.from(new Map(efirList.map((f) => [f.efirId, f])).values());
+
+  const efirAction = useEfirAction();
+  const [dialog, setDialog] = useState<{ efirId: string; action: EfirDialogAction } | null>(null);
+
+  const [selectedTouristId, setSelectedTouristId] = useState<string | null>(null);
+  const {
+    data: selectedTourist,
+    error: touristError,
+  } = useTouristDetails(selectedTouristId);
+
+  // Other officers' changes move cases between views
+  useRealtime("efir_updated", () => queryClient.invalidateQueries({ queryKey: ["efirs"] }));
+
+  const toggleStatus = (status: Efir["status"]) =>
+    setStatuses((prev) => (prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]));
+
+  const runAction = async (efirId: string, action: EfirAction, body?: EfirActionInput["body"]) => {
     try {
-      const res = await fetch(`${BASE_URL}/api/tourist/details/${touristId}`);
-      const data = await res.json();
-      if (data.success) {
-        setSelectedTourist(data.data);
-        setOpenDialog(true);
-      } else {
-        setSelectedTourist({ error: "Tourist not found" });
-        setOpenDialog(true);
-      }
+      await efirAction.mutateAsync({ efirId, action, body });
+      toast({ title: "e-FIR Updated", description: ACTION_DONE[action] });
+      setDialog(null);
     } catch (err) {
-      setSelectedTourist({ error: "Error fetching tourist details" });
-      setOpenDialog(true);
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center p-10">
-        <Loader2 className="h-6 w-6 animate-spin" />
-        <span className="ml-2">Loading FIRs...</span>
-      </div>
-    );
-  }
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  // Case files are built on the server: the PDF alone, or a ZIP with evidence and a hash manifest
+  const exportCase = async (efirId: string, format: "pdf" | "zip") => {
+    setExporting(efirId);
+    try {
+      await apiDownload(
+        `/api/police/efirs/${encodeURIComponent(efirId)}/export?format=${format}`,
+        `${efirId}_case_file.${format}`
+      );
+    } catch (err) {
+      toast({ title: "Export failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
 
   if (error) {
     return (
       <div className="flex items-center justify-center text-red-500 p-6">
         <AlertCircle className="h-5 w-5 mr-2" />
-        {error}
+        Error fetching FIRs: {error.message}
       </div>
     );
   }
 
   return (
     <div className="p-6 space-y-6">
-      <h2 className="text-3xl font-bold tracking-tight">Active E-FIRs</h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">E-FIR Cases</h2>
+        <span className="text-sm text-muted-foreground">{efirs.length} cases</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Tabs value={view} onValueChange={(v) => setView(v as "all" | "mine")}>
+          <TabsList>
+            <TabsTrigger value="all">All cases</TabsTrigger>
+            <TabsTrigger value="mine">My cases</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUSES.map((s) => (
+            <Button
+              key={s.value}
+              size="sm"
+              variant={statuses.includes(s.value) ? "default" : "outline"}
+              className="rounded-full"
+              onClick={() => toggleStatus(s.value)}
+            >
+              {s.label}
+            </Button>
+          ))}
+        </div>
 
-      {efirs.length === 0 ? (
+        {view === "all" && (
+          <Select value={assignee} onValueChange={setAssignee}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any officer</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {officers.map((o) => (
+                <SelectItem key={o._id} value={o._id}>
+                  {o.name || o.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-10">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading FIRs...</span>
+        </div>
+      ) : efirs.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-muted-foreground">
-            No FIRs filed yet.
+            {view === "mine" ? "No cases assigned to you." : "No FIRs match these filters."}
           </CardContent>
         </Card>
       ) : (
-        efirs.map((f) => (
-          <Card key={f.efirId || f._id}>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Shield className="h-5 w-5" />
-                FIR ID: {f.efirId}
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div>
-                <strong>Tourist ID:</strong>{" "}
-                <Button
-                  variant="link"
-                  className="p-0 text-blue-600"
-                  onClick={() => fetchTouristDetails(f.touristId)}
-                >
-                  {f.touristId}
-                </Button>
-              </div>
-              <div>
-                <strong>Incident:</strong> {f.incidentDetails}
-              </div>
-              <div>
-                <strong>Location:</strong>{" "}
-                {typeof f.location === "string"
-                  ? f.location
-                  : f.location?.address || `${f.location?.latitude}, ${f.location?.longitude}`}
-              </div>
-              <div>
-                <strong>Date/Time:</strong>{" "}
-                {new Date(f.dateTime).toLocaleString()}
-              </div>
-              <div>
-                <strong>Status:</strong>{" "}
-                <span
-                  className={`px-2 py-1 rounded text-sm ${
-                    f.status === "resolved"
-                      ? "bg-green-100 text-green-700"
-                      : f.status === "under_review"
-                      ? "bg-yellow-100 text-yellow-700"
-                      : "bg-red-100 text-red-700"
-                  }`}
-                >
-                  {f.status}
-                </span>
-              </div>
-              {f.attachments && f.attachments.length > 0 && (
+        efirs.map((f) => {
+          const isMine = !!currentUserId && f.assignedTo === currentUserId;
+          const busy = efirAction.isPending && efirAction.variables?.efirId === f.efirId;
+          return (
+            <Card key={f.efirId || f._id}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="h-5 w-5" />
+                  FIR ID: {f.efirId}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
                 <div>
-                  <strong>Attachments:</strong>
-                  <div className="flex gap-3 mt-2 flex-wrap">
-                    {f.attachments.map((url: string, idx: number) => (
-                      <img
-                        key={idx}
-                        src={url}
-                        alt="attachment"
-                        className="h-24 w-24 object-cover rounded border"
-                      />
-                    ))}
-                  </div>
+                  <strong>Tourist ID:</strong>{" "}
+                  <Button
+                    variant="link"
+                    className="p-0 text-blue-600"
+                    onClick={() => setSelectedTouristId(f.touristId)}
+                  >
+                    {f.touristId}
+                  </Button>
                 </div>
-              )}
-            </CardContent>
-          </Card>
-        ))
-      )}
-
-      {/* Tourist Details Dialog */}
-      <Dialog open={openDialog} onOpenChange={setOpenDialog}>
-        <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle>Tourist Details</DialogTitle>
-          </DialogHeader>
-          {selectedTourist ? (
-            selectedTourist.error ? (
-              <div className="text-red-500">{selectedTourist.error}</div>
-            ) : (
-              <div className="space-y-3">
                 <div>
-                  <strong>ID:</strong> {selectedTourist.digitalId?.digitalId}
+                  <strong>Incident:</strong> {f.incidentDetails}
                 </div>
                 <div>
-                  <strong>Status:</strong> {selectedTourist.digitalId?.status}
+                  <strong>Location:</strong>{" "}
+                  {typeof f.location === "string"
+                    ? f.location
+                    : f.location?.address || `${f.location?.latitude}, ${f.location?.longitude}`}
                 </div>
                 <div>
-                  <strong>Security Score:</strong>{" "}
-                  {selectedTourist.digitalId?.securityScore}
+                  <strong>Date/Time:</strong>{" "}
+                  {new Date(f.dateTime).toLocaleString()}
                 </div>
                 <div>
-                  <strong>Itinerary:</strong>{" "}
-                  {selectedTourist.digitalId?.itinerarySummary?.destinations?.length > 0
-                    ? selectedTourist.digitalId.itinerarySummary.destinations
-                        .map(
-                          (d: any) =>
-                            `${d.location} (${new Date(
-                              d.startDate
-                            ).toLocaleDateString()} - ${new Date(
-                              d.endDate
-                            ).toLocaleDateString()})`
-                        )
-                        .join(", ")
-                    : "N/A"}
+                  <strong>Status:</strong>{" "}
+                  <span
+                    className={`px-2 py-1 rounded text-sm ${
+                      f.status === "resolved"
+                        ? "bg-green-100 text-green-700"
+                        : f.status === "under_review"
+                        ? "bg-yellow-100 text-yellow-700"
+                        : "bg-red-100 text-red-700"
+                    }`}
+                  >
+                    {f.status.replace("_", " ")}
+                  </span>
                 </div>
                 <div>
-                  <strong>Emergency Contacts:</strong>{" "}
-                  {selectedTourist.digitalId?.emergencyContactsEncrypted
-                    ? "Encrypted (secured)"
-                    : "N/A"}
+                  <strong>Assigned to:</strong>{" "}
+                  {f.assignee ? (isMine ? "You" : f.assignee.name || f.assignee.email) : "Unassigned"}
                 </div>
-                <div>
-                  <strong>Expiry:</strong>{" "}
-                  {selectedTourist.digitalId?.expiryAt
-                    ? new Date(selectedTourist.digitalId.expiryAt).toLocaleDateString()
-                    : "N/A"}
+                {f.resolution && (
+                  <div>
+                    <strong>Resolution:</strong> {f.resolution}
+                  </div>
+                )}
+                {f.attachments && f.attachments.length > 0 && (
+                  <div>
+                    <strong>Attachments:</strong>
+                    <div className="flex gap-3 mt-2 flex-wrap">
+                      {f.attachments.map((url: string, idx: number) => (
+                        <img
+                          key={idx}
+                          src={url}
+                          alt="attachment"
+                          className="h-24 w-24 object-cover rounded border"
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {!!f.statusHistory?.length && (
+                  <div>
+                    <strong>History:</strong>
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {f.statusHistory.map((entry, i) => (
+                        <li key={i} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                          <span className="font-medium text-foreground">{HISTORY_LABELS[entry.action] ?? entry.action}</span>
+                          <span>by {entry.byName ?? "System"} · {new Date(entry.at).toLocaleString()}</span>
+                          {entry.note && entry.action !== "resolve" && <span>· {entry.note}</span>}
+                          {entry.txId ? (
+                            <Badge variant="outline" className="gap-1 text-[10px]" title={entry.txId}>
+                              <Link2 className="h-3 w-3" />
+                              on ledger
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-[10px] text-muted-foreground">not on ledger</Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2 pt-2">
+                  {f.status !== "resolved" && !isMine && (
+                    <Button size="sm" onClick={() => runAction(f.efirId, "assign")} disabled={busy}>
+                      Take case
+                    </Button>
+                  )}
+                  {f.status !== "resolved" && (
+                    <Button size="sm" variant="outline" onClick={() => setDialog({ efirId: f.efirId, action: "assign" })} disabled={busy}>
+                      Assign…
+                    </Button>
+                  )}
+                  {f.status === "under_review" && (isMine || isAdmin) && (
+                    <Button size="sm" variant="outline" onClick={() => setDialog({ efirId: f.efirId, action: "resolve" })} disabled={busy}>
+                      Resolve…
+                    </Button>
+                  )}
+                  {f.status === "resolved" && (
+                    <Button size="sm" variant="outline" onClick={() => runAction(f.efirId, "reopen")} disabled={busy}>
+                      Reopen
+                    </Button>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline" className="ml-auto" disabled={exporting === f.efirId}>
+                        {exporting === f.efirId ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Download className="mr-1 h-4 w-4" />}
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => exportCase(f.efirId, "pdf")}>Case file (PDF)</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => exportCase(f.efirId, "zip")}>Evidence bundle (ZIP)</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <EfirActionDialog
+        action={dialog?.action ?? null}
+        efirId={dialog?.efirId}
+        busy={efirAction.isPending}
+        onClose={() => setDialog(null)}
+        onSubmit={(action, body) => dialog && runAction(dialog.efirId, action, body)}
+      />
+
+      {/* Tourist Details Dialog */}
+      <Dialog open={!!selectedTouristId} onOpenChange={(open) => !open && setSelectedTouristId(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Tourist Details</DialogTitle>
+          </DialogHeader>
+          {touristError ? (
+            <div className="text-red-500">{touristError.message}</div>
+          ) : selectedTourist ? (
+            <div className="space-y-3">
+              <div>
+                <strong>ID:</strong> {selectedTourist.digitalId?.digitalId}
+              </div>
+              <div>
+                <strong>Status:</strong> {selectedTourist.digitalId?.status}
+              </div>
+              <div>
+                <strong>Security Score:</strong>{" "}
+                {selectedTourist.digitalId?.securityScore}
+              </div>
+              <div>
+                <strong>Itinerary:</strong>{" "}
+                {selectedTourist.digitalId.itinerarySummary?.destinations?.length
+                  ? selectedTourist.digitalId.itinerarySummary.destinations
+                      .map(
+                        (d) =>
+                          `${d.location} (${new Date(
+                            d.startDate
+                          ).toLocaleDateString()} - ${new Date(
+                            d.endDate
+                          ).toLocaleDateString()})`
+                      )
+                      .join(", ")
+                  : "N/A"}
+              </div>
+              <div>
+                <strong>Emergency Contacts:</strong>{" "}
+                {selectedTourist.digitalId?.emergencyContactsEncrypted
+                  ? "Encrypted (secured)"
+                  : "N/A"}
+              </div>
+              <div>
+                <strong>Expiry:</strong>{" "}
+                {selectedTourist.digitalId?.expiryAt
+                  ? new Date(selectedTourist.digitalId.expiryAt).toLocaleDateString()
+                  : "N/A"}
               </div>
-            )
+            </div>
           ) : (
             <div>Loading...</div>
           )}
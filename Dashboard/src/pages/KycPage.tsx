@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, Check, ExternalLink, FileText, Loader2, ShieldCheck, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { KycDecision, KycRequest } from "@/lib/api";
+import { useKycPending, useKycReview } from "@/hooks/useApi";
+import { useRealtime } from "@/hooks/useRealtime";
+import { KycReviewDialog } from "@/components/KycReviewDialog";
+import { cn } from "@/lib/utils";
+
+type QueueView = "manual_review" | "otp_pending" | "all";
+
+const QUEUE_LABELS: Record<NonNullable<KycRequest["queue"]>, string> = {
+  manual_review: "Manual review",
+  otp_pending: "Awaiting OTP",
+};
+
+const PAYLOAD_FIELDS: { key: keyof KycRequest["payload"]; label: string }[] = [
+  { key: "idType", label: "ID type" },
+  { key: "idNumber", label: "ID number" },
+  { key: "name", label: "Name" },
+  { key: "dob", label: "Date of birth" },
+];
+
+type KycDocument = KycRequest["documents"][number];
+
+// Images and PDFs render inline; anything else is opened in a new tab
+function DocumentViewer({ document }: { document: KycDocument }) {
+  if (document.mimetype.startsWith("image/")) {
+    return (
+      <img
+        src={document.url}
+        alt={document.filename}
+        className="mx-auto max-h-[480px] w-auto rounded-md border object-contain"
+      />
+    );
+  }
+  if (document.mimetype === "application/pdf") {
+    return <iframe src={document.url} title={document.filename} className="h-[480px] w-full rounded-md border" />;
+  }
+  return (
+    <div className="flex h-40 flex-col items-center justify-center gap-2 rounded-md border text-sm text-muted-foreground">
+      No preview for {document.mimetype || "this file"}
+      <Button size="sm" variant="outline" asChild>
+        <a href={document.url} target="_blank" rel="noreferrer">
+          <ExternalLink className="mr-1 h-4 w-4" />
+          Open
+        </a>
+      </Button>
+    </div>
+  );
+}
+
+function KycDetails({ request, onDecide }: { request: KycRequest; onDecide: (decision: KycDecision) => void }) {
+  const [docIndex, setDocIndex] = useState(0);
+  const document = request.documents[docIndex] ?? request.documents[0];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle>{request.user?.name || request.payload.name || request.touristId}</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {request.requestId} · submitted {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="destructive" onClick={() => onDecide("rejected")}>
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+          <Button size="sm" onClick={() => onDecide("approved")}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {request.autoResult?.reason && (
+          <div className="flex items-center gap-2 rounded-md bg-muted p-3 text-sm">
+            <AlertCircle className="h-4 w-4 shrink-0 text-warning" />
+            {request.autoResult.reason}
+          </div>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Submitted details</h4>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+              {PAYLOAD_FIELDS.map(({ key, label }) => (
+                <div key={key} className="contents">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="break-all">{String(request.payload[key] ?? "—")}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Tourist</h4>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Tourist ID</dt>
+              <dd className="break-all">{request.touristId}</dd>
+              <dt className="text-muted-foreground">Email</dt>
+              <dd className="break-all">{request.user?.email ?? "—"}</dd>
+              <dt className="text-muted-foreground">Phone</dt>
+              <dd>{request.user?.phone ?? "—"}</dd>
+              <dt className="text-muted-foreground">KYC status</dt>
+              <dd>{request.user?.kycStatus?.replace("_", " ") ?? "—"}</dd>
+            </dl>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Documents ({request.documents.length})</h4>
+          {request.documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No documents were uploaded with this request.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {request.documents.map((doc, i) => (
+                  <Button
+                    key={doc.url}
+                    size="sm"
+                    variant={doc === document ? "default" : "outline"}
+                    onClick={() => setDocIndex(i)}
+                  >
+                    <FileText className="mr-1 h-4 w-4" />
+                    {doc.filename}
+                  </Button>
+                ))}
+              </div>
+              <DocumentViewer document={document} />
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function KycPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: queue = [], isLoading, error } = useKycPending();
+  const review = useKycReview();
+
+  const [view, setView] = useState<QueueView>("manual_review");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [decision, setDecision] = useState<KycDecision | null>(null);
+
+  // New submissions, OTP verifications and other reviewers' decisions change the queue
+  useRealtime("kyc_updated", () => queryClient.invalidateQueries({ queryKey: ["kyc"] }));
+
+  const requests = view === "all" ? queue : queue.filter((r) => r.queue === view);
+  const selected = requests.find((r) => r.requestId === selectedId) ?? requests[0];
+  const counts = {
+    manual_review: queue.filter((r) => r.queue === "manual_review").length,
+    otp_pending: queue.filter((r) => r.queue === "otp_pending").length,
+  };
+
+  const submitReview = async (status: KycDecision, comment: string) => {
+    if (!selected) return;
+    try {
+      await review.mutateAsync({ requestId: selected.requestId, status, comment });
+      toast({
+        title: status === "approved" ? "KYC Approved" : "KYC Rejected",
+        description: `${selected.user?.name || selected.touristId} has been notified.`,
+      });
+      setDecision(null);
+      setSelectedId(null);
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center text-red-500 p-6">
+        <AlertCircle className="h-5 w-5 mr-2" />
+        Error fetching KYC requests: {error.message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">KYC Review</h2>
+        <span className="text-sm text-muted-foreground">{queue.length} waiting</span>
+      </div>
+
+      <Tabs value={view} onValueChange={(v) => setView(v as QueueView)}>
+        <TabsList>
+          <TabsTrigger value="manual_review">Manual review ({counts.manual_review})</TabsTrigger>
+          <TabsTrigger value="otp_pending">Awaiting OTP ({counts.otp_pending})</TabsTrigger>
+          <TabsTrigger value="all">All ({queue.length})</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex justify-center p-10">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 p-10 text-muted-foreground">
+          <ShieldCheck className="h-8 w-8" />
+          Nothing waiting for review.
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[320px,1fr]">
+          <div className="space-y-2">
+            {requests.map((r) => (
+              <button
+                key={r.requestId}
+                type="button"
+                onClick={() => setSelectedId(r.requestId)}
+                className={cn(
+                  "w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted",
+                  r.requestId === selected?.requestId && "border-primary bg-muted"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-medium">{r.user?.name || r.payload.name || r.touristId}</span>
+                  {r.queue && (
+                    <Badge variant={r.queue === "manual_review" ? "default" : "secondary"}>{QUEUE_LABELS[r.queue]}</Badge>
+                  )}
+                </div>
+                <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="uppercase">{r.payload.idType}</span>
+                  <span>{formatDistanceToNow(new Date(r.createdAt), { addSuffix: true })}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && <KycDetails key={selected.requestId} request={selected} onDecide={setDecision} />}
+        </div>
+      )}
+
+      <KycReviewDialog
+        decision={decision}
+        requestId={selected?.requestId}
+        busy={review.isPending}
+        onClose={() => setDecision(null)}
+        onSubmit={submitReview}
+      />
+    </div>
+  );
+}
@@ -3,8 +3,8 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-
-const BASE_URL = "http://localhost:4000";
+import { User, apiFetch } from "@/lib/api";
+import { hasDashboardAccess } from "@/lib/permissions";
 
 export default function LoginPage() {
   const navigate = useNavigate();
@@ -19,14 +19,12 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      const res = await fetch(`${BASE_URL}/api/auth/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data = await res.json();
-      if (!res.ok || !data.token) throw new Error(data.message || "Login failed");
+      const data = await apiFetch<{ token: string; user: Pick<User, "email" | "roles" | "org" | "walletId"> & { id: string } }>(
+        "/api/auth/login",
+        { method: "POST", body: JSON.stringify({ email, password }) }
+      );
+      if (!data.token) throw new Error("Login failed");
+      if (!hasDashboardAccess(data.user.roles)) throw new Error("This account does not have Dashboard access");
 
       // Save token + user to localStorage
       localStorage.setItem("token", data.token);
@@ -44,7 +42,7 @@ export default function LoginPage() {
     <div className="flex items-center justify-center min-h-screen bg-background">
       <Card className="w-[400px]">
         <CardHeader>
-          <CardTitle className="text-center text-xl">Admin Login</CardTitle>
+          <CardTitle className="text-center text-xl">Dashboard Login</CardTitle>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleLogin} className="space-y-4">
@@ -1,54 +1,203 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { MapPin, Search } from "lucide-react";
-import { MapContainer, TileLayer, Marker, Popup } from "react-leaflet";
+import { Circle as CircleIcon, Flame, Hexagon, MapPin, Search, X } from "lucide-react";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle, CircleMarker, Polygon, useMapEvents } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
 import L from "leaflet";
+import { Geofence, TouristPosition, TrailPoint } from "@/lib/api";
+import {
+  HeatmapFilters,
+  queryKeys,
+  useDeleteGeofence,
+  useGeofences,
+  useHeatmap,
+  usePositions,
+  useSaveGeofence,
+  useTrail,
+} from "@/hooks/useApi";
+import { useRealtime } from "@/hooks/useRealtime";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { GeofenceDialog, GeofenceDraft } from "@/components/GeofenceDialog";
+import { HeatmapControls, HourWindow } from "@/components/HeatmapControls";
+import { HeatmapLayer } from "@/components/HeatmapLayer";
 
-const BASE_URL = "http://localhost:4000";
+type PositionUpdate = Pick<TouristPosition, "touristId" | "lat" | "lon" | "ts">;
+type MarkerState = "alert" | "responding" | "normal";
 
-// custom marker icon (fixes default missing icons in Leaflet + Vite/Next)
-const touristIcon = new L.Icon({
-  iconUrl: "https://cdn-icons-png.flaticon.com/512/854/854878.png",
-  iconSize: [30, 30],
-  iconAnchor: [15, 30],
-  popupAnchor: [0, -28],
-});
+const MARKER_COLORS: Record<MarkerState, string> = {
+  alert: "hsl(var(--destructive))",
+  responding: "hsl(var(--warning))",
+  normal: "hsl(var(--success))",
+};
+
+const markerState = (t: TouristPosition): MarkerState => {
+  if (!t.alert) return "normal";
+  return t.alert.status === "open" ? "alert" : "responding";
+};
+
+// Plain div markers: coloured by alert state and no image assets to resolve
+const markerIcons = Object.fromEntries(
+  (Object.keys(MARKER_COLORS) as MarkerState[]).map((state) => [
+    state,
+    L.divIcon({
+      className: "",
+      html: `<span style="display:block;width:18px;height:18px;border-radius:9999px;border:3px solid white;box-shadow:0 0 4px rgba(0,0,0,.5);background:${MARKER_COLORS[state]}"></span>`,
+      iconSize: [18, 18],
+      iconAnchor: [9, 9],
+      popupAnchor: [0, -10],
+    }),
+  ])
+) as Record<MarkerState, L.DivIcon>;
+
+const LEGEND: { state: MarkerState; label: string }[] = [
+  { state: "normal", label: "No active alert" },
+  { state: "responding", label: "Alert being handled" },
+  { state: "alert", label: "Open alert" },
+];
+
+type LatLon = [number, number];
+
+interface Drawing {
+  mode: "circle" | "polygon";
+  points: LatLon[];
+  base?: GeofenceDraft; // zone being redrawn, keeps its name and settings
+}
+
+const DRAW_HINTS: Record<Drawing["mode"], string> = {
+  circle: "Click the centre, then click the edge of the zone",
+  polygon: "Click to add vertices, then press Finish",
+};
+
+const toDateInput = (d: Date) => d.toLocaleDateString("en-CA"); // YYYY-MM-DD
+
+const hourRange = ({ start, end, outside }: HourWindow): Pick<HeatmapFilters, "hourFrom" | "hourTo"> =>
+  outside ? { hourFrom: end % 24, hourTo: start } : { hourFrom: start, hourTo: end % 24 };
+
+const zoneColor = (zone: Geofence) => (zone.restricted ? "hsl(0 75% 58%)" : "hsl(214 84% 48%)");
+
+// Collects map clicks while a zone is being drawn
+function DrawHandler({ onPoint }: { onPoint: (point: LatLon, distanceFromFirst: (p: LatLon) => number) => void }) {
+  const map = useMapEvents({
+    click(e) {
+      onPoint([e.latlng.lat, e.latlng.lng], (p) => map.distance(p, e.latlng));
+    },
+  });
+  return null;
+}
 
 export default function MapPage() {
-  const [tourists, setTourists] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  // Positions arrive over the realtime feed; the slow poll only backs it up
+  const { data: tourists = [], isLoading: loading } = usePositions({ refetchInterval: 60000 });
   const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: trail = [] } = useTrail(selectedId);
+  const { data: geofenceSet } = useGeofences();
+  const geofences = geofenceSet?.geofences ?? [];
+  const saveGeofence = useSaveGeofence();
+  const canEditZones = useAuth().can("geofences");
+  const deleteGeofence = useDeleteGeofence();
+  const { toast } = useToast();
+  const [drawing, setDrawing] = useState<Drawing | null>(null);
+  const [editing, setEditing] = useState<GeofenceDraft | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatFilters, setHeatFilters] = useState<Omit<HeatmapFilters, "hourFrom" | "hourTo">>(() => ({
+    from: toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+    to: toDateInput(new Date()),
+    types: ["sos", "anomaly", "geofence", "eFIR"],
+  }));
+  const [hours, setHours] = useState<HourWindow>({ start: 0, end: 24, outside: false });
+  const { data: heatmap } = useHeatmap({ ...heatFilters, ...hourRange(hours) }, showHeatmap);
+
+  useRealtime<PositionUpdate>("position_updated", (update) => {
+    const known = queryClient
+      .getQueryData<TouristPosition[]>(queryKeys.positions)
+      ?.some((t) => t.touristId === update.touristId);
+    if (!known) {
+      // A tourist we have not seen yet; fetch them with their name and alert state
+      queryClient.invalidateQueries({ queryKey: queryKeys.positions });
+      return;
+    }
+    queryClient.setQueryData<TouristPosition[]>(queryKeys.positions, (prev) =>
+      prev?.map((t) => (t.touristId === update.touristId ? { ...t, ...update } : t))
+    );
+    queryClient.setQueryData<TrailPoint[]>(queryKeys.trail(update.touristId), (prev) =>
+      prev ? [...prev, { lat: update.lat, lon: update.lon, ts: update.ts }] : prev
+    );
+  });
 
-  // Fetch active tourists
-  useEffect(() => {
-    const fetchTourists = async () => {
-      try {
-        const res = await fetch(`${BASE_URL}/api/admin/users`);
-        const data = await res.json();
-        if (data.success) {
-          setTourists(data.data || []);
-        }
-      } catch (err) {
-        console.error("Error fetching tourists:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchTourists();
-
-    // refresh every 10s
-    const interval = setInterval(fetchTourists, 10000);
-    return () => clearInterval(interval);
-  }, []);
+  // Alert changes recolour markers
+  const refetchPositions = () => queryClient.invalidateQueries({ queryKey: queryKeys.positions });
+  useRealtime("alert_updated", refetchPositions);
+  useRealtime("authorities", refetchPositions);
+  // Another admin changed the zones
+  useRealtime("geofences_updated", () => queryClient.invalidateQueries({ queryKey: queryKeys.geofences }));
+
+  const startDrawing = (mode: Drawing["mode"], base?: GeofenceDraft) => {
+    setEditing(null);
+    setDrawing({ mode, points: [], base });
+  };
+
+  const finishDrawing = (shape: Pick<GeofenceDraft, "type" | "center" | "radius" | "vertices">) => {
+    const base = drawing?.base;
+    setDrawing(null);
+    setEditing({
+      name: "",
+      restricted: false,
+      severity: "medium",
+      ...base,
+      center: undefined,
+      radius: undefined,
+      vertices: undefined,
+      ...shape,
+    });
+  };
+
+  const handleMapClick = (point: LatLon, distanceFromFirst: (p: LatLon) => number) => {
+    if (!drawing) return;
+    if (drawing.mode === "circle" && drawing.points.length === 1) {
+      const center = drawing.points[0];
+      finishDrawing({ type: "circle", center, radius: Math.round(distanceFromFirst(center)) });
+      return;
+    }
+    setDrawing({ ...drawing, points: [...drawing.points, point] });
+  };
+
+  const handleSave = async (zone: GeofenceDraft) => {
+    try {
+      await saveGeofence.mutateAsync(zone);
+      toast({ title: "Geofence saved", description: zone.name });
+      setEditing(null);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this geofence? Tourists will stop being checked against it.")) return;
+    try {
+      await deleteGeofence.mutateAsync(id);
+      toast({ title: "Geofence deleted" });
+      setEditing(null);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
 
   // Search filter
-  const filtered = tourists.filter((t) =>
-    t.touristId.toLowerCase().includes(query.toLowerCase())
-  );
+  const filtered = tourists.filter((t) => {
+    const q = query.toLowerCase();
+    return t.touristId.toLowerCase().includes(q) || (t.name ?? "").toLowerCase().includes(q);
+  });
+
+  const trailPositions = useMemo(() => trail.map((p) => [p.lat, p.lon] as [number, number]), [trail]);
+  const selected = tourists.find((t) => t.touristId === selectedId);
 
   return (
     <div className="p-6 space-y-6">
@@ -56,7 +205,7 @@ export default function MapPage() {
         <h2 className="text-3xl font-bold tracking-tight">Live Map View</h2>
         <div className="flex gap-2">
           <Input
-            placeholder="Search Tourist ID..."
+            placeholder="Search Tourist ID or name..."
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             className="w-64"
@@ -70,10 +219,83 @@ export default function MapPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MapPin className="h-5 w-5" />
-            Real-time Tourist Locations
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Real-time Tourist Locations
+              <span className="text-sm font-normal text-muted-foreground">({filtered.length})</span>
+            </span>
+            <span className="flex items-center gap-4 text-xs font-normal text-muted-foreground">
+              {LEGEND.map(({ state, label }) => (
+                <span key={state} className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ background: MARKER_COLORS[state] }} />
+                  {label}
+                </span>
+              ))}
+            </span>
           </CardTitle>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            {drawing ? (
+              <>
+                <span>{DRAW_HINTS[drawing.mode]}</span>
+                {drawing.mode === "polygon" && (
+                  <Button
+                    size="sm"
+                    disabled={drawing.points.length < 3}
+                    onClick={() => finishDrawing({ type: "polygon", vertices: drawing.points })}
+                  >
+                    Finish
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" onClick={() => setDrawing(null)}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                <span>Geofences ({geofences.length}){canEditZones && ":"}</span>
+                {canEditZones && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => startDrawing("circle")}>
+                      <CircleIcon className="mr-2 h-4 w-4" />
+                      Draw Circle
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => startDrawing("polygon")}>
+                      <Hexagon className="mr-2 h-4 w-4" />
+                      Draw Polygon
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant={showHeatmap ? "default" : "outline"}
+                  className="ml-auto"
+                  onClick={() => setShowHeatmap(!showHeatmap)}
+                >
+                  <Flame className="mr-2 h-4 w-4" />
+                  Incident Heatmap
+                </Button>
+              </>
+            )}
+          </div>
+          {showHeatmap && (
+            <HeatmapControls
+              filters={heatFilters}
+              hours={hours}
+              total={heatFilters.types.length ? heatmap?.total : 0}
+              onFiltersChange={setHeatFilters}
+              onHoursChange={setHours}
+            />
+          )}
+          {selected && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              Showing trail for <strong className="text-foreground">{selected.name || selected.touristId}</strong>
+              ({trail.length} points)
+              <Button variant="ghost" size="sm" onClick={() => setSelectedId(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <div className="w-full h-[600px] rounded-xl overflow-hidden">
@@ -91,27 +313,96 @@ export default function MapPage() {
                   url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                   attribution="&copy; OpenStreetMap contributors"
                 />
-                {filtered.map((t) => (
-                  <Marker
-                    key={t.touristId}
-                    position={[t.lat, t.lon]}
-                    icon={touristIcon}
-                  >
+                {geofences.map((zone) => {
+                  // While drawing, zones have no popup so clicks on them reach the map
+                  const popup = !drawing && (
                     <Popup>
-                      <div>
-                        <strong>Tourist ID:</strong> {t.touristId}
-                        <br />
-                        <strong>Last Seen:</strong>{" "}
-                        {new Date(t.ts).toLocaleString()}
+                      <div className="space-y-1">
+                        <strong>{zone.name}</strong>
+                        <div>
+                          {zone.restricted ? "Restricted" : "Monitored"} · severity {zone.severity ?? "medium"}
+                        </div>
+                        {canEditZones && (
+                          <Button size="sm" variant="outline" onClick={() => setEditing(zone)}>
+                            Edit
+                          </Button>
+                        )}
                       </div>
                     </Popup>
-                  </Marker>
-                ))}
+                  );
+                  const pathOptions = { color: zoneColor(zone), weight: 2, fillOpacity: 0.15 };
+                  return zone.type === "circle" && zone.center ? (
+                    <Circle key={zone.id} center={zone.center} radius={zone.radius ?? 0} pathOptions={pathOptions}>
+                      {popup}
+                    </Circle>
+                  ) : zone.vertices ? (
+                    <Polygon key={zone.id} positions={zone.vertices} pathOptions={pathOptions}>
+                      {popup}
+                    </Polygon>
+                  ) : null;
+                })}
+                {showHeatmap && heatFilters.types.length > 0 && heatmap && (
+                  <HeatmapLayer cells={heatmap.cells} max={heatmap.max} />
+                )}
+                {drawing && (
+                  <>
+                    <DrawHandler onPoint={handleMapClick} />
+                    {drawing.points.map((p, i) => (
+                      <CircleMarker key={i} center={p} radius={4} pathOptions={{ color: "hsl(38 88% 55%)" }} />
+                    ))}
+                    {drawing.mode === "polygon" && drawing.points.length > 1 && (
+                      <Polyline positions={drawing.points} pathOptions={{ color: "hsl(38 88% 55%)", dashArray: "4" }} />
+                    )}
+                  </>
+                )}
+                <MarkerClusterGroup chunkedLoading>
+                  {filtered.map((t) => (
+                    <Marker
+                      key={t.touristId}
+                      position={[t.lat, t.lon]}
+                      icon={markerIcons[markerState(t)]}
+                      eventHandlers={{ click: () => setSelectedId(t.touristId) }}
+                    >
+                      <Popup>
+                        <div>
+                          {t.name && (
+                            <>
+                              <strong>{t.name}</strong>
+                              <br />
+                            </>
+                          )}
+                          <strong>Tourist ID:</strong> {t.touristId}
+                          <br />
+                          <strong>Last Seen:</strong>{" "}
+                          {new Date(t.ts).toLocaleString()}
+                          {t.alert && (
+                            <>
+                              <br />
+                              <strong>Alert:</strong> {t.alert.type} ({t.alert.status})
+                            </>
+                          )}
+                        </div>
+                      </Popup>
+                    </Marker>
+                  ))}
+                </MarkerClusterGroup>
+                {selectedId && trailPositions.length > 1 && (
+                  <Polyline positions={trailPositions} pathOptions={{ color: "hsl(214 84% 48%)", weight: 3 }} />
+                )}
               </MapContainer>
             )}
           </div>
         </CardContent>
       </Card>
+
+      <GeofenceDialog
+        zone={editing}
+        saving={saveGeofence.isPending || deleteGeofence.isPending}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        onRedraw={(zone) => startDrawing(zone.type, zone)}
+        onDelete={handleDelete}
+      />
     </div>
   );
 }
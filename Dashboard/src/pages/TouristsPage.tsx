@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import {
   Card,
   CardContent,
@@ -8,95 +8,19 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Users, PlusCircle, X } from "lucide-react";
-
-interface Tourist {
-  _id: string;
-  name: string;
-  email: string;
-  phone: string;
-  walletId: string;
-  org: string;
-  roles: string[];
-  kycStatus: string;
-  digitalIdStatus: string;
-  createdAt: string;
-}
-
-interface TouristDetails {
-  digitalId: Tourist;
-  blockchain: any;
-  recentEvents: any[];
-  recentLocations: any[];
-  recentAlerts: any[];
-}
+import { User } from "@/lib/api";
+import { useTouristDetails, useUsers } from "@/hooks/useApi";
 
 export default function TouristsPage() {
-  const [tourists, setTourists] = useState<Tourist[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data: tourists = [], isLoading: loading, error } = useUsers();
   const [search, setSearch] = useState("");
 
-  const [selectedTourist, setSelectedTourist] = useState<TouristDetails | null>(null);
-  const [detailsLoading, setDetailsLoading] = useState(false);
-  const [detailsError, setDetailsError] = useState<string | null>(null);
-
-  useEffect(() => {
-    async function fetchTourists() {
-      try {
-        setLoading(true);
-        const token = localStorage.getItem("token"); // JWT saved after login
-        const res = await fetch("http://localhost:4000/api/admin/users", {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-        });
-
-        if (!res.ok) {
-          throw new Error(`Failed to fetch: ${res.statusText}`);
-        }
-
-        const data = await res.json();
-        setTourists(data.data || []);
-      } catch (err: any) {
-        console.error("Failed to fetch tourists:", err);
-        setError(err.message);
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchTourists();
-  }, []);
-
-  const handleViewClick = async (walletId: string) => {
-    setDetailsLoading(true);
-    setDetailsError(null);
-    try {
-      const token = localStorage.getItem("token");
-      const res = await fetch(`http://localhost:4000/api/tourist/details/${walletId}`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      const data = await res.json();
-
-      if (!data.success) {
-        setDetailsError(data.message || "Failed to fetch tourist details");
-        setSelectedTourist(null);
-      } else {
-        setSelectedTourist(data.data);
-      }
-    } catch (err: any) {
-      console.error(err);
-      setDetailsError("Something went wrong while fetching details");
-      setSelectedTourist(null);
-    } finally {
-      setDetailsLoading(false);
-    }
-  };
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const {
+    data: selectedTourist,
+    isLoading: detailsLoading,
+    error: detailsError,
+  } = useTouristDetails(selectedUser?.walletId ?? null);
 
   const filtered = tourists.filter(
     (t) =>
@@ -132,7 +56,7 @@ export default function TouristsPage() {
         </CardHeader>
         <CardContent>
           {loading && <div>Loading tourists...</div>}
-          {error && <div className="text-red-600">Error: {error}</div>}
+          {error && <div className="text-red-600">Error: {error.message}</div>}
           {!loading && !error && (
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
@@ -176,7 +100,8 @@ export default function TouristsPage() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleViewClick(t.walletId)}
+                          onClick={() => setSelectedUser(t)}
+                          disabled={!t.walletId}
                         >
                           View
                         </Button>
@@ -198,11 +123,11 @@ export default function TouristsPage() {
       </Card>
 
       {/* Tourist Details Modal (Dark Theme) */}
-      {selectedTourist && (
+      {selectedUser && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-gray-900 text-white rounded-lg w-11/12 max-w-3xl p-6 relative shadow-lg">
             <button
-              onClick={() => setSelectedTourist(null)}
+              onClick={() => setSelectedUser(null)}
               className="absolute top-4 right-4 text-gray-300 hover:text-white"
             >
               <X className="w-5 h-5" />
@@ -211,27 +136,27 @@ export default function TouristsPage() {
             {detailsLoading ? (
               <div>Loading details...</div>
             ) : detailsError ? (
-              <div className="text-red-400">{detailsError}</div>
-            ) : (
+              <div className="text-red-400">{detailsError.message}</div>
+            ) : selectedTourist && (
               <div className="space-y-4 max-h-[70vh] overflow-y-auto">
                 <h3 className="text-xl font-bold">Tourist Details</h3>
                 <p>
-                  <strong>Name:</strong> {selectedTourist.digitalId.name}
+                  <strong>Name:</strong> {selectedUser.name}
                 </p>
                 <p>
-                  <strong>Email:</strong> {selectedTourist.digitalId.email}
+                  <strong>Email:</strong> {selectedUser.email}
                 </p>
                 <p>
-                  <strong>Phone:</strong> {selectedTourist.digitalId.phone || "—"}
+                  <strong>Phone:</strong> {selectedUser.phone || "—"}
                 </p>
                 <p>
                   <strong>Wallet ID:</strong> {selectedTourist.digitalId.walletId}
                 </p>
                 <p>
-                  <strong>KYC Status:</strong> {selectedTourist.digitalId.kycStatus}
+                  <strong>KYC Status:</strong> {selectedUser.kycStatus}
                 </p>
                 <p>
-                  <strong>Digital ID Status:</strong> {selectedTourist.digitalId.digitalIdStatus}
+                  <strong>Digital ID Status:</strong> {selectedTourist.digitalId.status}
                 </p>
 
                 <h4 className="font-semibold mt-4">Blockchain Data:</h4>
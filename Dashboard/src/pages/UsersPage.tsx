@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { AlertCircle, Loader2, Pencil, Search, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { User } from "@/lib/api";
+import { ROLES, Role } from "@/lib/permissions";
+import { useDeleteUser, useUpdateUserRoles, useUsers } from "@/hooks/useApi";
+import { useAuth } from "@/hooks/useAuth";
+
+const ROLE_HINTS: Record<Role, string> = {
+  tourist: "Mobile app only",
+  police: "Alerts, live map, e-FIR and ID verification",
+  tourism: "KYC review and the tourist directory",
+  issuer: "KYC review and the tourist directory",
+  admin: "Everything, including user management",
+};
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const { data: users = [], isLoading, error } = useUsers();
+  const updateRoles = useUpdateUserRoles();
+  const deleteUser = useDeleteUser();
+
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<User | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [deleting, setDeleting] = useState<User | null>(null);
+
+  const filtered = users.filter((u) =>
+    [u.name, u.email, u.walletId, ...u.roles].some((v) => v?.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const startEditing = (user: User) => {
+    setEditing(user);
+    setRoles(user.roles.filter((r): r is Role => (ROLES as string[]).includes(r)));
+  };
+
+  const toggleRole = (role: Role) =>
+    setRoles((prev) => (prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role]));
+
+  const saveRoles = async () => {
+    if (!editing) return;
+    try {
+      await updateRoles.mutateAsync({ id: editing._id, roles });
+      toast({ title: "Roles Updated", description: editing.email });
+      setEditing(null);
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteUser.mutateAsync(deleting._id);
+      toast({ title: "User Deleted", description: deleting.email });
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center text-red-500 p-6">
+        <AlertCircle className="h-5 w-5 mr-2" />
+        Error fetching users: {error.message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Users</h2>
+        <span className="text-sm text-muted-foreground">{users.length} accounts</span>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Accounts and Roles</CardTitle>
+          <div className="relative w-64">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search name, email or role"
+              className="pl-8"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-10">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead>KYC</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((u) => {
+                  const isSelf = u._id === currentUser?.id;
+                  return (
+                    <TableRow key={u._id}>
+                      <TableCell className="font-medium">
+                        {u.name || "Unnamed"}
+                        {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </TableCell>
+                      <TableCell>{u.email}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {u.roles.map((role) => (
+                            <Badge key={role} variant={role === "admin" ? "default" : "secondary"}>
+                              {role}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{u.kycStatus.replace("_", " ")}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => startEditing(u)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" disabled={isSelf} onClick={() => setDeleting(u)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Roles</DialogTitle>
+            <DialogDescription>{editing?.email}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {ROLES.map((role) => {
+              // The backend refuses to let admins drop their own admin role
+              const locked = role === "admin" && editing?._id === currentUser?.id;
+              return (
+                <div key={role} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`role-${role}`}
+                    checked={roles.includes(role)}
+                    disabled={locked}
+                    onCheckedChange={() => toggleRole(role)}
+                  />
+                  <div className="grid gap-0.5">
+                    <Label htmlFor={`role-${role}`} className="capitalize">
+                      {role}
+                    </Label>
+                    <span className="text-xs text-muted-foreground">{ROLE_HINTS[role]}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={updateRoles.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={saveRoles} disabled={roles.length === 0 || updateRoles.isPending}>
+              {updateRoles.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name || deleting?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The account is removed permanently. Their ledger records and past alerts are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import jsQR from "jsqr";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Camera, CameraOff, CheckCircle2, Loader2, ScanLine, ShieldCheck, XCircle } from "lucide-react";
+import {
+  CredentialClaims,
+  OfflineResult,
+  fetchCredentialKeys,
+  verifyCredentialOffline,
+} from "@/lib/credential";
+import { ApiError, apiFetch } from "@/lib/api";
+import { queryKeys, useVerifications } from "@/hooks/useApi";
+
+interface LedgerResult {
+  valid: boolean;
+  status: string;
+  expiryAt: string;
+  issuer?: string;
+  verifiedAt: string;
+}
+
+interface ServerResult {
+  valid: boolean;
+  signatureValid: boolean;
+  reason: string | null;
+  claims?: CredentialClaims;
+  ledger?: LedgerResult;
+  photoUrl?: string | null;
+  itinerary?: { destinations: { location: string; startDate: string; endDate: string }[] } | null;
+}
+
+const formatDate = (value?: string | number) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : "—";
+
+export default function VerifyPage() {
+  const queryClient = useQueryClient();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number>();
+
+  const [scanning, setScanning] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [checkpoint, setCheckpoint] = useState("");
+  const [position, setPosition] = useState<{ lat: number; lng: number } | null>(null);
+
+  const [verifying, setVerifying] = useState(false);
+  const [offline, setOffline] = useState<OfflineResult | null>(null);
+  const [server, setServer] = useState<ServerResult | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const { data: history = [] } = useVerifications();
+
+  useEffect(() => {
+    navigator.geolocation?.getCurrentPosition(
+      (pos) => setPosition({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => setPosition(null)
+    );
+  }, []);
+
+  const stopCamera = useCallback(() => {
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }, []);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const verify = async (credential: string, method: "scan" | "paste") => {
+    setVerifying(true);
+    setServer(null);
+    setServerError(null);
+
+    // The signature is checked locally first so a result shows even offline
+    const keys = await fetchCredentialKeys();
+    setOffline(await verifyCredentialOffline(credential, keys));
+
+    try {
+      const { data } = await apiFetch<{ data: ServerResult }>("/api/tourist/credential/verify", {
+        method: "POST",
+        body: JSON.stringify({
+          token: credential.trim(),
+          method,
+          location: { ...position, checkpoint: checkpoint || undefined },
+        }),
+      });
+      setServer(data);
+    } catch (err) {
+      setServerError(
+        err instanceof ApiError && err.status !== 503
+          ? err.message
+          : "Ledger check unavailable, showing the offline result only"
+      );
+    } finally {
+      setVerifying(false);
+      queryClient.invalidateQueries({ queryKey: queryKeys.verifications });
+    }
+  };
+
+  const scanFrame = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !streamRef.current) return;
+
+    if (video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (ctx) {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+        if (code?.data) {
+          stopCamera();
+          verify(code.data, "scan");
+          return;
+        }
+      }
+    }
+    frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
+  const startCamera = async () => {
+    setCameraError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (err) {
+      setCameraError("Camera unavailable. Allow camera access or paste the token instead.");
+    }
+  };
+
+  const claims = server?.claims || offline?.claims;
+
+  return (
+    <div className="p-6 space-y-6">
+      <h2 className="text-3xl font-bold tracking-tight">Verify Digital ID</h2>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Scanner */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanLine className="h-5 w-5" />
+              Scan QR Code
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative aspect-video overflow-hidden rounded-md bg-muted">
+              <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+              {!scanning && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                  Camera is off
+                </div>
+              )}
+            </div>
+            <canvas ref={canvasRef} className="hidden" />
+            {cameraError && <p className="text-sm text-red-500">{cameraError}</p>}
+            <Button onClick={scanning ? stopCamera : startCamera} variant={scanning ? "outline" : "default"}>
+              {scanning ? <CameraOff className="mr-2 h-4 w-4" /> : <Camera className="mr-2 h-4 w-4" />}
+              {scanning ? "Stop Camera" : "Start Camera"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Manual entry */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Paste Token</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              placeholder="eyJhbGciOiJFUzI1NiIs..."
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              rows={5}
+              className="font-mono text-xs"
+            />
+            <Input
+              placeholder="Checkpoint name (optional)"
+              value={checkpoint}
+              onChange={(e) => setCheckpoint(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {position
+                ? `Officer location: ${position.lat.toFixed(4)}, ${position.lng.toFixed(4)}`
+                : "Officer location unavailable"}
+            </p>
+            <Button onClick={() => verify(pasted, "paste")} disabled={!pasted.trim() || verifying}>
+              {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Result */}
+      {(offline || verifying) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Result
+              </span>
+              {verifying ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : server ? (
+                <Badge className={server.valid ? "bg-green-600" : "bg-red-600"}>{server.valid ? "VALID" : "NOT VALID"}</Badge>
+              ) : (
+                <Badge variant="outline">OFFLINE CHECK ONLY</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {(server?.reason || offline?.reason) && (
+              <p className="text-sm font-medium text-red-500">{server?.reason || offline?.reason}</p>
+            )}
+            {serverError && <p className="text-sm text-amber-600">{serverError}</p>}
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Credential */}
+              <div className="space-y-3">
+                <h3 className="font-semibold">Credential</h3>
+                <div className="flex gap-4">
+                  {server?.photoUrl ? (
+                    <img src={server.photoUrl} alt="Tourist" className="h-28 w-24 rounded-md object-cover" />
+                  ) : (
+                    <div className="flex h-28 w-24 items-center justify-center rounded-md bg-muted text-xs text-muted-foreground">
+                      No photo
+                    </div>
+                  )}
+                  <div className="space-y-1 text-sm">
+                    <div className="text-lg font-semibold">{claims?.name || "Unknown"}</div>
+                    <div className="font-mono text-xs">{claims?.sub}</div>
+                    <CheckRow ok={!!offline?.signatureValid} label="Signature" />
+                    <CheckRow ok={!!offline?.issuerValid} label="Issuer" />
+                    <CheckRow ok={!!offline && !offline.expired} label={`Code valid until ${formatDate(claims && claims.exp * 1000)}`} />
+                  </div>
+                </div>
+                <div className="text-sm space-y-1">
+                  <div><strong>Status:</strong> {claims?.status || "—"}</div>
+                  <div><strong>ID expiry:</strong> {formatDate(claims?.idExp && claims.idExp * 1000)}</div>
+                  <div className="truncate">
+                    <strong>Ledger tx:</strong>{" "}
+                    <span className="font-mono text-xs">{claims?.tx?.id || "—"}</span>
+                    {claims?.tx?.block != null && ` (block #${claims.tx.block})`}
+                  </div>
+                </div>
+                {server?.itinerary?.destinations?.length ? (
+                  <div className="text-sm">
+                    <strong>Itinerary:</strong>
+                    <ul className="mt-1 list-disc pl-5">
+                      {server.itinerary.destinations.map((d, i) => (
+                        <li key={i}>
+                          {d.location} ({new Date(d.startDate).toLocaleDateString()} – {new Date(d.endDate).toLocaleDateString()})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+              </div>
+
+              {/* Ledger */}
+              <div className="space-y-3">
+                <h3 className="font-semibold">Ledger (VerifyTourist)</h3>
+                {server?.ledger ? (
+                  <div className="space-y-1 text-sm">
+                    <CheckRow ok={server.ledger.valid} label={server.ledger.valid ? "Valid on ledger" : "Not valid on ledger"} />
+                    <div><strong>Status:</strong> {server.ledger.status}</div>
+                    <div><strong>Expiry:</strong> {formatDate(server.ledger.expiryAt)}</div>
+                    {server.ledger.issuer && <div><strong>Issuer:</strong> {server.ledger.issuer}</div>}
+                    <div><strong>Checked:</strong> {formatDate(server.ledger.verifiedAt)}</div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {verifying ? "Checking the ledger..." : "No ledger result"}
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Audit trail */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Verifications</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No verifications recorded yet.</p>
+          ) : (
+            <div className="divide-y text-sm">
+              {history.map((v) => (
+                <div key={v._id} className="flex items-center justify-between py-2">
+                  <div>
+                    <div className="font-mono text-xs">{v.touristId || "Unreadable credential"}</div>
+                    <div className="text-muted-foreground">
+                      {v.officer?.name || v.officer?.email || "Unknown officer"} · {v.method}
+                      {v.location?.checkpoint && ` · ${v.location.checkpoint}`}
+                      {v.location?.lat != null && v.location?.lng != null && ` · ${v.location.lat.toFixed(3)}, ${v.location.lng.toFixed(3)}`}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <Badge className={v.valid ? "bg-green-600" : "bg-red-600"}>{v.valid ? "Valid" : v.reason || "Rejected"}</Badge>
+                    <div className="mt-1 text-xs text-muted-foreground">{formatDate(v.createdAt)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const CheckRow = ({ ok, label }: { ok: boolean; label: string }) => (
+  <div className="flex items-center gap-1">
+    {ok ? <CheckCircle2 className="h-4 w-4 text-green-600" /> : <XCircle className="h-4 w-4 text-red-500" />}
+    <span>{label}</span>
+  </div>
+);
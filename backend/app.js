@@ -17,6 +17,7 @@ const policeRoutes = require('./route/police.route.js');
 const adminRoutes=require('./route/admin.route.js')
 const kycRoutes = require('./route/kyc.route.js')
 const alertRoutes=require('./route/alert.route.js')
+const analyticsRoutes = require('./route/analytics.route.js');
 const errorHandler = require('./middleware/errorHandle.middleware.js');
 const app = express();
 
@@ -53,6 +54,7 @@ app.use('/api/police', policeRoutes);
 app.use('/api/kyc', kycRoutes);
 app.use('/api/admin',adminRoutes);
 app.use('/api/alert',alertRoutes)
+app.use('/api/analytics', analyticsRoutes);
 
 // Error handler
 app.use(errorHandler);
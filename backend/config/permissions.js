@@ -0,0 +1,25 @@
+'use strict';
+
+/**
+ * Which roles may use each Dashboard area. Routes check these through
+ * requirePermission(); the Dashboard mirrors the table in src/lib/permissions.ts
+ * to decide which pages, sidebar items and actions to show.
+ */
+const PERMISSIONS = {
+  alerts: ['police', 'admin'], // alert list, lifecycle actions, SOS responses
+  map: ['police', 'admin'], // live positions, trails, heatmap
+  efir: ['police', 'admin'], // e-FIR cases and exports
+  verify: ['police', 'admin'], // Digital ID QR checks
+  analytics: ['police', 'admin'],
+  kyc: ['tourism', 'issuer', 'admin'], // KYC review queue
+  tourists: ['tourism', 'issuer', 'admin'], // tourist directory
+  touristDetails: ['police', 'tourism', 'issuer', 'admin'], // one tourist's profile, also opened from alerts and cases
+  geofences: ['admin'],
+  users: ['admin'] // user and role management
+};
+
+const ROLES = ['tourist', 'police', 'tourism', 'issuer', 'admin'];
+
+const hasPermission = (user, permission) => (user?.roles || []).some(role => PERMISSIONS[permission].includes(role));
+
+module.exports = { PERMISSIONS, ROLES, hasPermission };
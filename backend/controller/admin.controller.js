@@ -1,9 +1,12 @@
 'use strict';
 const User = require('../models/user.model');
+const { ROLES, hasPermission } = require('../config/permissions');
 
 exports.listUsers = async (req, res, next) => {
   try {
-    const users = await User.find().select('-passwordHash');
+    // Without user management rights the list is limited to tourists
+    const filter = hasPermission(req.user, 'users') ? {} : { roles: 'tourist' };
+    const users = await User.find(filter).select('-passwordHash');
     res.json({ success: true, data: users });
   } catch (err) { next(err); }
 };
@@ -11,6 +14,7 @@ exports.listUsers = async (req, res, next) => {
 exports.deleteUser = async (req, res, next) => {
   try {
     const { id } = req.params;
+    if (String(req.user._id) === id) return res.status(400).json({ success: false, message: 'You cannot delete your own account' });
     const deletedUser = await User.findByIdAndDelete(id);
     if (!deletedUser) return res.status(404).json({ success: false, message: 'User not found' });
     res.json({ success: true, message: 'User deleted' });
@@ -22,6 +26,12 @@ exports.assignRole = async (req, res, next) => {
     const { id } = req.params;
     const { roles } = req.body;
     if (!Array.isArray(roles) || roles.length === 0) return res.status(400).json({ success: false, message: 'roles must be array' });
+    const unknown = roles.filter(role => !ROLES.includes(role));
+    if (unknown.length) return res.status(400).json({ success: false, message: `Unknown roles: ${unknown.join(', ')}` });
+    // Keep at least one admin able to manage roles: admins cannot drop their own admin role
+    if (String(req.user._id) === id && !roles.includes('admin')) {
+      return res.status(400).json({ success: false, message: 'You cannot remove your own admin role' });
+    }
     const updatedUser = await User.findByIdAndUpdate(id, { roles }, { new: true }).select('-passwordHash');
     if (!updatedUser) return res.status(404).json({ success: false, message: 'User not found' });
     res.json({ success: true, data: updatedUser });
@@ -40,3 +50,46 @@ exports.cleanUsers = async (req, res, next) => {
 };
 
 
+
+// ---------- Geofences ----------
+const Geofence = require('../models/geofence.model');
+const geofenceService = require('../services/geofenceService');
+
+exports.createGeofence = async (req, res, next) => {
+  try {
+    const { fields, error } = geofenceService.normalizeGeofence(req.body);
+    if (error) return res.status(400).json({ success: false, message: error });
+
+    const zone = await Geofence.create({ ...fields, createdBy: req.user._id, updatedBy: req.user._id });
+    await geofenceService.publishGeofences();
+    res.status(201).json({ success: true, data: geofenceService.toPublic(zone) });
+  } catch (err) { next(err); }
+};
+
+exports.updateGeofence = async (req, res, next) => {
+  try {
+    const zone = await Geofence.findOne({ _id: req.params.id, deletedAt: null });
+    if (!zone) return res.status(404).json({ success: false, message: 'Geofence not found' });
+
+    const { fields, error } = geofenceService.normalizeGeofence(req.body, zone.toObject());
+    if (error) return res.status(400).json({ success: false, message: error });
+
+    zone.set({ ...fields, updatedBy: req.user._id });
+    await zone.save();
+    await geofenceService.publishGeofences();
+    res.json({ success: true, data: geofenceService.toPublic(zone) });
+  } catch (err) { next(err); }
+};
+
+exports.deleteGeofence = async (req, res, next) => {
+  try {
+    const zone = await Geofence.findOneAndUpdate(
+      { _id: req.params.id, deletedAt: null },
+      { deletedAt: new Date(), updatedBy: req.user._id }
+    );
+    if (!zone) return res.status(404).json({ success: false, message: 'Geofence not found' });
+
+    await geofenceService.publishGeofences();
+    res.json({ success: true, message: 'Geofence deleted' });
+  } catch (err) { next(err); }
+};
@@ -1,65 +1,233 @@
 'use strict';
+const mongoose = require('mongoose');
 const Alert = require('../models/alert.model');
-const { broadcast } = require('../services/wsService');
+const User = require('../models/user.model');
+const DigitalId = require('../models/digitalId.model');
+const Location = require('../models/location.model');
+const Anomaly = require('../models/anomoly.model');
+const EFIR = require('../models/fir.model');
+const { decryptObject } = require('../utils/aes');
+const AlertService = require('../services/alertService');
+const { hasPermission } = require('../config/permissions');
 
-// Accept an alert
-exports.acceptAlert = async (req, res) => {
+// Lifecycle actions share one response shape; transition errors carry their HTTP status
+async function runTransition(res, label, transition, message) {
   try {
-    const { alertId } = req.params;
-    const userId = req.user._id; // get user from auth middleware
+    const alert = await transition();
+    res.json({ success: true, message, alert });
+  } catch (err) {
+    if (!err.status) console.error(`${label} error:`, err);
+    res.status(err.status || 500).json({ success: false, message: err.message });
+  }
+}
 
-    const alert = await Alert.findById(alertId);
+// Accept an alert; only one officer can win, later attempts get a 409
+exports.acceptAlert = (req, res) =>
+  runTransition(res, 'acceptAlert', () => AlertService.accept(req.params.alertId, req.user), 'Alert accepted successfully');
 
-    if (!alert) {
-      return res.status(404).json({ success: false, message: 'Alert not found' });
-    }
+exports.acknowledgeAlert = (req, res) =>
+  runTransition(res, 'acknowledgeAlert',
+    () => AlertService.acknowledge(req.params.alertId, req.user, req.body?.note), 'Alert acknowledged');
 
-    // Check if already accepted by someone else
-    if (alert.status === 'accepted' && alert.acceptedBy.toString() !== userId.toString()) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'Alert already accepted by another user' 
-      });
-    }
+// Hand an accepted alert back to the open queue
+exports.releaseAlert = (req, res) =>
+  runTransition(res, 'releaseAlert',
+    () => AlertService.release(req.params.alertId, req.user, req.body?.note), 'Alert released');
 
-    alert.status = 'accepted';
-    alert.acceptedBy = userId;
-    alert.acceptedAt = new Date();
-    alert.updatedAt = new Date();
+exports.reassignAlert = (req, res) => {
+  const { officerId, note } = req.body || {};
+  if (!officerId) return res.status(400).json({ success: false, message: 'officerId is required' });
+  return runTransition(res, 'reassignAlert',
+    () => AlertService.reassign(req.params.alertId, req.user, officerId, note), 'Alert reassigned');
+};
 
-    await alert.save();
+exports.escalateAlert = (req, res) => {
+  const { severity, note } = req.body || {};
+  return runTransition(res, 'escalateAlert',
+    () => AlertService.escalate(req.params.alertId, req.user, severity, note), 'Alert escalated');
+};
 
-    broadcast('alert_updated', {
-      alertId: alert._id,
-      status: alert.status,
-      acceptedBy: userId,
-      acceptedAt: alert.acceptedAt
-    });
+exports.resolveAlert = (req, res) =>
+  runTransition(res, 'resolveAlert',
+    () => AlertService.resolve(req.params.alertId, req.user, req.body?.resolution), 'Alert resolved');
 
-    res.json({ success: true, message: 'Alert accepted successfully', alert });
+exports.reopenAlert = (req, res) =>
+  runTransition(res, 'reopenAlert',
+    () => AlertService.reopen(req.params.alertId, req.user, req.body?.note), 'Alert reopened');
 
+exports.addAlertNote = (req, res) =>
+  runTransition(res, 'addAlertNote',
+    () => AlertService.addNote(req.params.alertId, req.user, req.body?.note), 'Note added');
+
+// Officers an alert can be reassigned to
+exports.getOfficers = async (req, res) => {
+  try {
+    const officers = await User.find({ roles: { $in: ['police', 'admin'] } })
+      .select('name email roles')
+      .sort({ name: 1 })
+      .lean();
+    res.json({ success: true, data: officers });
   } catch (err) {
-    console.error('acceptAlert error:', err);
+    console.error('getOfficers error:', err);
     res.status(500).json({ success: false, message: err.message });
   }
 };
 
 // Get all alerts
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+const ALERT_SORTS = {
+  newest: { createdAt: -1 },
+  oldest: { createdAt: 1 },
+  severity: { severityRank: -1, createdAt: -1 }
+};
+
+const listParam = value => (value ? String(value).split(',').map(v => v.trim()).filter(Boolean) : []);
+const escapeRegex = value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// GET /api/alert?status=open,accepted&type=&severity=&touristId=&assignee=me&q=&from=&to=&sort=newest|oldest|severity&page=&limit=
 exports.getAlerts = async (req, res) => {
   try {
-    const { status, type } = req.query;
-    let filter = {};
-    if (status) filter.status = status;
-    if (type) filter.type = type;
+    const filter = {};
+    const status = listParam(req.query.status);
+    const type = listParam(req.query.type);
+    const severity = listParam(req.query.severity).filter(s => AlertService.SEVERITIES.includes(s));
+    if (status.length) filter.status = { $in: status };
+    if (type.length) filter.type = { $in: type };
+    // Alerts raised before severity existed count as medium
+    if (severity.length) filter.severity = { $in: severity.includes('medium') ? [...severity, null] : severity };
+    if (req.query.touristId) filter.touristId = String(req.query.touristId);
+    if (req.query.assignee) {
+      const assignee = req.query.assignee === 'me' ? String(req.user._id) : String(req.query.assignee);
+      if (!mongoose.isValidObjectId(assignee)) {
+        return res.status(400).json({ success: false, message: 'assignee must be "me" or a user id' });
+      }
+      filter.acceptedBy = new mongoose.Types.ObjectId(assignee);
+    }
+
+    if (req.query.from || req.query.to) {
+      const from = req.query.from ? new Date(req.query.from) : null;
+      const to = req.query.to ? new Date(req.query.to) : null;
+      if ((from && isNaN(from)) || (to && isNaN(to)) || (from && to && from > to)) {
+        return res.status(400).json({ success: false, message: 'from and to must be valid dates with from <= to' });
+      }
+      filter.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    }
+
+    // Free text matches the message, the tourist id or the tourist's name
+    const q = String(req.query.q || '').trim();
+    if (q) {
+      const pattern = new RegExp(escapeRegex(q), 'i');
+      const tourists = await User.find({ name: pattern, walletId: { $ne: null } }).select('walletId').limit(200).lean();
+      filter.$or = [
+        { message: pattern },
+        { touristId: pattern },
+        ...(tourists.length ? [{ touristId: { $in: tourists.map(t => t.walletId) } }] : [])
+      ];
+    }
 
-    const alerts = await Alert.find(filter)
+    const sort = ALERT_SORTS[req.query.sort] || ALERT_SORTS.newest;
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+
+    const [result] = await Alert.aggregate([
+      { $match: filter },
+      {
+        $facet: {
+          alerts: [
+            { $addFields: { severityRank: { $indexOfArray: [AlertService.SEVERITIES, { $ifNull: ['$severity', 'medium'] }] } } },
+            { $sort: sort },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            { $project: { severityRank: 0 } }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    const alerts = await Alert.populate(result.alerts, [
+      { path: 'acceptedBy', select: 'name email' },
+      { path: 'handledBy', select: 'name email' }
+    ]);
+    const names = await User.find({ walletId: { $in: [...new Set(alerts.map(a => a.touristId))] } })
+      .select('walletId name')
+      .lean();
+    const nameById = new Map(names.map(u => [u.walletId, u.name]));
+    alerts.forEach(a => { a.touristName = nameById.get(a.touristId) || null; });
+
+    const total = result.total[0]?.count || 0;
+    res.json({ success: true, alerts, total, page, limit, pages: Math.ceil(total / limit) });
+  } catch (err) {
+    console.error('getAlerts error:', err);
+    res.status(500).json({ success: false, message: err.message });
+  }
+};
+
+const DETAIL_LOCATIONS = 20;
+
+// Everything a responder needs for one alert: tourist, Digital ID, recent movement and related cases
+exports.getAlertDetails = async (req, res) => {
+  try {
+    const alert = await Alert.findById(req.params.alertId)
       .populate('acceptedBy', 'name email')
       .populate('handledBy', 'name email')
-      .sort({ createdAt: -1 });
+      .lean();
+    if (!alert) return res.status(404).json({ success: false, message: 'Alert not found' });
+
+    const { touristId } = alert;
+    const [user, digitalId, locations, anomalies, efirs] = await Promise.all([
+      User.findOne({ walletId: touristId }).select('name email phone kycStatus').lean(),
+      DigitalId.findOne({ digitalId: touristId })
+        .select('digitalId status expiryAt emergencyContactsEncrypted lastKnownLocation itinerarySummary')
+        .lean(),
+      Location.find({ touristId }).sort({ ts: -1 }).limit(DETAIL_LOCATIONS).select('lat lon speed ts -_id').lean(),
+      Anomaly.find({ touristId }).sort({ createdAt: -1 }).limit(10).select('type score createdAt').lean(),
+      EFIR.find({ touristId }).sort({ createdAt: -1 }).limit(10)
+        .select('efirId incidentType status dateTime createdAt').lean()
+    ]);
 
-    res.json({ success: true, alerts });
+    // Emergency contacts are PII: null means "not shown to this role", [] means none on file
+    let emergencyContacts = null;
+    const mayContact = hasPermission(req.user, 'alerts');
+    if (mayContact && digitalId?.emergencyContactsEncrypted?.data) {
+      try {
+        emergencyContacts = decryptObject(digitalId.emergencyContactsEncrypted);
+      } catch (err) {
+        console.error('getAlertDetails contacts error:', err.message);
+      }
+    } else if (mayContact) {
+      emergencyContacts = [];
+    }
+
+    res.json({
+      success: true,
+      data: {
+        alert,
+        tourist: {
+          touristId,
+          name: user?.name || null,
+          email: user?.email || null,
+          phone: user?.phone || null,
+          kycStatus: user?.kycStatus || null
+        },
+        digitalId: digitalId
+          ? {
+            digitalId: digitalId.digitalId,
+            status: digitalId.status,
+            expiryAt: digitalId.expiryAt,
+            lastKnownLocation: digitalId.lastKnownLocation,
+            destinations: digitalId.itinerarySummary?.destinations || []
+          }
+          : null,
+        emergencyContacts,
+        recentLocations: locations.reverse(), // oldest first, ready to draw
+        anomalies,
+        efirs
+      }
+    });
   } catch (err) {
-    console.error('getAlerts error:', err);
+    console.error('getAlertDetails error:', err);
     res.status(500).json({ success: false, message: err.message });
   }
 };
@@ -0,0 +1,153 @@
+'use strict';
+const Alert = require('../models/alert.model');
+const Location = require('../models/location.model');
+const KycRequest = require('../models/kyc.model');
+const EFIR = require('../models/fir.model');
+
+const ANALYTICS_TIMEZONE = process.env.ANALYTICS_TIMEZONE || 'Asia/Kolkata';
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ALERT_TYPES = ['sos', 'anomaly', 'geofence', 'eFIR'];
+const KYC_STATUSES = ['pending', 'auto_approved', 'approved', 'rejected'];
+const EFIR_STATUSES = ['submitted', 'under_review', 'resolved'];
+
+// ?from=&to= as ISO dates; defaults to the last 30 days
+function parseRange(query) {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (isNaN(from) || isNaN(to) || from > to) return { error: 'from and to must be valid dates with from <= to' };
+  if (to - from > MAX_RANGE_DAYS * DAY_MS) return { error: `Range cannot exceed ${MAX_RANGE_DAYS} days` };
+  return { from, to };
+}
+
+const dayOf = field => ({ $dateToString: { format: '%Y-%m-%d', date: field, timezone: ANALYTICS_TIMEZONE } });
+
+// Every calendar day in the range, so charts show quiet days as zero instead of skipping them
+function daysBetween(from, to) {
+  const format = new Intl.DateTimeFormat('en-CA', { timeZone: ANALYTICS_TIMEZONE });
+  const days = new Set();
+  for (let t = from.getTime(); t <= to.getTime(); t += DAY_MS / 2) days.add(format.format(new Date(t)));
+  days.add(format.format(to));
+  return [...days];
+}
+
+const round = (value, digits = 1) => (value == null ? null : Number(value.toFixed(digits)));
+
+// Shared wrapper: range parsing, error shape and response envelope
+const analytics = (label, compute) => async (req, res) => {
+  const range = parseRange(req.query);
+  if (range.error) return res.status(400).json({ success: false, message: range.error });
+  try {
+    const data = await compute(range);
+    return res.json({ success: true, from: range.from, to: range.to, timezone: ANALYTICS_TIMEZONE, data });
+  } catch (err) {
+    console.error(`[${label}] error`, err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// GET /api/analytics/alerts-per-day -> [{ date, sos, anomaly, geofence, eFIR, total }]
+exports.alertsPerDay = analytics('alertsPerDay', async ({ from, to }) => {
+  const rows = await Alert.aggregate([
+    { $match: { createdAt: { $gte: from, $lte: to } } },
+    { $group: { _id: { date: dayOf('$createdAt'), type: '$type' }, count: { $sum: 1 } } }
+  ]);
+
+  const byDay = new Map(daysBetween(from, to).map(date => [date, { date, ...Object.fromEntries(ALERT_TYPES.map(t => [t, 0])), total: 0 }]));
+  for (const { _id, count } of rows) {
+    const day = byDay.get(_id.date);
+    if (!day) continue;
+    day[_id.type] = (day[_id.type] || 0) + count;
+    day.total += count;
+  }
+  return [...byDay.values()];
+});
+
+// First 'accept' in the history; older alerts only have acceptedAt (which a reassign overwrites)
+const firstAcceptedAt = {
+  $ifNull: [
+    {
+      $let: {
+        vars: {
+          entry: {
+            $arrayElemAt: [
+              { $filter: { input: { $ifNull: ['$statusHistory', []] }, cond: { $eq: ['$$this.action', 'accept'] } } },
+              0
+            ]
+          }
+        },
+        in: '$$entry.at'
+      }
+    },
+    '$acceptedAt'
+  ]
+};
+
+const minutesSinceCreated = field => ({ $divide: [{ $subtract: [field, '$createdAt'] }, 60000] });
+
+// GET /api/analytics/response-times -> { series: [{ date, acceptMinutes, resolveMinutes, accepted, resolved }], overall }
+exports.responseTimes = analytics('responseTimes', async ({ from, to }) => {
+  const stats = {
+    acceptMinutes: { $avg: '$acceptMinutes' },
+    resolveMinutes: { $avg: '$resolveMinutes' },
+    accepted: { $sum: { $cond: [{ $ne: ['$acceptMinutes', null] }, 1, 0] } },
+    resolved: { $sum: { $cond: [{ $ne: ['$resolveMinutes', null] }, 1, 0] } }
+  };
+  const [result] = await Alert.aggregate([
+    { $match: { createdAt: { $gte: from, $lte: to } } },
+    {
+      $project: {
+        date: dayOf('$createdAt'),
+        acceptMinutes: { $cond: [{ $ifNull: [firstAcceptedAt, false] }, minutesSinceCreated(firstAcceptedAt), null] },
+        resolveMinutes: { $cond: [{ $ifNull: ['$resolvedAt', false] }, minutesSinceCreated('$resolvedAt'), null] }
+      }
+    },
+    {
+      $facet: {
+        series: [{ $group: { _id: '$date', ...stats } }],
+        overall: [{ $group: { _id: null, ...stats } }]
+      }
+    }
+  ]);
+
+  const shape = row => ({
+    acceptMinutes: round(row?.acceptMinutes),
+    resolveMinutes: round(row?.resolveMinutes),
+    accepted: row?.accepted || 0,
+    resolved: row?.resolved || 0
+  });
+  const byDay = new Map(result.series.map(row => [row._id, row]));
+  return {
+    series: daysBetween(from, to).map(date => ({ date, ...shape(byDay.get(date)) })),
+    overall: shape(result.overall[0])
+  };
+});
+
+// GET /api/analytics/active-tourists -> [{ date, tourists }]; a tourist is active on a day they sent a location
+exports.activeTourists = analytics('activeTourists', async ({ from, to }) => {
+  const rows = await Location.aggregate([
+    { $match: { ts: { $gte: from, $lte: to } } },
+    { $group: { _id: { date: dayOf('$ts'), touristId: '$touristId' } } },
+    { $group: { _id: '$_id.date', tourists: { $sum: 1 } } }
+  ]);
+  const byDay = new Map(rows.map(row => [row._id, row.tourists]));
+  return daysBetween(from, to).map(date => ({ date, tourists: byDay.get(date) || 0 }));
+});
+
+// Counts per status for requests created in the range, including statuses with none
+async function countByStatus(Model, statuses, { from, to }) {
+  const rows = await Model.aggregate([
+    { $match: { createdAt: { $gte: from, $lte: to } } },
+    { $group: { _id: '$status', count: { $sum: 1 } } }
+  ]);
+  const counts = new Map(rows.map(row => [row._id, row.count]));
+  return statuses.map(status => ({ status, count: counts.get(status) || 0 }));
+}
+
+// GET /api/analytics/kyc-outcomes -> [{ status, count }]
+exports.kycOutcomes = analytics('kycOutcomes', range => countByStatus(KycRequest, KYC_STATUSES, range));
+
+// GET /api/analytics/efirs-by-status -> [{ status, count }]
+exports.efirsByStatus = analytics('efirsByStatus', range => countByStatus(EFIR, EFIR_STATUSES, range));
@@ -3,6 +3,8 @@ const crypto = require('crypto');
 const KycRequest = require('../models/kyc.model');
 const User = require('../models/user.model');
 const { generateOtp } = require('../services/otpService');
+const NotificationService = require('../services/notificationService');
+const { broadcast } = require('../services/wsService');
 const adhaarDB = require('../config/adhar.json');
 
 // Mask Aadhaar: show only last 4 digits
@@ -18,6 +20,16 @@ function computeKycHash(aadhaarNumber, name, dob) {
 
 // In-memory OTP store for demo
 const otpStore = {};
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Generate and store a fresh OTP for a request; replaces any earlier one
+function issueOtp(kycHash, touristId) {
+  const now = Date.now();
+  const entry = { otp: generateOtp(), touristId, sentAt: now, expires: now + OTP_TTL_MS };
+  otpStore[kycHash] = entry;
+  return entry;
+}
 
 /**
  * Submit KYC
@@ -39,6 +51,17 @@ exports.submitKyc = async (req, res, next) => {
     const idType = aadhaarNumber ? 'aadhaar' : 'passport';
     const kycHash = computeKycHash(idNumber, name, dob);
 
+    if (user.kycStatus === 'verified') {
+      return res.status(409).json({ success: false, outcome: 'already_verified', message: 'Your KYC is already verified' });
+    }
+    if (user.kycStatus === 'manual_review') {
+      return res.status(409).json({
+        success: false,
+        outcome: 'manual_review',
+        message: 'Your previous submission is still under review'
+      });
+    }
+
     const existingKyc = await KycRequest.findOne({
       touristId: user.walletId,
       kycHash,
@@ -47,8 +70,9 @@ exports.submitKyc = async (req, res, next) => {
 
     if (existingKyc) {
       console.warn(`KYC already verified for ${idType}: ${idNumber}`);
-      return res.status(400).json({
+      return res.status(409).json({
         success: false,
+        outcome: 'already_verified',
         message: `This ${idType} is already verified for you`
       });
     }
@@ -78,12 +102,7 @@ exports.submitKyc = async (req, res, next) => {
         await User.findByIdAndUpdate(user._id, { kycStatus: 'manual_review' });
         console.log(`Aadhaar mismatch for ${aadhaarNumber}, sent for manual review.`);
       } else {
-        const otp = generateOtp();
-        otpStore[kycHash] = {
-          otp,
-          touristId: user.walletId,
-          expires: Date.now() + 5 * 60 * 1000
-        };
+        const { otp } = issueOtp(kycHash, user.walletId);
         await User.findByIdAndUpdate(user._id, { kycStatus: 'pending' });
         console.log(`Demo OTP for ${aadhaarNumber}: ${otp}`);
       }
@@ -115,13 +134,17 @@ exports.submitKyc = async (req, res, next) => {
       autoResult,
       createdAt: new Date()
     });
+    broadcast('kyc_updated', { requestId: kycDoc.requestId, status: kycDoc.status });
 
+    const otpSent = !autoResult;
     return res.json({
       success: true,
-      message: aadhaarNumber && record && record.name === name && record.dob === dob
+      outcome: otpSent ? 'otp_sent' : 'manual_review',
+      message: otpSent
         ? 'OTP sent to linked mobile number'
         : 'Details sent for manual review with proof documents',
-      requestId: kycDoc.requestId
+      requestId: kycDoc.requestId,
+      resendAfter: otpSent ? OTP_RESEND_COOLDOWN_MS / 1000 : undefined
     });
 
   } catch (err) {
@@ -166,6 +189,7 @@ exports.verifyOtpKyc = async (req, res, next) => {
 
     await User.findByIdAndUpdate(user._id, { kycStatus: 'verified' });
     delete otpStore[kycDoc.kycHash];
+    broadcast('kyc_updated', { requestId, status: kycDoc.status });
 
     return res.json({ success: true, message: 'KYC verified successfully', requestId });
 
@@ -176,12 +200,106 @@ exports.verifyOtpKyc = async (req, res, next) => {
 };
 
 /**
- * List pending KYC requests
+ * Resend the OTP for a pending Aadhaar request, at most once per cooldown
+ */
+exports.resendOtp = async (req, res, next) => {
+  try {
+    const user = req.user;
+    const { requestId } = req.body;
+    if (!requestId) {
+      return res.status(400).json({ success: false, message: 'requestId required' });
+    }
+
+    const kycDoc = await KycRequest.findOne({ requestId, touristId: user.walletId });
+    if (!kycDoc) {
+      return res.status(404).json({ success: false, message: 'KYC request not found' });
+    }
+    if (kycDoc.status !== 'pending') {
+      return res.status(409).json({ success: false, message: `KYC request is already ${kycDoc.status.replace('_', ' ')}` });
+    }
+    if (kycDoc.autoResult) {
+      return res.status(409).json({ success: false, message: 'This request is under manual review and needs no OTP' });
+    }
+
+    const previous = otpStore[kycDoc.kycHash];
+    const waitMs = previous ? previous.sentAt + OTP_RESEND_COOLDOWN_MS - Date.now() : 0;
+    if (waitMs > 0) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ success: false, message: `Please wait ${retryAfter}s before requesting another OTP`, retryAfter });
+    }
+
+    const { otp } = issueOtp(kycDoc.kycHash, user.walletId);
+    console.log(`Demo OTP resent for ${requestId}: ${otp}`);
+
+    return res.json({
+      success: true,
+      message: 'OTP resent to linked mobile number',
+      requestId,
+      resendAfter: OTP_RESEND_COOLDOWN_MS / 1000
+    });
+  } catch (err) {
+    console.error('resendOtp error:', err.stack || err);
+    next(err);
+  }
+};
+
+/**
+ * The caller's KYC status and latest request, so the app can resume the flow
+ */
+exports.getMine = async (req, res, next) => {
+  try {
+    const user = req.user;
+    const latest = await KycRequest.findOne({ touristId: user.walletId })
+      .sort({ createdAt: -1 })
+      .select('requestId status payload.idType autoResult reviewComment reviewedAt createdAt')
+      .lean();
+
+    res.json({
+      success: true,
+      kycStatus: user.kycStatus,
+      request: latest && {
+        requestId: latest.requestId,
+        status: latest.status,
+        idType: latest.payload?.idType,
+        manualReview: !!latest.autoResult,
+        reason: latest.autoResult?.reason || null,
+        reviewComment: latest.reviewComment || null,
+        reviewedAt: latest.reviewedAt || null,
+        createdAt: latest.createdAt
+      }
+    });
+  } catch (err) {
+    console.error('getMine error:', err.stack || err);
+    next(err);
+  }
+};
+
+/**
+ * List the review queue: requests still pending (awaiting OTP or a reviewer)
+ * plus the requests of tourists whose User.kycStatus is manual_review.
+ * Each entry carries the submitting user and `queue` so reviewers can tell
+ * manual-review cases from tourists who simply have not entered their OTP yet.
  */
 exports.listPending = async (req, res, next) => {
   try {
-    const list = await KycRequest.find({ status: 'pending' });
-    res.json({ success: true, pending: list });
+    const manualUsers = await User.find({ kycStatus: 'manual_review' }).select('_id').lean();
+    const list = await KycRequest.find({
+      $or: [
+        { status: 'pending' },
+        { userId: { $in: manualUsers.map(u => u._id) }, status: { $nin: ['approved', 'rejected'] } }
+      ]
+    })
+      .sort({ createdAt: 1 })
+      .populate('userId', 'name email phone kycStatus')
+      .lean();
+
+    const pending = list.map(({ userId, ...kyc }) => ({
+      ...kyc,
+      user: userId || null,
+      queue: userId?.kycStatus === 'manual_review' || kyc.autoResult?.reason ? 'manual_review' : 'otp_pending'
+    }));
+    res.json({ success: true, pending });
   } catch (err) {
     console.error('listPending error:', err.stack || err);
     next(err);
@@ -189,36 +307,45 @@ exports.listPending = async (req, res, next) => {
 };
 
 /**
- * Review KYC manually
+ * Review KYC manually. A comment is required; the reviewer and time are
+ * stored on the request and the tourist is notified of the decision.
  */
-
 exports.review = async (req, res, next) => {
   try {
     const { requestId } = req.params;
-    const { status, comment } = req.body;
+    const { status } = req.body;
+    const comment = String(req.body.comment || '').trim();
     if (!['approved', 'rejected'].includes(status)) {
       console.error('Invalid review status:', status);
-      return res.status(400).json({ message: 'Invalid status' });
+      return res.status(400).json({ success: false, message: 'Invalid status' });
+    }
+    if (!comment) {
+      return res.status(400).json({ success: false, message: 'A review comment is required' });
     }
 
-    const kycDoc = await KycRequest.findOne({ requestId });
-    if (!kycDoc) {
+    const exists = await KycRequest.exists({ requestId });
+    if (!exists) {
       console.warn(`KYC request not found for review: ${requestId}`);
-      return res.status(404).json({ message: 'KYC request not found' });
+      return res.status(404).json({ success: false, message: 'KYC request not found' });
     }
 
-    kycDoc.status = status;
-    kycDoc.reviewComment = comment || '';
-    kycDoc.reviewerId = req.user._id;
-    kycDoc.updatedAt = new Date();
-    await kycDoc.save();
-
-    if (status === 'approved') {
-      await User.findByIdAndUpdate(kycDoc.userId, { kycStatus: 'verified' }, { new: true });
-    } else if (status === 'rejected') {
-      await User.findByIdAndUpdate(kycDoc.userId, { kycStatus: 'failed' }, { new: true });
+    const now = new Date();
+    // Only an undecided request can be reviewed, so two reviewers cannot both decide it
+    const kycDoc = await KycRequest.findOneAndUpdate(
+      { requestId, status: { $nin: ['approved', 'auto_approved', 'rejected'] } },
+      { $set: { status, reviewComment: comment, reviewerId: req.user._id, reviewedAt: now, updatedAt: now } },
+      { new: true }
+    ).populate('reviewerId', 'name email');
+    if (!kycDoc) {
+      return res.status(409).json({ success: false, message: 'KYC request has already been reviewed' });
     }
 
+    await User.findByIdAndUpdate(kycDoc.userId, { kycStatus: status === 'approved' ? 'verified' : 'failed' });
+    delete otpStore[kycDoc.kycHash];
+
+    await NotificationService.notifyKycStatus(kycDoc);
+    broadcast('kyc_updated', { requestId, status });
+
     res.json({ success: true, kyc: kycDoc });
   } catch (err) {
     console.error('review error:', err.stack || err);
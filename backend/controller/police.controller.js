@@ -51,15 +51,28 @@ exports.getTouristHistory = async (req, res, next) => {
 // controllers/policeController.js
 const EFIR = require('../models/fir.model.js'); // adjust path to your model
 
-// GET /api/police/efirs
+const EfirService = require('../services/efirService.js');
+
+const EFIR_STATUSES = ['submitted', 'under_review', 'resolved'];
+
+// GET /api/police/efirs?status=submitted,under_review&assignee=me|unassigned|<userId>
 exports.getEfirs = async (req, res, next) => {
   try {
-    // Return only active (not resolved)
-    const efirs = await EFIR.find({ status: { $in: ['submitted', 'under_review'] } })
+    const filter = {};
+    const status = String(req.query.status || '').split(',').filter(s => EFIR_STATUSES.includes(s));
+    if (status.length) filter.status = { $in: status };
+
+    const { assignee } = req.query;
+    if (assignee === 'me') filter.assignedTo = String(req.user._id);
+    else if (assignee === 'unassigned') filter.assignedTo = null;
+    else if (assignee) filter.assignedTo = String(assignee);
+
+    const efirs = await EFIR.find(filter)
       .sort({ createdAt: -1 })
       .lean();
 
-    return res.json({ success: true, count: efirs.length, data: efirs });
+    const data = await EfirService.withAssignees(efirs);
+    return res.json({ success: true, count: data.length, data });
   } catch (err) {
     console.error('[getEfirs] error', err);
     return res.status(500).json({ success: false, message: 'Server error' });
@@ -70,5 +83,250 @@ exports.getEfirs = async (req, res, next) => {
 exports.getEfirById = async (req, res) => {
   const efir = await EFIR.findOne({ efirId: req.params.id }).lean();
   if (!efir) return res.status(404).json({ success: false, message: "Not found" });
-  res.json({ success: true, data: efir });
+  const [data] = await EfirService.withAssignees([efir]);
+  res.json({ success: true, data });
+};
+
+// Case transitions share one response shape; workflow errors carry their HTTP status
+async function runEfirTransition(res, label, transition, message) {
+  try {
+    const data = await transition();
+    return res.json({ success: true, message, data });
+  } catch (err) {
+    if (!err.status) console.error(`[${label}] error`, err);
+    return res.status(err.status || 500).json({ success: false, message: err.message });
+  }
+}
+
+// PATCH /api/police/efirs/:id/assign { officerId?, note? } — defaults to the caller
+exports.assignEfir = (req, res) =>
+  runEfirTransition(res, "assignEfir",
+    () => EfirService.assign(req.params.id, req.user, req.body?.officerId, req.body?.note), "e-FIR assigned");
+
+// PATCH /api/police/efirs/:id/resolve { resolution }
+exports.resolveEfir = (req, res) =>
+  runEfirTransition(res, "resolveEfir",
+    () => EfirService.resolve(req.params.id, req.user, req.body?.resolution), "e-FIR resolved");
+
+// PATCH /api/police/efirs/:id/reopen { note? }
+exports.reopenEfir = (req, res) =>
+  runEfirTransition(res, "reopenEfir",
+    () => EfirService.reopen(req.params.id, req.user, req.body?.note), "e-FIR reopened");
+
+const EfirExport = require('../services/efirExportService.js');
+
+// GET /api/police/efirs/:id/export?format=pdf|zip — printable case file or the full evidence bundle
+exports.exportEfir = async (req, res) => {
+  try {
+    const format = req.query.format === 'zip' ? 'zip' : 'pdf';
+    const caseFile = await EfirExport.buildCaseFile(req.params.id, req.user);
+    const pdf = await EfirExport.renderPdf(caseFile);
+    const filename = `${caseFile.efir.efirId}_case_file.${format}`;
+
+    if (format === 'pdf') {
+      res.set({ 'Content-Type': 'application/pdf', 'Content-Disposition': `attachment; filename="${filename}"` });
+      return res.send(pdf);
+    }
+    res.set({ 'Content-Type': 'application/zip', 'Content-Disposition': `attachment; filename="${filename}"` });
+    await EfirExport.writeZip(caseFile, pdf, res);
+  } catch (err) {
+    if (!err.status) console.error('[exportEfir] error', err);
+    if (res.headersSent) return res.end();
+    return res.status(err.status || 500).json({ success: false, message: err.message });
+  }
+};
+
+const Verification = require('../models/verification.model.js');
+
+// GET /api/police/verifications?touristId=&limit=
+exports.getVerifications = async (req, res) => {
+  try {
+    const { touristId } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const verifications = await Verification.find(touristId ? { touristId } : {})
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return res.json({ success: true, count: verifications.length, data: verifications });
+  } catch (err) {
+    console.error('[getVerifications] error', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+const DigitalId = require('../models/digitalId.model.js');
+const Location = require('../models/location.model.js');
+const Alert = require('../models/alert.model.js');
+const User = require('../models/user.model.js');
+
+// Unresolved alerts, most urgent first; the map colours a tourist by the first one
+const ALERT_PRIORITY = ['open', 'acknowledged', 'accepted'];
+
+// GET /api/police/positions?maxAgeMinutes=
+exports.getPositions = async (req, res) => {
+  try {
+    const maxAgeMinutes = Math.min(Number(req.query.maxAgeMinutes) || 24 * 60, 7 * 24 * 60);
+    const since = new Date(Date.now() - maxAgeMinutes * 60 * 1000);
+
+    const ids = await DigitalId.find({
+      status: { $in: ['registered', 'active'] },
+      'lastKnownLocation.timestamp': { $gte: since }
+    })
+      .select('digitalId lastKnownLocation')
+      .lean();
+
+    const touristIds = ids.map(d => d.digitalId);
+    const [users, alerts] = await Promise.all([
+      User.find({ walletId: { $in: touristIds } }).select('name walletId').lean(),
+      Alert.find({ touristId: { $in: touristIds }, status: { $in: ALERT_PRIORITY } })
+        .select('touristId type status createdAt')
+        .lean()
+    ]);
+
+    const names = new Map(users.map(u => [u.walletId, u.name]));
+    const alertFor = new Map();
+    for (const alert of alerts) {
+      const current = alertFor.get(alert.touristId);
+      if (!current || ALERT_PRIORITY.indexOf(alert.status) < ALERT_PRIORITY.indexOf(current.status)) {
+        alertFor.set(alert.touristId, alert);
+      }
+    }
+
+    const positions = ids.map(d => {
+      const alert = alertFor.get(d.digitalId);
+      return {
+        touristId: d.digitalId,
+        name: names.get(d.digitalId) || null,
+        lat: d.lastKnownLocation.lat,
+        lon: d.lastKnownLocation.lon,
+        ts: d.lastKnownLocation.timestamp,
+        alert: alert ? { id: alert._id, type: alert.type, status: alert.status } : null
+      };
+    });
+
+    return res.json({ success: true, count: positions.length, data: positions });
+  } catch (err) {
+    console.error('[getPositions] error', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// GET /api/police/positions/:touristId/trail?limit=
+exports.getTrail = async (req, res) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 100, 500);
+    const points = await Location.find({ touristId: req.params.touristId })
+      .sort({ ts: -1 })
+      .limit(limit)
+      .select('lat lon speed ts -_id')
+      .lean();
+
+    // Oldest first so the client can draw the polyline as-is
+    return res.json({ success: true, count: points.length, data: points.reverse() });
+  } catch (err) {
+    console.error('[getTrail] error', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+const Anomaly = require('../models/anomoly.model.js');
+
+const HEATMAP_TYPES = ['sos', 'anomaly', 'geofence', 'eFIR'];
+const DEFAULT_CELL_SIZE = 0.005; // degrees, roughly 500 m
+const HEATMAP_TIMEZONE = process.env.HEATMAP_TIMEZONE || 'Asia/Kolkata';
+
+// Hours are [hourFrom, hourTo); a range like 18 -> 6 wraps past midnight
+function hourMatch(field, hourFrom, hourTo) {
+  const hour = { $hour: { date: field, timezone: HEATMAP_TIMEZONE } };
+  if (hourFrom === hourTo) return {};
+  const inRange = hourFrom < hourTo
+    ? { $and: [{ $gte: [hour, hourFrom] }, { $lt: [hour, hourTo] }] }
+    : { $or: [{ $gte: [hour, hourFrom] }, { $lt: [hour, hourTo] }] };
+  return { $expr: inRange };
+}
+
+// Snap a coordinate to the centre of its grid cell
+const toCell = (field, size) => ({
+  $add: [{ $multiply: [{ $floor: { $divide: [field, size] } }, size] }, size / 2]
+});
+
+function binStage(latField, lonField, typeField, size) {
+  return [
+    { $match: { [latField.slice(1)]: { $type: 'number' }, [lonField.slice(1)]: { $type: 'number' } } },
+    {
+      $group: {
+        _id: { lat: toCell(latField, size), lon: toCell(lonField, size), type: typeField },
+        count: { $sum: 1 }
+      }
+    }
+  ];
+}
+
+// GET /api/police/heatmap?from=&to=&types=sos,anomaly&hourFrom=&hourTo=&cellSize=
+exports.getHeatmap = async (req, res) => {
+  try {
+    const to = req.query.to ? new Date(req.query.to) : new Date();
+    const from = req.query.from ? new Date(req.query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (isNaN(from) || isNaN(to) || from > to) {
+      return res.status(400).json({ success: false, message: 'from and to must be valid dates with from <= to' });
+    }
+
+    const types = req.query.types
+      ? String(req.query.types).split(',').filter(t => HEATMAP_TYPES.includes(t))
+      : HEATMAP_TYPES;
+    const hourFrom = Math.min(Math.max(parseInt(req.query.hourFrom, 10) || 0, 0), 24) % 24;
+    const hourTo = Math.min(Math.max(parseInt(req.query.hourTo, 10) || 0, 0), 24) % 24;
+    const size = Math.min(Math.max(Number(req.query.cellSize) || DEFAULT_CELL_SIZE, 0.0005), 1);
+    const range = { createdAt: { $gte: from, $lte: to } };
+
+    const alertTypes = types.filter(t => t !== 'anomaly');
+    const [alertBins, anomalyBins] = await Promise.all([
+      alertTypes.length
+        ? Alert.aggregate([
+          { $match: { ...range, type: { $in: alertTypes }, ...hourMatch('$createdAt', hourFrom, hourTo) } },
+          ...binStage('$location.lat', '$location.lng', '$type', size)
+        ])
+        : [],
+      // Anomalies are a separate collection; their position is the last point of the flagged sequence
+      types.includes('anomaly')
+        ? Anomaly.aggregate([
+          { $match: { ...range, ...hourMatch('$createdAt', hourFrom, hourTo) } },
+          { $addFields: { point: { $arrayElemAt: ['$locations', -1] } } },
+          ...binStage('$point.lat', '$point.lon', 'anomaly', size)
+        ])
+        : []
+    ]);
+
+    // One cell per grid square, with a per-type breakdown
+    const cells = new Map();
+    for (const { _id, count } of [...alertBins, ...anomalyBins]) {
+      const lat = Number(_id.lat.toFixed(6));
+      const lon = Number(_id.lon.toFixed(6));
+      const key = `${lat},${lon}`;
+      const cell = cells.get(key) || { lat, lon, count: 0, types: {} };
+      cell.count += count;
+      cell.types[_id.type] = (cell.types[_id.type] || 0) + count;
+      cells.set(key, cell);
+    }
+
+    const data = [...cells.values()];
+    return res.json({
+      success: true,
+      data: {
+        cells: data,
+        total: data.reduce((sum, c) => sum + c.count, 0),
+        max: data.reduce((max, c) => Math.max(max, c.count), 0),
+        cellSize: size,
+        from,
+        to,
+        types,
+        hourFrom,
+        hourTo
+      }
+    });
+  } catch (err) {
+    console.error('[getHeatmap] error', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
 };
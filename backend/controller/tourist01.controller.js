@@ -1,86 +1,116 @@
 'use strict';
 
 const crypto = require('crypto');
+const axios = require('axios');
 const { customAlphabet } = require('nanoid');
-const { submitTransaction, evaluateTransaction } = require('../services/fabricService');
+const { safeSubmit, safeSubmitWithReceipt, evaluateTransaction } = require('../services/fabricService');
 const KycRequest = require('../models/kyc.model');
 const DigitalId = require('../models/digitalId.model');
 const Location = require('../models/location.model');
 const SosAlert = require('../models/alert.model');
 const Feedback = require('../models/feedback.model');
 const EFIR = require('../models/fir.model');
+const Verification = require('../models/verification.model');
 const mlService = require('../services/mlService.js');
+const geofenceService = require('../services/geofenceService');
 const Anomaly = require('../models/anomoly.model');
 const NotificationService = require('../services/notificationService');
+const AlertService = require('../services/alertService');
+const CredentialService = require('../services/credentialService');
+const { encryptObject, decryptObject } = require('../utils/aes');
+const { broadcast } = require('../services/wsService');
 const User = require('../models/user.model.js');
 
 const nano = customAlphabet('0123456789ABCDEF', 8); // 8-char suffix
-const AES_KEY = process.env.AES_256_KEY;
 const DEFAULT_ORG = 'org1';
 const DEFAULT_IDENTITY = process.env.ORG_ISSUER_ID || 'admin';
-
-// ---------- AES Helpers ----------
-function getAesKeyBuffer() {
-    if (!AES_KEY) throw new Error('AES_256_KEY env var not set');
-    if (/^[0-9a-fA-F]{64}$/.test(AES_KEY)) return Buffer.from(AES_KEY, 'hex');
-    return Buffer.from(AES_KEY, 'base64');
-}
-
-function encryptObject(obj) {
-    const key = getAesKeyBuffer();
-    const iv = crypto.randomBytes(12);
-    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
-    const plaintext = Buffer.from(JSON.stringify(obj), 'utf8');
-    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
-    const tag = cipher.getAuthTag();
-    return { iv: iv.toString('hex'), data: encrypted.toString('hex'), tag: tag.toString('hex') };
-}
-
-function decryptObject(encryptedObj) {
-    const key = getAesKeyBuffer();
-    const iv = Buffer.from(encryptedObj.iv, 'hex');
-    const encryptedData = Buffer.from(encryptedObj.data, 'hex');
-    const tag = Buffer.from(encryptedObj.tag, 'hex');
-    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
-    decipher.setAuthTag(tag);
-    const decrypted = Buffer.concat([decipher.update(encryptedData), decipher.final()]);
-    return JSON.parse(decrypted.toString('utf8'));
-}
+const MAX_EMERGENCY_CONTACTS = 10;
+const PHONE_PATTERN = /^\+?[\d\s\-()]{10,}$/; // same rule the chaincode enforces
 
 function makeItinerarySummary(itinerary = {}) {
     const destinations = Array.isArray(itinerary.destinations)
-        ? itinerary.destinations.map(d => ({ location: d.location, startDate: d.startDate, endDate: d.endDate }))
+        ? itinerary.destinations.map(d => ({
+            location: String(d.location).trim(),
+            startDate: new Date(d.startDate).toISOString(), // ledger schema expects date-time strings
+            endDate: new Date(d.endDate).toISOString()
+        }))
         : [];
     return { destinations };
 }
 
-// Retry helper for MVCC conflicts
-async function safeSubmit(org, identity, fn, ...args) {
-    let attempt = 0;
-    while (attempt < 3) {
-        try {
-            return await submitTransaction(org, identity, fn, ...args);
-        } catch (err) {
-            if (err.transactionCode === 'MVCC_READ_CONFLICT' || (err.message && err.message.includes('MVCC_READ_CONFLICT'))) {
-                attempt++;
-                console.warn(`Retrying ${fn} due to MVCC conflict (attempt ${attempt})`);
-                await new Promise(r => setTimeout(r, 500 * attempt));
-            } else throw err;
+// ---------- Tourist Registration ----------
+// Field-level checks mirroring the chaincode schema, so the app can point at
+// the exact input instead of surfacing a ledger error. Keys are field paths.
+function validateRegistration({ expiryAt, itinerary, emergencyContacts }) {
+    const errors = {};
+    const now = new Date();
+    const maxExpiry = new Date(now);
+    maxExpiry.setFullYear(now.getFullYear() + 1);
+
+    const expiry = new Date(expiryAt);
+    if (!expiryAt || isNaN(expiry.getTime())) {
+        errors.expiryAt = 'expiryAt must be a valid date';
+    } else if (expiry <= now) {
+        errors.expiryAt = 'expiryAt must be in the future';
+    } else if (expiry > maxExpiry) {
+        errors.expiryAt = 'expiryAt cannot be more than 1 year away';
+    }
+
+    const destinations = Array.isArray(itinerary?.destinations) ? itinerary.destinations : [];
+    if (destinations.length === 0) {
+        errors['itinerary.destinations'] = 'Add at least one destination';
+    }
+    destinations.forEach((d, i) => {
+        const start = new Date(d?.startDate);
+        const end = new Date(d?.endDate);
+        if (!d?.location || !String(d.location).trim()) {
+            errors[`itinerary.destinations.${i}.location`] = 'Destination is required';
         }
+        if (!d?.startDate || isNaN(start.getTime())) {
+            errors[`itinerary.destinations.${i}.startDate`] = 'Start date must be a valid date';
+        }
+        if (!d?.endDate || isNaN(end.getTime())) {
+            errors[`itinerary.destinations.${i}.endDate`] = 'End date must be a valid date';
+        } else if (!isNaN(start.getTime()) && end < start) {
+            errors[`itinerary.destinations.${i}.endDate`] = 'End date must be on or after the start date';
+        } else if (!isNaN(expiry.getTime()) && end > expiry) {
+            errors[`itinerary.destinations.${i}.endDate`] = 'End date must be before the Digital ID expires';
+        }
+    });
+
+    const contacts = Array.isArray(emergencyContacts) ? emergencyContacts : [];
+    if (contacts.length === 0) {
+        errors.emergencyContacts = 'Add at least one emergency contact';
+    } else if (contacts.length > MAX_EMERGENCY_CONTACTS) {
+        errors.emergencyContacts = `Add at most ${MAX_EMERGENCY_CONTACTS} emergency contacts`;
     }
-    throw new Error(`MVCC conflict after ${attempt} retries`);
+    contacts.forEach((c, i) => {
+        if (!c?.name || !String(c.name).trim()) {
+            errors[`emergencyContacts.${i}.name`] = 'Name is required';
+        }
+        if (!PHONE_PATTERN.test(String(c?.phone || '').trim())) {
+            errors[`emergencyContacts.${i}.phone`] = 'Phone number must have at least 10 digits';
+        }
+    });
+
+    return errors;
 }
 
-// ---------- Tourist Registration ----------
 exports.registerTourist = async (req, res, next) => {
     try {
         const user = req.user; // Authenticated user
-        const { org = DEFAULT_ORG, identity = DEFAULT_IDENTITY, expiryAt, itinerary = {}, emergencyContacts = [], deviceId } = req.body;
+        const { org = DEFAULT_ORG, identity = DEFAULT_IDENTITY, expiryAt, itinerary = {}, deviceId } = req.body;
         const walletId = user?.walletId;
 
-        if (!walletId || !expiryAt) {
-            return res.status(400).json({ success: false, message: 'walletId and expiryAt are required' });
+        if (!walletId) {
+            return res.status(400).json({ success: false, message: 'walletId is required' });
+        }
+
+        const errors = validateRegistration({ expiryAt, itinerary, emergencyContacts: req.body.emergencyContacts });
+        if (Object.keys(errors).length > 0) {
+            return res.status(400).json({ success: false, message: 'Please correct the highlighted fields', errors });
         }
+        const emergencyContacts = normalizeEmergencyContacts(req.body.emergencyContacts);
 
         // Check primary KYC
         const primaryKyc = await KycRequest.findOne({
@@ -100,7 +130,7 @@ exports.registerTourist = async (req, res, next) => {
             return res.json({
                 success: true,
                 message: 'Tourist already registered',
-                data: { digitalId: primaryDigitalId }
+                data: { digitalId: primaryDigitalId, chainTx: existingDigitalId.chainTx }
             });
         }
 
@@ -132,7 +162,7 @@ exports.registerTourist = async (req, res, next) => {
         };
 
         // Register on blockchain - Updated for new smart contract
-        const chainRes = await safeSubmit(
+        const receipt = await safeSubmitWithReceipt(
             org,
             identity,
             'RegisterTourist',
@@ -145,8 +175,11 @@ exports.registerTourist = async (req, res, next) => {
             // JSON.stringify({ securityScore, registeredAt: new Date().toISOString() })
         );
 
-        const parsedChain = JSON.parse(chainRes.toString());
-        digitalIdData.chainTx = parsedChain;
+        digitalIdData.chainTx = {
+            txId: receipt.txId,
+            blockNumber: receipt.blockNumber,
+            timestamp: receipt.timestamp
+        };
 
         // Save in MongoDB
         const digitalIdDoc = await DigitalId.create(digitalIdData);
@@ -160,7 +193,8 @@ exports.registerTourist = async (req, res, next) => {
             data: {
                 digitalId: primaryDigitalId,
                 expiryAt: digitalIdDoc.expiryAt,
-                securityScore: digitalIdDoc.securityScore
+                securityScore: digitalIdDoc.securityScore,
+                chainTx: digitalIdDoc.chainTx
             }
         });
 
@@ -173,74 +207,215 @@ exports.registerTourist = async (req, res, next) => {
 
 
 // ---------- Location Update ----------
+const MAX_LOCATION_BATCH = 100;
+
+function normalizeLocationPoint(loc) {
+    if (!loc || typeof loc !== 'object') return null;
+    const lat = Number(loc.lat);
+    const lon = Number(loc.lon);
+    // ts is the dedupe key for retried uploads, so the server never makes one up
+    if (!loc.ts) return null;
+    const ts = new Date(loc.ts);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || isNaN(ts.getTime())) return null;
+    return {
+        lat,
+        lon,
+        speed: Number.isFinite(Number(loc.speed)) ? Number(loc.speed) : 0,
+        accuracy: Number.isFinite(Number(loc.accuracy)) ? Number(loc.accuracy) : null,
+        ts
+    };
+}
+
+// Number of documents an unordered insertMany skipped as duplicates, or 0 if
+// anything else went wrong
+function duplicateKeyCount(err) {
+    const writeErrors = err.writeErrors || [];
+    if (!writeErrors.length) return err.code === 11000 ? 1 : 0;
+    return writeErrors.every(e => (e.code ?? e.err?.code) === 11000) ? writeErrors.length : 0;
+}
+
+/**
+ * Write every ledger-pending point of a tourist (oldest first) as one
+ * RecordLocationBatch event, then clear the flag on exactly those points.
+ * A failure leaves them pending, so the next upload retries them.
+ */
+async function recordPendingLocations(touristId, { org = DEFAULT_ORG, identity = DEFAULT_IDENTITY } = {}) {
+    const pending = await Location.find({ touristId, ledgerPending: true })
+        .sort({ ts: 1 })
+        .limit(MAX_LOCATION_BATCH)
+        .lean();
+    if (!pending.length) return null;
+
+    const eventId = `LOC_${Date.now()}_${nano()}`;
+    try {
+        await safeSubmit(
+            org,
+            identity,
+            'RecordLocationBatch',
+            eventId,
+            touristId,
+            JSON.stringify({
+                deviceId: pending.at(-1).deviceId,
+                points: pending.map(p => ({
+                    lat: p.lat,
+                    lon: p.lon,
+                    speed: p.speed,
+                    accuracy: p.accuracy,
+                    ts: new Date(p.ts).toISOString(),
+                    deviceId: p.deviceId
+                }))
+            })
+        );
+    } catch (err) {
+        console.error(`[locationUpdate] ledger write failed for ${touristId}, ${pending.length} points stay pending:`, err.message);
+        return null;
+    }
+
+    await Location.updateMany(
+        { _id: { $in: pending.map(p => p._id) } },
+        { $set: { ledgerPending: false, ledgerEventId: eventId } }
+    );
+    return eventId;
+}
+
+/**
+ * Score the latest sequence and, when it is anomalous, record it on the
+ * ledger, store it and alert the authorities. Returns the anomaly or null.
+ */
+async function detectAnomaly(touristId, seq, { org, identity }) {
+    const mlResult = await mlService.analyzeSequence(touristId, seq);
+    if (!mlResult?.isAnomaly) return null;
+
+    const lastPoint = seq.at(-1);
+    const anomaly = {
+        type: 'ANOMALY',
+        score: mlResult.score,
+        ts: new Date()
+    };
+    
+    // Record anomaly on blockchain
+    const anomalyEventId = `ANOM_${Date.now()}_${nano()}`;
+    await safeSubmit(
+        org,
+        identity,
+        'RecordAnomaly',
+        anomalyEventId,
+        touristId,
+        JSON.stringify({
+            ...anomaly,
+            sequenceLength: seq.length,
+            locations: seq.slice(-5) // Store last 5 locations
+        })
+    );
+
+    await Anomaly.create({
+        touristId,
+        type: anomaly.type,
+        score: anomaly.score,
+        locations: seq // the last point is where it was flagged
+    });
+
+    // Notify authorities about anomaly
+    await NotificationService.notifyAuthorities({
+        touristId,
+        type: 'ANOMALY_DETECTED',
+        location: { lat: lastPoint.lat, lon: lastPoint.lon },
+        score: mlResult.score,
+        timestamp: new Date()
+    });
+
+    return anomaly;
+}
+
 exports.locationUpdate = async (req, res, next) => {
     try {
-          const user = req.user;
-          const touristId=user?.walletId;
+        const user = req.user;
+        const touristId = user?.walletId;
 
-          
-         const {
+        const {
             org = DEFAULT_ORG,
             identity = DEFAULT_IDENTITY,
             deviceId,
             locations
         } = req.body;
 
-        if (  !Array.isArray(locations) || locations.length !== 1) {
+        if (!touristId || !Array.isArray(locations) || locations.length === 0 || locations.length > MAX_LOCATION_BATCH) {
             return res.status(400).json({
                 success: false,
-                message: 'touristId & exactly 1 location object are required'
+                message: `touristId & between 1 and ${MAX_LOCATION_BATCH} location objects are required`
             });
         }
 
-        const loc = locations[0];
-        const ts = loc.ts ? new Date(loc.ts) : new Date();
+        const points = locations.map(normalizeLocationPoint);
+        if (points.some(p => !p)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Each location requires numeric lat, lon and a valid ts'
+            });
+        }
 
-        // Save current location
-        const locationData = new Location({
-            touristId,
-            deviceId,
-            lat: loc.lat,
-            lon: loc.lon,
-            speed: loc.speed,
-            ts
-        });
-        await locationData.save();
-
-        // Record location event on blockchain
-        const eventId = `LOC_${Date.now()}_${nano()}`;
-        const locationEvent = {
-            lat: loc.lat,
-            lon: loc.lon,
-            speed: loc.speed,
-            ts: ts.toISOString(),
-            deviceId,
-            accuracy: loc.accuracy || null
-        };
+        // Oldest first, one point per timestamp
+        points.sort((a, b) => a.ts - b.ts);
+        const unique = points.filter((p, i) => i === 0 || p.ts.getTime() !== points[i - 1].ts.getTime());
 
-        await safeSubmit(
-            org,
-            identity,
-            'RecordLocation',
-            eventId,
+        // Points already stored by an earlier (retried) upload are skipped
+        const existing = await Location.find({
             touristId,
-            JSON.stringify(locationEvent)
-        );
-
-        // Update last known location in digital ID
-        await DigitalId.updateOne(
-            { digitalId: touristId },
-            { 
-                $set: { 
-                    lastKnownLocation: {
-                        lat: loc.lat,
-                        lon: loc.lon,
-                        timestamp: ts
-                    }
-                },
-                $addToSet: { devices: { deviceId, lastActive: new Date() } }
+            ts: { $in: unique.map(p => p.ts) }
+        }).select('ts').lean();
+        const seen = new Set(existing.map(d => new Date(d.ts).getTime()));
+        const fresh = unique.filter(p => !seen.has(p.ts.getTime()));
+        let duplicates = points.length - fresh.length;
+        let accepted = fresh.length;
+
+        if (fresh.length) {
+            // Save new locations; they stay ledger-pending until the batch event commits
+            try {
+                await Location.insertMany(fresh.map(p => ({
+                    touristId,
+                    deviceId,
+                    lat: p.lat,
+                    lon: p.lon,
+                    speed: p.speed,
+                    accuracy: p.accuracy,
+                    ts: p.ts,
+                    ledgerPending: true
+                })), { ordered: false });
+            } catch (err) {
+                // A concurrent upload of the same points stored some of them first
+                const raced = duplicateKeyCount(err);
+                if (!raced) throw err;
+                accepted -= raced;
+                duplicates += raced;
             }
-        );
+        }
+
+        // Also picks up points a failed earlier upload left pending
+        const ledgerEventId = await recordPendingLocations(touristId, { org, identity });
+
+        if (fresh.length) {
+            // Update last known location in digital ID
+            const latest = fresh.at(-1);
+            await DigitalId.updateOne(
+                { digitalId: touristId },
+                { 
+                    $set: { 
+                        lastKnownLocation: {
+                            lat: latest.lat,
+                            lon: latest.lon,
+                            timestamp: latest.ts
+                        }
+                    },
+                    $addToSet: { devices: { deviceId, lastActive: new Date() } }
+                }
+            );
+            broadcast('position_updated', {
+                touristId,
+                lat: latest.lat,
+                lon: latest.lon,
+                ts: latest.ts
+            });
+        }
 
         // Get last 21 records for anomaly detection
         const recent = await Location.find({ touristId })
@@ -258,59 +433,35 @@ exports.locationUpdate = async (req, res, next) => {
 
         const lastPoint = seq.at(-1);
 
-        // Check geofence
-        const geofences = await mlService.checkGeofence({
-            touristId, 
-            lat: lastPoint.lat,
-            lon: lastPoint.lon
-        });
+        // The points are stored by now, so an ML outage must not turn this into a
+        // 5xx the client would retry forever; the checks are skipped instead
+        let geofences = [];
+        try {
+            geofences = await mlService.checkGeofence({
+                touristId, 
+                lat: lastPoint.lat,
+                lon: lastPoint.lon
+            }) || [];
+        } catch (err) {
+            console.error(`[locationUpdate] geofence check failed for ${touristId}:`, err.message);
+        }
 
         let anomaly = null;
 
-        // Run anomaly detection only if we have 21 or more points
-        if (seq.length >= 21) {
-            const mlResult = await mlService.analyzeSequence(touristId, seq);
-            if (mlResult?.isAnomaly) {
-                anomaly = {
-                    type: 'ANOMALY',
-                    score: mlResult.score,
-                    ts: new Date()
-                };
-                
-                // Record anomaly on blockchain
-                const anomalyEventId = `ANOM_${Date.now()}_${nano()}`;
-                await safeSubmit(
-                    org,
-                    identity,
-                    'RecordAnomaly',
-                    anomalyEventId,
-                    touristId,
-                    JSON.stringify({
-                        ...anomaly,
-                        sequenceLength: seq.length,
-                        locations: seq.slice(-5) // Store last 5 locations
-                    })
-                );
-
-                await Anomaly.create({
-                    touristId,
-                    details: anomaly,
-                    seq
-                });
-
-                // Notify authorities about anomaly
-                await NotificationService.notifyAuthorities({
-                    touristId,
-                    type: 'ANOMALY_DETECTED',
-                    location: { lat: lastPoint.lat, lon: lastPoint.lon },
-                    score: mlResult.score,
-                    timestamp: new Date()
-                });
+        // Run anomaly detection only if we have 21 or more points. A pure retry is
+        // analysed again only when it recovered points an earlier request left behind.
+        if (seq.length >= 21 && (fresh.length || ledgerEventId)) {
+            try {
+                anomaly = await detectAnomaly(touristId, seq, { org, identity });
+            } catch (err) {
+                console.error(`[locationUpdate] anomaly check failed for ${touristId}:`, err.message);
             }
         }
 
         return res.json({
             success: true,
+            accepted,
+            duplicates,
             anomaly,
             geofences
         });
@@ -322,10 +473,85 @@ exports.locationUpdate = async (req, res, next) => {
 };
 
 // ---------- SOS Alert ----------
+function toAlertLocation(location) {
+    if (!location) return undefined;
+    const lat = Number(location.lat ?? location.latitude);
+    const lng = Number(location.lng ?? location.lon ?? location.longitude);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return undefined;
+    return { lat, lng };
+}
+
+function readEmergencyContacts(tourist) {
+    if (!tourist.emergencyContactsEncrypted?.data) return [];
+    try {
+        return decryptObject(tourist.emergencyContactsEncrypted);
+    } catch (err) {
+        console.error(`[sosAlert] could not decrypt emergency contacts for ${tourist.digitalId}:`, err.message);
+        return [];
+    }
+}
+
+/**
+ * Run whichever SOS side effects have not happened yet. Notifications go out
+ * first and do not depend on the ledger; each step is flagged on the alert
+ * once done, so a retried request (same idempotency key) finishes the rest.
+ */
+async function completeSosAlert(sosAlert, tourist) {
+    if (!sosAlert.notifiedAt) {
+        const emergencyContacts = readEmergencyContacts(tourist);
+        for (const contact of emergencyContacts) {
+            await NotificationService.notifyEmergencyContact(
+                contact, 
+                tourist.digitalId, 
+                sosAlert.location,
+                sosAlert.message
+            );
+        }
+
+        await NotificationService.notifyAuthorities({
+            touristId: tourist.digitalId,
+            type: 'SOS_ALERT',
+            location: sosAlert.location,
+            message: sosAlert.message,
+            timestamp: new Date(),
+            emergencyContacts
+        });
+
+        sosAlert.notifiedAt = new Date();
+        await SosAlert.updateOne({ _id: sosAlert._id }, { $set: { notifiedAt: sosAlert.notifiedAt } });
+    }
+
+    if (!sosAlert.ledgerEventId) {
+        // Record SOS event on blockchain; on failure the next retry tries again
+        const eventId = `SOS_${Date.now()}_${nano()}`;
+        try {
+            await safeSubmit(
+                DEFAULT_ORG,
+                DEFAULT_IDENTITY,
+                'RecordSOS',
+                eventId,
+                tourist.digitalId,
+                JSON.stringify({
+                    alertId: sosAlert._id.toString(),
+                    location: sosAlert.location,
+                    message: sosAlert.message,
+                    deviceId: sosAlert.deviceId,
+                    ts: sosAlert.createdAt.toISOString()
+                })
+            );
+            sosAlert.ledgerEventId = eventId;
+            await SosAlert.updateOne({ _id: sosAlert._id }, { $set: { ledgerEventId: eventId } });
+        } catch (err) {
+            console.error(`[sosAlert] ledger write failed for alert ${sosAlert._id}:`, err.message);
+        }
+    }
+}
+
 exports.sosAlert = async (req, res, next) => {
     try {
         const touristId = req.user?.walletId;
         const { deviceId, location, message } = req.body;
+        const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotencyKey || null;
         
         if (!touristId) {
             return res.status(400).json({ success: false, message: 'touristId is required' });
@@ -337,67 +563,153 @@ exports.sosAlert = async (req, res, next) => {
             return res.status(404).json({ success: false, message: 'Tourist not found' });
         }
 
+        // A retried request with the same key returns the alert it already created,
+        // after finishing any step the earlier request did not get to
+        const duplicateOf = async (existing) => {
+            await completeSosAlert(existing, tourist);
+            return res.json({
+                success: true,
+                message: 'SOS alert already received',
+                alertId: existing._id,
+                duplicate: true
+            });
+        };
+
+        if (idempotencyKey) {
+            const existing = await SosAlert.findOne({ idempotencyKey, touristId });
+            if (existing) return duplicateOf(existing);
+        }
+
+        const sosLocation = toAlertLocation(location) || toAlertLocation(tourist.lastKnownLocation);
+
         // Create SOS alert
         const sosAlert = new SosAlert({
             touristId,
+            type: 'sos',
+            severity: 'critical',
             deviceId,
-            location: location || tourist.lastKnownLocation,
+            location: sosLocation,
             message,
+            idempotencyKey: idempotencyKey || undefined,
             respondedBy: null,
             responseTime: null
         });
-        await sosAlert.save();
 
-        // Record SOS event on blockchain
-        const eventId = `SOS_${Date.now()}_${nano()}`;
-        const sosEvent = {
-            
-            alertId: sosAlert._id.toString(),
-            location: location || tourist.lastKnownLocation,
-            message,
-            deviceId,
-            ts: new Date().toISOString()
-        };
+        try {
+            await sosAlert.save();
+        } catch (err) {
+            // Two concurrent retries raced past the lookup above
+            if (err.code === 11000 && idempotencyKey) {
+                const existing = await SosAlert.findOne({ idempotencyKey, touristId });
+                if (existing) return duplicateOf(existing);
+            }
+            throw err;
+        }
+
+        await completeSosAlert(sosAlert, tourist);
+
+        return res.json({
+            success: true,
+            message: 'SOS alert triggered successfully',
+            alertId: sosAlert._id
+        });
+
+    } catch (err) {
+        console.error('sosAlert error:', err);
+        return res.status(500).json({ success: false, message: err.message });
+    }
+};
+
+// ---------- Emergency Contacts ----------
+
+function normalizeEmergencyContacts(contacts) {
+    if (!Array.isArray(contacts) || contacts.length > MAX_EMERGENCY_CONTACTS) return null;
+    const normalized = [];
+    for (const c of contacts) {
+        const name = typeof c?.name === 'string' ? c.name.trim() : '';
+        const phone = typeof c?.phone === 'string' ? c.phone.trim() : '';
+        if (!name || !PHONE_PATTERN.test(phone)) return null;
+        const contact = { name, phone, relationship: (c.relationship || '').toString().trim() };
+        if (c.email) contact.email = c.email.toString().trim();
+        normalized.push(contact);
+    }
+    return normalized;
+}
+
+exports.getEmergencyContacts = async (req, res, next) => {
+    try {
+        const touristId = req.user?.walletId;
+        const tourist = await DigitalId.findOne({ digitalId: touristId });
+        if (!tourist) {
+            return res.status(404).json({ success: false, message: 'Digital ID not found' });
+        }
+
+        const contacts = tourist.emergencyContactsEncrypted?.data
+            ? decryptObject(tourist.emergencyContactsEncrypted)
+            : [];
+
+        return res.json({
+            success: true,
+            data: { contacts, updatedAt: tourist.updatedAt }
+        });
+    } catch (err) {
+        console.error('getEmergencyContacts error:', err);
+        return next(err);
+    }
+};
+
+exports.updateEmergencyContacts = async (req, res, next) => {
+    try {
+        const touristId = req.user?.walletId;
+        const contacts = normalizeEmergencyContacts(req.body.contacts);
+        if (!contacts) {
+            return res.status(400).json({
+                success: false,
+                message: `contacts must be an array of up to ${MAX_EMERGENCY_CONTACTS} entries with a name and a valid phone number`
+            });
+        }
 
+        const tourist = await DigitalId.findOne({ digitalId: touristId });
+        if (!tourist) {
+            return res.status(404).json({ success: false, message: 'Digital ID not found' });
+        }
+
+        // Keep the ledger copy in step with the encrypted one
         await safeSubmit(
             DEFAULT_ORG,
             DEFAULT_IDENTITY,
-            'RecordSOS',
-            eventId,
+            'UpdateTourist',
             touristId,
-            JSON.stringify(sosEvent)
+            JSON.stringify({ emergencyContacts: contacts })
         );
 
-        // Notify emergency contacts
-        const emergencyContacts = decryptObject(tourist.emergencyContactsEncrypted);
-        for (const contact of emergencyContacts) {
-            await NotificationService.notifyEmergencyContact(
-                contact, 
-                touristId, 
-                location || tourist.lastKnownLocation,
-                message
-            );
-        }
-
-        // Notify authorities
-        await NotificationService.notifyAuthorities({
-            touristId,
-            type: 'SOS_ALERT',
-            location: location || tourist.lastKnownLocation,
-            message,
-            timestamp: new Date(),
-            emergencyContacts
-        });
+        tourist.emergencyContactsEncrypted = encryptObject(contacts);
+        await tourist.save();
 
         return res.json({
             success: true,
-            message: 'SOS alert triggered successfully',
-            alertId: sosAlert._id
+            message: 'Emergency contacts updated',
+            data: { contacts, updatedAt: tourist.updatedAt }
         });
+    } catch (err) {
+        console.error('updateEmergencyContacts error:', err);
+        return next(err);
+    }
+};
+
+// ---------- Geofences ----------
+exports.getGeofences = async (req, res) => {
+    try {
+        const { version, geofences } = await geofenceService.listGeofences();
+        // Clients send the version they hold; skip the payload when it is current
+        if (req.query.version && String(req.query.version) === String(version)) {
+            return res.json({ success: true, data: { version, changed: false } });
+        }
 
+        res.json({ success: true, data: { version, changed: true, geofences } });
     } catch (err) {
-        console.error('sosAlert error:', err);
-        return res.status(500).json({ success: false, message: err.message });
+        console.error('Get geofences error:', err);
+        res.status(503).json({ success: false, message: 'Geofences are temporarily unavailable' });
     }
 };
 
@@ -451,11 +763,58 @@ exports.submitFeedback = async (req, res, next) => {
 };
 
 // ---------- File e-FIR ----------
+const INCIDENT_TYPES = ['theft', 'assault', 'harassment', 'lost', 'medical', 'accident', 'fraud', 'other'];
+
+// Multipart bodies carry nested objects as JSON strings
+const parseMultipartJson = (value) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    return undefined;
+  }
+};
+
+// Record the filed e-FIR on the ledger; on failure it stays ledger-pending and
+// a retry of the same report tries again
+async function recordEfirOnLedger(efir) {
+  if (!efir.ledgerPending) return;
+
+  const eventId = `EFIR_${Date.now()}_${nano()}`;
+  const efirEvent = {
+    efirId: efir.efirId,
+    incidentType: efir.incidentType,
+    incidentDetails: efir.incidentDetails,
+    location: efir.location,
+    dateTime: efir.dateTime.toISOString(),
+    ts: new Date().toISOString(),
+    attachments: efir.attachments
+  };
+
+  try {
+    const receipt = await safeSubmitWithReceipt(
+      DEFAULT_ORG,
+      DEFAULT_IDENTITY,
+      'RecordEFIR',
+      eventId,
+      efir.touristId,
+      JSON.stringify(efirEvent)
+    );
+    efir.ledger = { eventId, txId: receipt.txId, blockNumber: receipt.blockNumber, recordedAt: receipt.timestamp };
+    efir.ledgerPending = false;
+    await EFIR.updateOne({ _id: efir._id }, { $set: { ledger: efir.ledger, ledgerPending: false } });
+  } catch (err) {
+    console.error(`[fileEFIR] ledger write failed for ${efir.efirId}:`, err.message);
+  }
+}
+
 exports.fileEFIR = async (req, res, next) => {
   try {
     const touristId = req.user?.walletId;
-    const { incidentDetails, location, dateTime } = req.body;
-    const evidenceFile = req.file; // optional
+    const { incidentDetails, incidentType = 'other', dateTime } = req.body;
+    const location = parseMultipartJson(req.body.location);
+    const evidenceFiles = req.files || []; // optional
+    const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotencyKey || null;
 
     if (!touristId || !incidentDetails) {
       return res.status(400).json({ 
@@ -464,50 +823,72 @@ exports.fileEFIR = async (req, res, next) => {
       });
     }
 
+    if (!INCIDENT_TYPES.includes(incidentType)) {
+      return res.status(400).json({ success: false, message: `incidentType must be one of: ${INCIDENT_TYPES.join(', ')}` });
+    }
+
+    if (req.body.location && (!location || typeof location !== 'object')) {
+      return res.status(400).json({ success: false, message: 'Invalid location format' });
+    }
+
     const dateTimeObj = dateTime ? new Date(dateTime) : new Date();
     if (isNaN(dateTimeObj.getTime())) {
       return res.status(400).json({ success: false, message: 'Invalid dateTime format' });
     }
 
-    const efirId = `EFIR_${Date.now()}`;
+    // A resubmitted report with the same key returns the e-FIR it already created
+    const duplicateOf = async (existing) => {
+      await recordEfirOnLedger(existing);
+      return res.json({
+        success: true,
+        message: 'e-FIR already filed',
+        efirId: existing.efirId,
+        attachments: existing.attachments,
+        duplicate: true
+      });
+    };
+
+    if (idempotencyKey) {
+      const existing = await EFIR.findOne({ idempotencyKey, touristId });
+      if (existing) return duplicateOf(existing);
+    }
+
+    const efirId = `EFIR_${Date.now()}_${nano()}`;
+    const attachments = evidenceFiles.map(file => file.path);
 
     const efir = new EFIR({
       touristId,
       efirId,
+      idempotencyKey: idempotencyKey || undefined,
+      incidentType,
       incidentDetails,
       location,
       dateTime: dateTimeObj,
       status: 'submitted',
       assignedTo: null,
       resolution: null,
-      evidence: evidenceFile ? evidenceFile.path : null // save file path if uploaded
+      attachments, // Cloudinary URLs of the uploaded evidence
+      ledgerPending: true
     });
 
-    await efir.save();
-
-    const eventId = `EFIR_${Date.now()}_${nano()}`;
-    const efirEvent = {
-      efirId: efir.efirId,
-      incidentDetails: typeof incidentDetails === 'string' ? incidentDetails : JSON.stringify(incidentDetails),
-      location,
-      dateTime: dateTimeObj.toISOString(),
-      ts: new Date().toISOString(),
-      evidence: evidenceFile ? evidenceFile.originalname : null
-    };
+    try {
+      await efir.save();
+    } catch (err) {
+      // Two concurrent resubmits raced past the lookup above
+      if (err.code === 11000 && idempotencyKey) {
+        const existing = await EFIR.findOne({ idempotencyKey, touristId });
+        if (existing) return duplicateOf(existing);
+      }
+      throw err;
+    }
 
-    await safeSubmit(
-      DEFAULT_ORG,
-      DEFAULT_IDENTITY,
-      'RecordEFIR',
-      eventId,
-      touristId,
-      JSON.stringify(efirEvent)
-    );
+    await recordEfirOnLedger(efir);
 
     return res.json({
       success: true,
       message: 'e-FIR filed successfully',
-      efirId: efir.efirId
+      efirId: efir.efirId,
+      attachments
     });
 
   } catch (err) {
@@ -516,6 +897,278 @@ exports.fileEFIR = async (req, res, next) => {
   }
 };
 
+// ---------- My Digital ID (tourist) ----------
+function maskIdNumber(idNumber = '') {
+    const raw = String(idNumber).replace(/^PASSPORT-/, '');
+    return raw.length > 4 ? `${'•'.repeat(raw.length - 4)}${raw.slice(-4)}` : raw;
+}
+
+// The ledger has no 'registered' state; a registered ID is active on-chain
+function toLedgerStatus(status) {
+    return status === 'registered' ? 'active' : status;
+}
+
+async function evaluateJson(fn, ...args) {
+    const result = await evaluateTransaction(DEFAULT_ORG, DEFAULT_IDENTITY, fn, ...args);
+    return JSON.parse(result.toString());
+}
+
+exports.getMyDigitalId = async (req, res, next) => {
+    try {
+        const touristId = req.user?.walletId;
+        const digitalId = await DigitalId.findOne({ digitalId: touristId });
+        if (!digitalId) {
+            return res.status(404).json({ success: false, message: 'Digital ID not found' });
+        }
+
+        const kyc = digitalId.kycRequestId ? await KycRequest.findById(digitalId.kycRequestId).lean() : null;
+        const itinerary = digitalId.itineraryEncrypted?.data
+            ? decryptObject(digitalId.itineraryEncrypted)
+            : digitalId.itinerarySummary;
+
+        // The ledger may be unreachable; the rest of the ID is still useful
+        let ledger = null;
+        try {
+            const verified = await evaluateJson('VerifyTourist', touristId);
+            ledger = { valid: verified.valid, status: verified.status, expiryAt: verified.expiryAt, verifiedAt: verified.verifiedAt };
+        } catch (err) {
+            console.warn('VerifyTourist unavailable:', err.message);
+        }
+
+        return res.json({
+            success: true,
+            data: {
+                digitalId: digitalId.digitalId,
+                status: digitalId.status,
+                expiryAt: digitalId.expiryAt,
+                createdAt: digitalId.createdAt,
+                securityScore: digitalId.securityScore,
+                chainTx: digitalId.chainTx,
+                holder: kyc ? {
+                    name: kyc.payload?.name,
+                    dob: kyc.payload?.dob,
+                    idType: kyc.payload?.idType,
+                    idNumber: maskIdNumber(kyc.payload?.idNumber)
+                } : { name: req.user.name },
+                itinerary,
+                lastKnownLocation: digitalId.lastKnownLocation,
+                ledger
+            }
+        });
+    } catch (err) {
+        console.error('getMyDigitalId error:', err);
+        return res.status(500).json({ success: false, message: err.message });
+    }
+};
+
+// Re-read the on-chain record and compare it field by field with ours
+exports.verifyMyDigitalId = async (req, res, next) => {
+    try {
+        const touristId = req.user?.walletId;
+        const digitalId = await DigitalId.findOne({ digitalId: touristId });
+        if (!digitalId) {
+            return res.status(404).json({ success: false, message: 'Digital ID not found' });
+        }
+
+        let onChain;
+        try {
+            onChain = await evaluateJson('GetTourist', touristId);
+        } catch (err) {
+            return res.status(503).json({ success: false, message: `Ledger unavailable: ${err.message}` });
+        }
+
+        const sameInstant = (a, b) => a && b && new Date(a).getTime() === new Date(b).getTime();
+        const summarize = (destinations = []) => destinations
+            .map(d => `${d.location}|${new Date(d.startDate).toISOString()}|${new Date(d.endDate).toISOString()}`)
+            .join(';');
+        const contactKey = (contacts = []) => contacts.map(c => `${c.name}|${c.phone}`).sort().join(';');
+        const localContacts = digitalId.emergencyContactsEncrypted?.data
+            ? decryptObject(digitalId.emergencyContactsEncrypted)
+            : [];
+
+        const checks = [
+            {
+                field: 'kycHash',
+                label: 'KYC fingerprint',
+                match: onChain.kycHash === digitalId.kycHash
+            },
+            {
+                field: 'status',
+                label: 'Status',
+                local: toLedgerStatus(digitalId.status),
+                ledger: onChain.status,
+                match: toLedgerStatus(digitalId.status) === onChain.status
+            },
+            {
+                field: 'expiryAt',
+                label: 'Expiry',
+                local: digitalId.expiryAt,
+                ledger: onChain.expiryAt,
+                match: Boolean(sameInstant(digitalId.expiryAt, onChain.expiryAt))
+            },
+            {
+                field: 'itinerary',
+                label: 'Itinerary',
+                match: summarize(digitalId.itinerarySummary?.destinations) === summarize(onChain.itinerary?.destinations)
+            },
+            {
+                field: 'emergencyContacts',
+                label: 'Emergency contacts',
+                match: contactKey(localContacts) === contactKey(onChain.emergencyContacts)
+            }
+        ];
+
+        return res.json({
+            success: true,
+            data: {
+                match: checks.every(c => c.match),
+                checks,
+                ledgerVersion: onChain.metadata?.version,
+                checkedAt: new Date().toISOString()
+            }
+        });
+    } catch (err) {
+        console.error('verifyMyDigitalId error:', err);
+        return res.status(500).json({ success: false, message: err.message });
+    }
+};
+
+// ---------- QR Credential ----------
+const CREDENTIAL_STATUSES = ['registered', 'active'];
+
+// The first image uploaded with the KYC request is the holder's photo
+function findKycPhoto(kyc) {
+    return (kyc?.documents || []).find(d => d.mimetype?.startsWith('image/'))?.url || null;
+}
+
+const PHOTO_FETCH_TIMEOUT_MS = 10000;
+
+// SHA-256 of the photo's bytes, so the claim pins the image itself rather than its URL
+async function hashKycPhoto(url) {
+    if (!url) return null;
+    try {
+        const { data } = await axios.get(url, { responseType: 'arraybuffer', timeout: PHOTO_FETCH_TIMEOUT_MS });
+        return crypto.createHash('sha256').update(Buffer.from(data)).digest('hex');
+    } catch (err) {
+        console.error(`[credential] KYC photo ${url} unavailable:`, err.message);
+        return null;
+    }
+}
+
+exports.issueCredential = async (req, res) => {
+    try {
+        const touristId = req.user?.walletId;
+        const digitalId = await DigitalId.findOne({ digitalId: touristId });
+        if (!digitalId) {
+            return res.status(404).json({ success: false, message: 'Digital ID not found' });
+        }
+        if (!CREDENTIAL_STATUSES.includes(digitalId.status) || digitalId.expiryAt < new Date()) {
+            return res.status(403).json({ success: false, message: `Digital ID is ${digitalId.status}` });
+        }
+
+        const kyc = digitalId.kycRequestId ? await KycRequest.findById(digitalId.kycRequestId).lean() : null;
+        const photoHash = await hashKycPhoto(findKycPhoto(kyc));
+
+        // Claim names are kept short so the QR code stays easy to scan
+        const credential = CredentialService.issueCredential(digitalId.digitalId, {
+            name: kyc?.payload?.name || req.user.name,
+            photoHash,
+            status: toLedgerStatus(digitalId.status),
+            idExp: Math.floor(digitalId.expiryAt.getTime() / 1000),
+            tx: digitalId.chainTx?.txId ? { id: digitalId.chainTx.txId, block: digitalId.chainTx.blockNumber } : null
+        });
+
+        return res.json({ success: true, data: credential });
+    } catch (err) {
+        console.error('issueCredential error:', err);
+        return res.status(500).json({ success: false, message: err.message });
+    }
+};
+
+exports.getCredentialKeys = (req, res) => {
+    res.set('Cache-Control', 'public, max-age=3600');
+    return res.json(CredentialService.getJwks());
+};
+
+function recordVerification(req, claims, result) {
+    const { method, location } = req.body || {};
+    return Verification.create({
+        touristId: claims?.sub,
+        credentialId: claims?.jti,
+        officer: { userId: req.user._id, name: req.user.name, email: req.user.email },
+        method: method === 'paste' ? 'paste' : 'scan',
+        location: location && {
+            lat: Number(location.lat) || undefined,
+            lng: Number(location.lng) || undefined,
+            checkpoint: location.checkpoint
+        },
+        valid: result.valid,
+        signatureValid: result.signatureValid,
+        reason: result.reason,
+        ledgerStatus: result.ledger?.status
+    }).catch(err => console.error('Verification audit failed:', err.message));
+}
+
+// Signature check plus a live revocation check against the ledger.
+// Every attempt, accepted or not, is written to the audit trail.
+exports.verifyCredential = async (req, res) => {
+    const { token } = req.body || {};
+    if (!token) {
+        return res.status(400).json({ success: false, message: 'token is required' });
+    }
+
+    let claims;
+    try {
+        claims = CredentialService.verifyCredential(token);
+    } catch (err) {
+        const result = {
+            valid: false,
+            signatureValid: false,
+            reason: err.name === 'TokenExpiredError' ? 'Credential expired' : 'Invalid signature'
+        };
+        await recordVerification(req, CredentialService.decodeCredential(token), result);
+        return res.json({ success: true, data: result });
+    }
+
+    let ledger;
+    try {
+        ledger = await evaluateJson('VerifyTourist', claims.sub);
+    } catch (err) {
+        await recordVerification(req, claims, { valid: false, signatureValid: true, reason: 'Ledger unavailable' });
+        return res.status(503).json({ success: false, message: `Ledger unavailable: ${err.message}` });
+    }
+
+    try {
+        const digitalId = await DigitalId.findOne({ digitalId: claims.sub }).lean();
+        const kyc = digitalId?.kycRequestId ? await KycRequest.findById(digitalId.kycRequestId).lean() : null;
+        const photoUrl = findKycPhoto(kyc);
+
+        const photoHash = claims.photoHash ? await hashKycPhoto(photoUrl) : null;
+
+        let reason = null;
+        if (!ledger.valid) reason = `Digital ID is ${ledger.status} on the ledger`;
+        else if (claims.photoHash && photoUrl && !photoHash) reason = 'Photo could not be loaded to check against the credential';
+        else if (claims.photoHash && photoHash !== claims.photoHash) reason = 'Photo does not match the credential';
+
+        const result = { valid: !reason, signatureValid: true, reason, ledger };
+        const audit = await recordVerification(req, claims, result);
+
+        return res.json({
+            success: true,
+            data: {
+                ...result,
+                claims,
+                photoUrl,
+                itinerary: digitalId?.itinerarySummary || null,
+                verificationId: audit?._id
+            }
+        });
+    } catch (err) {
+        console.error('verifyCredential error:', err);
+        return res.status(500).json({ success: false, message: err.message });
+    }
+};
+
 // ---------- Verify Tourist (for authorities) ----------
 exports.verifyTourist = async (req, res, next) => {
     try {
@@ -628,32 +1281,25 @@ exports.updateTouristStatus = async (req, res, next) => {
 };
 
 // ---------- Respond to SOS (for authorities) ----------
+// Goes through AlertService so the lifecycle rules and status history apply
 exports.respondToSOS = async (req, res, next) => {
     try {
-        const { alertId, response, officerId } = req.body;
+        const { alertId, response, officerId, etaMinutes, status = 'acknowledged' } = req.body;
         
-        if (!alertId || !officerId) {
-            return res.status(400).json({ success: false, message: 'alertId and officerId are required' });
+        if (!alertId) {
+            return res.status(400).json({ success: false, message: 'alertId is required' });
         }
 
-        const sosAlert = await SosAlert.findById(alertId);
-        if (!sosAlert) {
-            return res.status(404).json({ success: false, message: 'SOS alert not found' });
+        const eta = Number(etaMinutes);
+        if (etaMinutes != null && (!Number.isFinite(eta) || eta < 0)) {
+            return res.status(400).json({ success: false, message: 'etaMinutes must be a non-negative number' });
         }
 
-        sosAlert.status = 'responded';
-        sosAlert.respondedBy = officerId;
-        sosAlert.responseTime = new Date() - sosAlert.createdAt;
-        sosAlert.responseDetails = response;
-
-        await sosAlert.save();
-
-        // Notify tourist that help is on the way
-        await NotificationService.notifyTourist({
-            touristId: sosAlert.touristId,
-            type: 'SOS_RESPONSE',
-            message: `Help is on the way. ${response}`,
-            officerId
+        const sosAlert = await AlertService.respond(alertId, req.user, {
+            status,
+            response,
+            officerId,
+            eta: etaMinutes != null ? new Date(Date.now() + eta * 60 * 1000) : null
         });
 
         return res.json({
@@ -663,7 +1309,27 @@ exports.respondToSOS = async (req, res, next) => {
         });
 
     } catch (err) {
-        console.error('respondToSOS error:', err);
+        if (!err.status) console.error('respondToSOS error:', err);
+        return res.status(err.status || 500).json({ success: false, message: err.message });
+    }
+};
+
+// ---------- My SOS Alerts (tourist) ----------
+// Lets the app catch up on status changes it missed while disconnected
+exports.getMySosAlerts = async (req, res) => {
+    try {
+        const touristId = req.user?.walletId;
+        if (!touristId) {
+            return res.status(400).json({ success: false, message: 'touristId is required' });
+        }
+
+        const alerts = await SosAlert.find({ touristId, type: 'sos' })
+            .sort({ createdAt: -1 })
+            .limit(20);
+
+        return res.json({ success: true, data: alerts.map(NotificationService.toSosStatus) });
+    } catch (err) {
+        console.error('getMySosAlerts error:', err);
         return res.status(500).json({ success: false, message: err.message });
     }
 };
@@ -1,6 +1,7 @@
 'use strict';
 const jwt = require('jsonwebtoken');
 const User = require('../models/user.model');
+const { PERMISSIONS } = require('../config/permissions');
 
 /**
  * Auth middleware: verifies JWT and attaches user document to req.user
@@ -60,3 +61,12 @@ exports.requireRole = (allowed = []) => {
     }
   };
 };
+
+/**
+ * Role check for a named Dashboard area, see config/permissions.js
+ * @param {string} permission - key of PERMISSIONS
+ */
+exports.requirePermission = (permission) => {
+  if (!PERMISSIONS[permission]) throw new Error(`Unknown permission: ${permission}`);
+  return exports.requireRole(PERMISSIONS[permission]);
+};
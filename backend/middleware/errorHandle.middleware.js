@@ -3,6 +3,7 @@ const logger = require('../utils/logger');
 
 module.exports = (err, req, res, next) => {
   logger.error(err.stack || err.message || err);
-  const status = err.status || 500;
+  // Upload limits (file size, file count) are client errors
+  const status = err.status || (err.name === 'MulterError' ? 400 : 500);
   res.status(status).json({ success: false, message: err.message || 'Internal Server Error' });
 };
@@ -0,0 +1,26 @@
+'use strict';
+const { CloudinaryStorage } = require('multer-storage-cloudinary');
+const multer = require('multer');
+const cloudinary = require('../config/cloudinary');
+
+const MAX_EVIDENCE_FILES = 5;
+const MAX_EVIDENCE_SIZE = 50 * 1024 * 1024; // 50 MB per file
+
+// e-FIR evidence: photos, videos and voice notes. Cloudinary picks the
+// resource type per file, so videos and audio are not run through the
+// image transformations used for KYC documents.
+const storage = new CloudinaryStorage({
+  cloudinary,
+  params: {
+    folder: 'efir_evidence',
+    resource_type: 'auto',
+    allowed_formats: ['jpg', 'jpeg', 'png', 'heic', 'mp4', 'mov', '3gp', 'm4a', 'mp3', 'aac', 'wav'],
+  },
+});
+
+const evidenceParser = multer({
+  storage,
+  limits: { fileSize: MAX_EVIDENCE_SIZE, files: MAX_EVIDENCE_FILES },
+});
+
+module.exports = evidenceParser;
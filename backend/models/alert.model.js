@@ -7,12 +7,43 @@ const alertSchema = new mongoose.Schema({
   type: { type: String, default: 'anomaly' }, // anomaly, sos, eFIR, geofence
   message: String,
   location: { lat: Number, lng: Number },
+  idempotencyKey: String, // client key so retried SOS requests map to one alert
+  deviceId: String,
+  notifiedAt: Date, // emergency contacts and authorities told about the SOS
+  ledgerEventId: String, // RecordSOS event, unset until the ledger write succeeds
   handledBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
   acceptedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }, // New field
   status: { type: String, enum: ['open','acknowledged','accepted','resolved'], default: 'open' }, // Added 'accepted'
+  severity: { type: String, enum: ['low', 'medium', 'high', 'critical'], default: 'medium' },
+  resolution: String, // note left by the officer who resolved it
+  // Every lifecycle transition, oldest first
+  statusHistory: [{
+    action: String, // acknowledge, accept, release, reassign, escalate, resolve, reopen, respond, note
+    from: String,
+    to: String,
+    severity: String,
+    by: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    byName: String,
+    assignee: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    note: String,
+    at: { type: Date, default: Date.now }
+  }],
   createdAt: { type: Date, default: Date.now },
   acceptedAt: Date, // New field
+  respondedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  responder: { name: String, phone: String, officerId: String }, // shown to the tourist
+  responseDetails: String,
+  responseTime: Number, // ms from creation to first response
+  eta: Date,
+  respondedAt: Date,
+  resolvedAt: Date,
   updatedAt: Date
 });
 
+// Keys are generated per device, so they only have to be unique per tourist
+alertSchema.index(
+  { touristId: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+
 module.exports = mongoose.model('Alert', alertSchema);
\ No newline at end of file
@@ -4,6 +4,8 @@ const mongoose = require('mongoose');
 const EFIRSchema = new mongoose.Schema({
   efirId: { type: String, unique: true },
   touristId: { type: String, required: true },
+  idempotencyKey: String, // client key so a resubmitted report maps to one e-FIR
+  incidentType: { type: String, default: 'other' },
   incidentDetails: { type: String, required: true },
   location: {
     latitude: Number,
@@ -13,12 +15,37 @@ const EFIRSchema = new mongoose.Schema({
   dateTime: { type: Date, default: Date.now },
   attachments: [String],
   status: { type: String, enum: ['submitted', 'under_review', 'resolved'], default: 'submitted' },
-  assignedTo: { type: String, default: null },
+  assignedTo: { type: String, default: null }, // User _id of the investigating officer
   resolution: { type: String, default: null },
+  resolvedAt: Date,
+  // Where the RecordEFIR event landed, so an exported case file can be checked against the ledger
+  ledger: {
+    eventId: String,
+    txId: String,
+    blockNumber: Number,
+    recordedAt: Date
+  },
+  ledgerPending: { type: Boolean, default: false }, // RecordEFIR not yet accepted by the ledger
+  // Every case transition, oldest first; txId is set once the ledger accepts the event
+  statusHistory: [{
+    action: String, // assign, resolve, reopen
+    from: String,
+    to: String,
+    by: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    byName: String,
+    assignee: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    note: String,
+    txId: String,
+    at: { type: Date, default: Date.now }
+  }],
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now }
 });
 
+EFIRSchema.index(
+  { touristId: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
 
 // Update `updatedAt` on every save
 EFIRSchema.pre('save', function(next) {
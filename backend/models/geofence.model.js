@@ -0,0 +1,18 @@
+'use strict';
+const mongoose = require('mongoose');
+
+// Zones drawn on the Dashboard. The ML service only holds a copy that the backend pushes to it.
+const geofenceSchema = new mongoose.Schema({
+  name: { type: String, required: true, trim: true },
+  type: { type: String, enum: ['circle', 'polygon'], required: true },
+  center: { type: [Number], default: undefined }, // [lat, lon]
+  radius: Number, // meters
+  vertices: { type: [[Number]], default: undefined }, // [[lat, lon], ...]
+  restricted: { type: Boolean, default: false },
+  severity: { type: String, enum: ['low', 'medium', 'high', 'critical'], default: 'medium' },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  deletedAt: Date // kept so the set version still moves forward after a delete
+}, { timestamps: true });
+
+module.exports = mongoose.model('Geofence', geofenceSchema);
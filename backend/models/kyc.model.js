@@ -16,6 +16,7 @@ const kycSchema = new mongoose.Schema({
   autoResult: { type: Object },
   reviewerId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }, 
   reviewComment: String,
+  reviewedAt: Date,
   createdAt: { type: Date, default: Date.now },
   updatedAt: Date
 });
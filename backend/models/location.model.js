@@ -8,7 +8,14 @@ const locationSchema = new mongoose.Schema({
   lon: Number,
   speed: Number,
   accuracy: Number,
-  ts: { type: Date, index: true }
+  ts: { type: Date, index: true },
+  // Stored before the ledger write; cleared once a RecordLocationBatch event covers the point
+  ledgerPending: { type: Boolean, default: false },
+  ledgerEventId: String
 });
 
+// One point per tourist and timestamp, however many uploads of it race
+locationSchema.index({ touristId: 1, ts: 1 }, { unique: true });
+locationSchema.index({ touristId: 1, ledgerPending: 1 });
+
 module.exports = mongoose.model('Location', locationSchema);
@@ -0,0 +1,22 @@
+'use strict';
+const mongoose = require('mongoose');
+
+// Audit trail of QR credential checks made by officers
+const verificationSchema = new mongoose.Schema({
+  touristId: { type: String, index: true }, // from the credential, even when the signature failed
+  credentialId: String, // jti of the scanned credential
+  officer: {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    name: String,
+    email: String
+  },
+  method: { type: String, enum: ['scan', 'paste'], default: 'scan' },
+  location: { lat: Number, lng: Number, checkpoint: String },
+  valid: Boolean,
+  signatureValid: Boolean,
+  reason: String,
+  ledgerStatus: String,
+  createdAt: { type: Date, default: Date.now, index: true }
+});
+
+module.exports = mongoose.model('Verification', verificationSchema);
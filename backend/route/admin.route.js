@@ -1,29 +1,21 @@
 'use strict';
 const router = require('express').Router();
 const adminController = require('../controller/admin.controller.js');
-const { auth, requireRole } = require('../middleware/auth.middleware');
-const alertModel = require('../models/alert.model.js');
+const { auth, requireRole, requirePermission } = require('../middleware/auth.middleware');
 
 
-router.get('/users', auth, requireRole(['admin']), adminController.listUsers);
-router.delete('/user/:id', auth, requireRole(['admin']), adminController.deleteUser);
-router.patch('/user/:id/roles', auth, requireRole(['admin']), adminController.assignRole);
+// Tourism and issuer staff get the tourist directory; only admins see every account
+router.get('/users', auth, requirePermission('tourists'), adminController.listUsers);
+router.delete('/user/:id', auth, requirePermission('users'), adminController.deleteUser);
+router.patch('/user/:id/roles', auth, requirePermission('users'), adminController.assignRole);
+
+// Geofence management; the backend is the source of truth and pushes changes to the ML service
+router.post('/geofences', auth, requirePermission('geofences'), adminController.createGeofence);
+router.patch('/geofences/:id', auth, requirePermission('geofences'), adminController.updateGeofence);
+router.delete('/geofences/:id', auth, requirePermission('geofences'), adminController.deleteGeofence);
 
 //for debuging purpose;
 
 router.delete('/users/clean', auth, requireRole(['admin']), adminController.cleanUsers);
 
-
-
-router.get('/alerts', auth, requireRole(['tourist', 'authority']), async (req, res) => {
-  try {
-    const alerts = await alertModel.find().sort({ createdAt: -1 }).limit(100);
-    res.json({ success: true, alerts });
-  } catch (err) {
-    res.status(500).json({ success: false, message: err.message });
-  }
-});
-
-
-
 module.exports = router;
@@ -2,12 +2,27 @@
 const express = require('express');
 const router = express.Router();
 const alertController = require('../controller/alert.controller'); // notice "controllers" folder
-const { auth } = require('../middleware/auth.middleware'); // your auth middleware
+const { auth, requirePermission } = require('../middleware/auth.middleware'); // your auth middleware
+
+const officer = [auth, requirePermission('alerts')];
 
 // Get all alerts
-router.get('/', auth, alertController.getAlerts);
+router.get('/', ...officer, alertController.getAlerts);
+
+// Responder view of one alert, and free-text notes on its timeline
+router.get('/:alertId/details', ...officer, alertController.getAlertDetails);
+router.post('/:alertId/notes', ...officer, alertController.addAlertNote);
+
+// Officers an alert can be reassigned to
+router.get('/officers', ...officer, alertController.getOfficers);
 
-// Accept an alert
-router.patch('/:alertId/accept', auth, alertController.acceptAlert);
+// Lifecycle: open -> acknowledged -> accepted -> resolved, see services/alertService.js
+router.patch('/:alertId/acknowledge', ...officer, alertController.acknowledgeAlert);
+router.patch('/:alertId/accept', ...officer, alertController.acceptAlert);
+router.patch('/:alertId/release', ...officer, alertController.releaseAlert);
+router.patch('/:alertId/reassign', ...officer, alertController.reassignAlert);
+router.patch('/:alertId/escalate', ...officer, alertController.escalateAlert);
+router.patch('/:alertId/resolve', ...officer, alertController.resolveAlert);
+router.patch('/:alertId/reopen', ...officer, alertController.reopenAlert);
 
 module.exports = router;
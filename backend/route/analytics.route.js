@@ -0,0 +1,16 @@
+'use strict';
+const express = require('express');
+const router = express.Router();
+const analyticsController = require('../controller/analytics.controller');
+const { auth, requirePermission } = require('../middleware/auth.middleware');
+
+const officer = [auth, requirePermission('analytics')];
+
+// Dashboard charts; every endpoint takes ?from=&to= and returns daily or per-status counts
+router.get('/alerts-per-day', officer, analyticsController.alertsPerDay);
+router.get('/response-times', officer, analyticsController.responseTimes);
+router.get('/active-tourists', officer, analyticsController.activeTourists);
+router.get('/kyc-outcomes', officer, analyticsController.kycOutcomes);
+router.get('/efirs-by-status', officer, analyticsController.efirsByStatus);
+
+module.exports = router;
@@ -1,7 +1,7 @@
 'use strict';
 const router = require('express').Router();
 const kycController = require('../controller/kyc.controller.js');
-const { auth, requireRole } = require('../middleware/auth.middleware');
+const { auth, requireRole, requirePermission } = require('../middleware/auth.middleware');
 const parser = require('../middleware/upload.middleware.js'); // multer cloudinary
 
 
@@ -21,13 +21,19 @@ router.post(
 // Verify OTP for submitted KYC
 router.post('/verify-otp', auth, requireRole(['tourist']), kycController.verifyOtpKyc);
 
+// Resend the OTP for a pending request (rate limited per request)
+router.post('/resend-otp', auth, requireRole(['tourist']), kycController.resendOtp);
+
+// Caller's KYC status and latest request
+router.get('/me', auth, requireRole(['tourist']), kycController.getMine);
+
 // -------------------- Admin / Tourism Dept Routes --------------------
 
 // View pending KYC requests
 router.get(
   '/pending',
   auth,
-  requireRole(['tourism', 'issuer', 'admin']),
+  requirePermission('kyc'),
   kycController.listPending
 );
 
@@ -35,11 +41,11 @@ router.get(
 router.patch(
   '/review/:requestId',
   auth,
-  requireRole(['tourism', 'issuer', 'admin']),
+  requirePermission('kyc'),
   kycController.review
 );
 
 // View latest KYC by touristId (walletId)
-router.get('/tourist/:touristId', auth, kycController.getByTourist);
+router.get('/tourist/:touristId', auth, requirePermission('kyc'), kycController.getByTourist);
 
 module.exports = router;
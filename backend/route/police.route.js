@@ -2,14 +2,30 @@
 
 const router = require("express").Router();
 const policeController = require("../controller/police.controller.js");
-const { auth } = require("../middleware/auth.middleware.js");
+const { auth, requirePermission } = require("../middleware/auth.middleware.js");
 
 // Police can fetch all active tourists
-router.get("/active",  auth, policeController.getActiveTourists);
+router.get("/active", auth, requirePermission("map"), policeController.getActiveTourists);
 
 // Police can fetch historical movement / anomaly records for a tourist
-router.get("/history/:touristId", auth, policeController.getTouristHistory);
-router.get("/efirs",auth, policeController.getEfirs)
-router.get("/efirs/:id", auth,policeController.getEfirById)
+router.get("/history/:touristId", auth, requirePermission("map"), policeController.getTouristHistory);
+router.get("/efirs", auth, requirePermission("efir"), policeController.getEfirs);
+router.get("/efirs/:id", auth, requirePermission("efir"), policeController.getEfirById);
+
+// e-FIR case workflow: assign (starts the review), resolve, reopen
+router.patch("/efirs/:id/assign", auth, requirePermission("efir"), policeController.assignEfir);
+router.patch("/efirs/:id/resolve", auth, requirePermission("efir"), policeController.resolveEfir);
+router.patch("/efirs/:id/reopen", auth, requirePermission("efir"), policeController.reopenEfir);
+router.get("/efirs/:id/export", auth, requirePermission("efir"), policeController.exportEfir);
+
+// Audit trail of Digital ID QR checks
+router.get("/verifications", auth, requirePermission("verify"), policeController.getVerifications);
+
+// Live map: latest position per tourist and a tourist's recent trail
+router.get("/positions", auth, requirePermission("map"), policeController.getPositions);
+router.get("/positions/:touristId/trail", auth, requirePermission("map"), policeController.getTrail);
+
+// Binned alert and anomaly locations for the map heatmap
+router.get("/heatmap", auth, requirePermission("map"), policeController.getHeatmap);
 
 module.exports = router;
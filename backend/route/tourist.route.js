@@ -37,11 +37,11 @@
 'use strict';
 const router = require('express').Router();
 const touristController = require('../controller/tourist01.controller.js');
-const { auth, requireRole } = require('../middleware/auth.middleware');
+const { auth, requireRole, requirePermission } = require('../middleware/auth.middleware');
 
 
 
-const parser = require('../middleware/upload.middleware.js'); // multer cloudinary
+const evidenceParser = require('../middleware/evidenceUpload.middleware.js');
 
 
 // Tourist submits KYC with documents
@@ -57,6 +57,24 @@ router.post('/location', auth, requireRole(['tourist']), touristController.locat
 
 // SOS emergency alert
 router.post('/sos', auth, requireRole(['tourist']), touristController.sosAlert);
+router.get('/sos', auth, requireRole(['tourist']), touristController.getMySosAlerts);
+
+// Own Digital ID, and a re-check of it against the ledger
+router.get('/digital-id', auth, requireRole(['tourist']), touristController.getMyDigitalId);
+router.get('/digital-id/verify', auth, requireRole(['tourist']), touristController.verifyMyDigitalId);
+
+// Signed QR credential: issued to the tourist, verified by authorities.
+// The public keys are open so scanners can verify offline.
+router.get('/credential', auth, requireRole(['tourist']), touristController.issueCredential);
+router.get('/credential/keys', touristController.getCredentialKeys);
+router.post('/credential/verify', auth, requirePermission('verify'), touristController.verifyCredential);
+
+// Personal emergency contacts (stored encrypted on the Digital ID)
+router.get('/emergency-contacts', auth, requireRole(['tourist']), touristController.getEmergencyContacts);
+router.put('/emergency-contacts', auth, requireRole(['tourist']), touristController.updateEmergencyContacts);
+
+// Active geofence set, for on-device zone checks and the Dashboard map
+router.get('/geofences', auth, requireRole(['tourist', 'police', 'admin']), touristController.getGeofences);
 
 // Submit feedback
 router.post('/feedback', auth, requireRole(['tourist']), touristController.submitFeedback);
@@ -68,12 +86,12 @@ router.post(
   '/efir',
   auth,
   requireRole(['tourist']),
-  parser.single('evidence'), // optional file
+  evidenceParser.array('evidence', 5), // optional photos, videos and voice notes
   touristController.fileEFIR
 );
 
-// Verify tourist status (for authorities and self)
-router.get('/verify/:touristId', auth, touristController.verifyTourist);
+// Verify tourist status (authorities; tourists check their own ID at /digital-id/verify)
+router.get('/verify/:touristId', auth, requirePermission('verify'), touristController.verifyTourist);
 
 // ================= AUTHORITY ROUTES =================
 
@@ -81,10 +99,10 @@ router.get('/verify/:touristId', auth, touristController.verifyTourist);
 router.patch('/status', auth, requireRole(['police', 'admin']), touristController.updateTouristStatus);
 
 // Respond to SOS alerts
-router.post('/sos/respond', auth, requireRole(['police', 'admin']), touristController.respondToSOS);
+router.post('/sos/respond', auth, requirePermission('alerts'), touristController.respondToSOS);
 
 // Get comprehensive tourist details
-router.get('/details/:touristId', auth, requireRole(['police', 'admin']), touristController.getTouristDetails);
+router.get('/details/:touristId', auth, requirePermission('touristDetails'), touristController.getTouristDetails);
 
 
 // // ================= ML/ANALYTICS ROUTES =================
@@ -0,0 +1,242 @@
+'use strict';
+const Alert = require('../models/alert.model');
+const User = require('../models/user.model');
+const { broadcast } = require('./wsService');
+const NotificationService = require('./notificationService');
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const ACTIVE = ['open', 'acknowledged', 'accepted'];
+
+/**
+ * Allowed transitions. `to` is omitted when the status stays the same;
+ * `ownerOnly` actions on an accepted alert are limited to its owner and admins.
+ */
+const TRANSITIONS = {
+  acknowledge: { from: ['open'], to: 'acknowledged' },
+  accept: { from: ['open', 'acknowledged'], to: 'accepted' },
+  release: { from: ['accepted'], to: 'open', ownerOnly: true },
+  reassign: { from: ACTIVE, to: 'accepted', ownerOnly: true },
+  escalate: { from: ACTIVE },
+  resolve: { from: ['acknowledged', 'accepted'], to: 'resolved', ownerOnly: true },
+  reopen: { from: ['resolved'], to: 'open' }
+};
+
+function httpError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+const isAdmin = user => (user.roles || []).includes('admin');
+
+/**
+ * Apply a lifecycle action to an alert. `options` may be a function of the
+ * current alert when the update depends on it.
+ * The update only matches while the alert is still in the state it was read
+ * in, so two officers acting at once cannot both win; the loser gets a 409.
+ */
+async function transitionAlert(alertId, action, user, options = {}) {
+  const rule = TRANSITIONS[action];
+  const current = await Alert.findById(alertId).lean();
+  if (!current) throw httpError(404, 'Alert not found');
+
+  if (!rule.from.includes(current.status)) {
+    throw httpError(409, `Cannot ${action} an alert that is ${current.status}`);
+  }
+  if (rule.ownerOnly && current.status === 'accepted' && !isAdmin(user) &&
+      String(current.acceptedBy) !== String(user._id)) {
+    throw httpError(403, 'Only the officer handling this alert or an admin can do that');
+  }
+  const { set = {}, unset = {}, note, assignee, severity } =
+    typeof options === 'function' ? options(current) : options;
+
+  const now = new Date();
+  const to = rule.to || current.status;
+  const update = {
+    $set: { ...set, status: to, updatedAt: now },
+    $push: {
+      statusHistory: {
+        action,
+        from: current.status,
+        to,
+        severity: severity || current.severity || 'medium',
+        by: user._id,
+        byName: user.name || user.email,
+        assignee,
+        note,
+        at: now
+      }
+    }
+  };
+  if (Object.keys(unset).length) update.$unset = unset;
+
+  // Compare-and-set on the fields this action depends on
+  const alert = await Alert.findOneAndUpdate(
+    {
+      _id: alertId,
+      status: current.status,
+      severity: current.severity ?? null,
+      acceptedBy: current.acceptedBy ?? null
+    },
+    update,
+    { new: true }
+  )
+    .populate('acceptedBy', 'name email')
+    .populate('handledBy', 'name email');
+  if (!alert) throw httpError(409, 'Alert was updated by someone else, refresh and try again');
+
+  await publishAlert(alert);
+  return alert;
+}
+
+// Keep dashboards in step and tell the tourist about their SOS
+async function publishAlert(alert) {
+  if (alert.type === 'sos') await NotificationService.notifySosStatus(alert);
+  broadcast('alert_updated', { alertId: alert._id, ...alert.toObject() });
+}
+
+const accept = (alertId, user) =>
+  transitionAlert(alertId, 'accept', user, {
+    set: {
+      acceptedBy: user._id,
+      handledBy: user._id,
+      acceptedAt: new Date(),
+      responder: { name: user.name || 'Police officer', phone: user.phone }
+    }
+  });
+
+const acknowledge = (alertId, user, note) =>
+  transitionAlert(alertId, 'acknowledge', user, { note, set: { handledBy: user._id } });
+
+const release = (alertId, user, note) =>
+  transitionAlert(alertId, 'release', user, {
+    note,
+    unset: { acceptedBy: '', acceptedAt: '', handledBy: '', responder: '' }
+  });
+
+async function reassign(alertId, user, officerId, note) {
+  const officer = await User.findOne({ _id: officerId, roles: { $in: ['police', 'admin'] } })
+    .select('name email phone')
+    .lean()
+    .catch(() => null);
+  if (!officer) throw httpError(400, 'officerId must be a police officer or admin');
+
+  return transitionAlert(alertId, 'reassign', user, {
+    note,
+    assignee: officer._id,
+    set: {
+      acceptedBy: officer._id,
+      handledBy: officer._id,
+      acceptedAt: new Date(),
+      responder: { name: officer.name || 'Police officer', phone: officer.phone }
+    }
+  });
+}
+
+// Raise to `severity`, or one level up when none is given
+const escalate = (alertId, user, severity, note) =>
+  transitionAlert(alertId, 'escalate', user, current => {
+    const level = SEVERITIES.indexOf(current.severity || 'medium');
+    const next = severity || SEVERITIES[level + 1];
+    if (!SEVERITIES.includes(next) || SEVERITIES.indexOf(next) <= level) {
+      throw httpError(409, `Alert is already ${current.severity || 'medium'}; escalation must raise the severity`);
+    }
+    return { note, severity: next, set: { severity: next } };
+  });
+
+// SOS responses map onto the lifecycle, so they follow the same rules and history
+const RESPONSE_ACTIONS = { acknowledged: 'acknowledge', resolved: 'resolve' };
+
+/**
+ * Respond to an SOS with a status from RESPONSE_ACTIONS, recording who is
+ * coming and when for the tourist. `eta` is a Date or null.
+ */
+function respond(alertId, user, { status, response, officerId, eta }) {
+  const action = RESPONSE_ACTIONS[status];
+  if (!action) return Promise.reject(httpError(400, `status must be one of: ${Object.keys(RESPONSE_ACTIONS).join(', ')}`));
+  const note = response ? String(response).trim() : undefined;
+  if (action === 'resolve' && !note) return Promise.reject(httpError(400, 'A resolution note is required'));
+
+  return transitionAlert(alertId, action, user, current => {
+    const now = new Date();
+    const set = {
+      handledBy: user._id,
+      respondedBy: user._id,
+      responder: {
+        name: user.name || 'Police officer',
+        phone: user.phone,
+        officerId: officerId || String(user._id)
+      }
+    };
+    if (!current.respondedAt) {
+      set.respondedAt = now;
+      set.responseTime = now - current.createdAt;
+    }
+    if (note) set.responseDetails = note;
+    if (eta) set.eta = eta;
+    if (action === 'resolve') Object.assign(set, { resolution: note, resolvedAt: now });
+    return { note, set };
+  });
+}
+
+function resolve(alertId, user, resolution) {
+  if (!resolution || !String(resolution).trim()) {
+    return Promise.reject(httpError(400, 'A resolution note is required'));
+  }
+  return transitionAlert(alertId, 'resolve', user, {
+    note: String(resolution).trim(),
+    set: { resolution: String(resolution).trim(), resolvedAt: new Date(), handledBy: user._id }
+  });
+}
+
+const reopen = (alertId, user, note) =>
+  transitionAlert(alertId, 'reopen', user, {
+    note,
+    unset: { resolution: '', resolvedAt: '', acceptedBy: '', acceptedAt: '', handledBy: '', responder: '' }
+  });
+
+// Officer note on the timeline; the status does not change
+async function addNote(alertId, user, note) {
+  if (!note || !String(note).trim()) throw httpError(400, 'note is required');
+  const current = await Alert.findById(alertId).select('status severity').lean();
+  if (!current) throw httpError(404, 'Alert not found');
+
+  const alert = await Alert.findByIdAndUpdate(
+    alertId,
+    {
+      $push: {
+        statusHistory: {
+          action: 'note',
+          from: current.status,
+          to: current.status,
+          severity: current.severity || 'medium',
+          by: user._id,
+          byName: user.name || user.email,
+          note: String(note).trim(),
+          at: new Date()
+        }
+      }
+    },
+    { new: true }
+  )
+    .populate('acceptedBy', 'name email')
+    .populate('handledBy', 'name email');
+
+  broadcast('alert_updated', { alertId: alert._id, ...alert.toObject() });
+  return alert;
+}
+
+module.exports = {
+  SEVERITIES,
+  TRANSITIONS,
+  publishAlert,
+  accept,
+  acknowledge,
+  release,
+  reassign,
+  escalate,
+  resolve,
+  respond,
+  reopen,
+  addNote
+};
@@ -0,0 +1,74 @@
+'use strict';
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const logger = require('../utils/logger');
+
+// Short-lived so a screenshot of the QR code is useless after a few minutes
+const CREDENTIAL_TTL_SECONDS = Number(process.env.CREDENTIAL_TTL_SECONDS) || 300;
+const ISSUER = process.env.CREDENTIAL_ISSUER || 'touro-care';
+
+/**
+ * ES256 key pair used to sign Digital ID credentials.
+ * Set CREDENTIAL_PRIVATE_KEY / CREDENTIAL_PUBLIC_KEY (PEM, "\n" escapes allowed)
+ * in production; otherwise a throwaway pair is generated on startup and
+ * credentials issued before a restart stop verifying.
+ */
+function loadKeys() {
+  const privatePem = process.env.CREDENTIAL_PRIVATE_KEY;
+  const publicPem = process.env.CREDENTIAL_PUBLIC_KEY;
+  if (privatePem && publicPem) {
+    return {
+      privateKey: crypto.createPrivateKey(privatePem.replace(/\\n/g, '\n')),
+      publicKey: crypto.createPublicKey(publicPem.replace(/\\n/g, '\n'))
+    };
+  }
+  logger.warn('CREDENTIAL_PRIVATE_KEY not set, using an ephemeral signing key');
+  return crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+}
+
+const { privateKey, publicKey } = loadKeys();
+const keyId = crypto
+  .createHash('sha256')
+  .update(publicKey.export({ type: 'spki', format: 'der' }))
+  .digest('base64url')
+  .slice(0, 16);
+
+/**
+ * Sign a compact JWS for the QR code.
+ * @param {string} digitalId  becomes the `sub` claim
+ * @param {object} claims     name, photoHash, status, tx
+ */
+function issueCredential(digitalId, claims) {
+  const token = jwt.sign(claims, privateKey, {
+    algorithm: 'ES256',
+    expiresIn: CREDENTIAL_TTL_SECONDS,
+    issuer: ISSUER,
+    subject: digitalId,
+    jwtid: crypto.randomUUID(),
+    keyid: keyId
+  });
+  const { exp } = jwt.decode(token);
+  return { token, expiresAt: new Date(exp * 1000).toISOString(), issuer: ISSUER, kid: keyId };
+}
+
+/**
+ * Check signature, issuer and expiry. Throws jsonwebtoken errors on failure.
+ */
+function verifyCredential(token) {
+  return jwt.verify(token, publicKey, { algorithms: ['ES256'], issuer: ISSUER });
+}
+
+// Unverified claims, only for audit records of rejected credentials
+function decodeCredential(token) {
+  return jwt.decode(token) || null;
+}
+
+// Published so scanners can verify credentials without a network
+function getJwks() {
+  return {
+    issuer: ISSUER,
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, alg: 'ES256', use: 'sig' }]
+  };
+}
+
+module.exports = { issueCredential, verifyCredential, decodeCredential, getJwks, CREDENTIAL_TTL_SECONDS };
@@ -0,0 +1,262 @@
+'use strict';
+const crypto = require('crypto');
+const path = require('path');
+const axios = require('axios');
+const PDFDocument = require('pdfkit');
+const archiver = require('archiver');
+const EFIR = require('../models/fir.model');
+const User = require('../models/user.model');
+const DigitalId = require('../models/digitalId.model');
+const Location = require('../models/location.model');
+const Alert = require('../models/alert.model');
+const { evaluateTransaction } = require('./fabricService');
+const { withAssignees } = require('./efirService');
+
+const LEDGER_ORG = 'org1';
+const LEDGER_IDENTITY = process.env.ORG_ISSUER_ID || 'admin';
+const TRAIL_WINDOW_MS = 6 * 60 * 60 * 1000; // location trail, either side of the incident
+const ALERT_WINDOW_MS = 24 * 60 * 60 * 1000; // related alerts, either side of the incident
+const MAX_TRAIL_POINTS = 500;
+const PDF_TRAIL_ROWS = 60;
+const ATTACHMENT_TIMEOUT_MS = 30000;
+const MAX_ATTACHMENT_BYTES = 60 * 1024 * 1024;
+
+const sha256 = data => crypto.createHash('sha256').update(data).digest('hex');
+
+function httpError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// Download one piece of evidence and hash exactly the bytes that go into the bundle
+async function fetchAttachment(url, index) {
+  let name = `${String(index + 1).padStart(2, '0')}_attachment`;
+  try {
+    name = `${String(index + 1).padStart(2, '0')}_${path.basename(new URL(url).pathname)}`;
+    const res = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: ATTACHMENT_TIMEOUT_MS,
+      maxContentLength: MAX_ATTACHMENT_BYTES
+    });
+    const data = Buffer.from(res.data);
+    return { url, name, size: data.length, sha256: sha256(data), contentType: res.headers['content-type'], data };
+  } catch (err) {
+    console.error(`[efirExport] attachment ${url} unavailable:`, err.message);
+    return { url, name, error: err.message };
+  }
+}
+
+// The RecordEFIR event as the ledger holds it; null if unreachable or never recorded
+async function fetchLedgerEvent(eventId) {
+  if (!eventId) return null;
+  try {
+    const result = await evaluateTransaction(LEDGER_ORG, LEDGER_IDENTITY, 'GetEvent', eventId);
+    return JSON.parse(result.toString());
+  } catch (err) {
+    console.error(`[efirExport] ledger event ${eventId} unavailable:`, err.message);
+    return null;
+  }
+}
+
+/**
+ * Everything that goes into an exported case file: the FIR, who filed it,
+ * where they were around the incident, related alerts, the evidence and the
+ * ledger reference it can be checked against.
+ */
+async function buildCaseFile(efirId, user) {
+  const record = await EFIR.findOne({ efirId }).lean();
+  if (!record) throw httpError(404, 'e-FIR not found');
+  const [efir] = await withAssignees([record]);
+
+  const incidentAt = new Date(efir.dateTime || efir.createdAt);
+  const { touristId } = efir;
+  const [tourist, digitalId, trail, alerts, attachments, ledgerEvent] = await Promise.all([
+    User.findOne({ walletId: touristId }).select('name email phone kycStatus').lean(),
+    DigitalId.findOne({ digitalId: touristId }).select('digitalId status expiryAt createdAt').lean(),
+    Location.find({
+      touristId,
+      ts: { $gte: new Date(incidentAt - TRAIL_WINDOW_MS), $lte: new Date(+incidentAt + TRAIL_WINDOW_MS) }
+    })
+      .sort({ ts: 1 })
+      .limit(MAX_TRAIL_POINTS)
+      .select('lat lon speed ts -_id')
+      .lean(),
+    Alert.find({
+      touristId,
+      createdAt: { $gte: new Date(incidentAt - ALERT_WINDOW_MS), $lte: new Date(+incidentAt + ALERT_WINDOW_MS) }
+    })
+      .sort({ createdAt: 1 })
+      .select('type severity status message location createdAt resolvedAt resolution')
+      .lean(),
+    Promise.all((efir.attachments || []).map(fetchAttachment)),
+    fetchLedgerEvent(efir.ledger?.eventId)
+  ]);
+
+  return {
+    efir,
+    tourist: { touristId, name: tourist?.name || null, email: tourist?.email || null, phone: tourist?.phone || null, kycStatus: tourist?.kycStatus || null },
+    digitalId: digitalId ? { digitalId: digitalId.digitalId, status: digitalId.status, issuedAt: digitalId.createdAt, expiryAt: digitalId.expiryAt } : null,
+    trail,
+    alerts,
+    attachments,
+    ledger: {
+      eventId: efir.ledger?.eventId || null,
+      txId: efir.ledger?.txId || null,
+      blockNumber: efir.ledger?.blockNumber ?? null,
+      recordedAt: efir.ledger?.recordedAt || null,
+      // The ledger copy must name this FIR; anything else means the reference is wrong
+      verified: ledgerEvent ? ledgerEvent.data?.efirId === efir.efirId : null,
+      event: ledgerEvent
+    },
+    incidentAt,
+    generatedAt: new Date(),
+    generatedBy: user.name || user.email
+  };
+}
+
+const fmtDate = value => (value ? new Date(value).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC') : '-');
+const fmtLocation = loc =>
+  !loc ? '-' : loc.address || (loc.latitude != null ? `${loc.latitude}, ${loc.longitude}` : `${loc.lat}, ${loc.lng}`);
+
+function heading(doc, text) {
+  doc.moveDown(0.8).font('Helvetica-Bold').fontSize(13).text(text).moveDown(0.3);
+  doc.font('Helvetica').fontSize(10);
+}
+
+function field(doc, label, value) {
+  doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value == null || value === '' ? '-' : String(value));
+}
+
+// Render the printable case file; resolves to the PDF bytes
+function renderPdf(caseFile) {
+  const { efir, tourist, digitalId, trail, alerts, attachments, ledger } = caseFile;
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Case file ${efir.efirId}` } });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font('Helvetica-Bold').fontSize(18).text('e-FIR Case File', { align: 'center' });
+    doc.font('Helvetica').fontSize(10).text(`${efir.efirId} · generated ${fmtDate(caseFile.generatedAt)} by ${caseFile.generatedBy}`, { align: 'center' });
+
+    heading(doc, 'Ledger Proof');
+    field(doc, 'RecordEFIR event id', ledger.eventId || 'not recorded');
+    field(doc, 'Transaction id', ledger.txId || 'not recorded');
+    field(doc, 'Block', ledger.blockNumber);
+    field(doc, 'Recorded at', fmtDate(ledger.recordedAt));
+    field(doc, 'Ledger check at export',
+      ledger.verified === true ? 'event found and matches this FIR'
+        : ledger.verified === false ? 'event found but does NOT match this FIR'
+          : 'ledger unavailable or event not recorded');
+
+    heading(doc, 'FIR Details');
+    field(doc, 'Incident type', efir.incidentType);
+    field(doc, 'Incident time', fmtDate(efir.dateTime));
+    field(doc, 'Filed', fmtDate(efir.createdAt));
+    field(doc, 'Location', fmtLocation(efir.location));
+    field(doc, 'Status', efir.status.replace('_', ' '));
+    field(doc, 'Assigned to', efir.assignee ? efir.assignee.name || efir.assignee.email : 'unassigned');
+    if (efir.resolution) field(doc, 'Resolution', efir.resolution);
+    doc.moveDown(0.3).font('Helvetica-Bold').text('Statement:').font('Helvetica').text(efir.incidentDetails);
+
+    heading(doc, 'Tourist Identity');
+    field(doc, 'Name', tourist.name);
+    field(doc, 'Tourist ID', tourist.touristId);
+    field(doc, 'Phone', tourist.phone);
+    field(doc, 'Email', tourist.email);
+    field(doc, 'KYC status', tourist.kycStatus);
+    field(doc, 'Digital ID', digitalId ? `${digitalId.status}, issued ${fmtDate(digitalId.issuedAt)}, expires ${fmtDate(digitalId.expiryAt)}` : 'not registered');
+
+    heading(doc, `Attachments (${attachments.length})`);
+    if (!attachments.length) doc.text('None');
+    for (const a of attachments) {
+      doc.font('Helvetica-Bold').text(a.name).font('Helvetica');
+      if (a.error) {
+        doc.text(`Could not be retrieved: ${a.error}`);
+      } else {
+        doc.text(`${a.size} bytes · ${a.contentType || 'unknown type'}`);
+        doc.font('Courier').fontSize(8).text(`SHA-256 ${a.sha256}`).font('Helvetica').fontSize(10);
+        if (/^image\/(jpeg|png)/.test(a.contentType || '')) {
+          try {
+            doc.image(a.data, { fit: [220, 160] }).moveDown(0.5);
+          } catch (err) {
+            doc.text('(preview unavailable)');
+          }
+        }
+      }
+      doc.text(a.url, { link: a.url, underline: true }).moveDown(0.4);
+    }
+
+    heading(doc, `Location Trail (±${TRAIL_WINDOW_MS / 3600000}h, ${trail.length} points)`);
+    if (!trail.length) doc.text('No location updates around the incident time');
+    trail.slice(0, PDF_TRAIL_ROWS).forEach(p => {
+      doc.font('Courier').fontSize(8)
+        .text(`${fmtDate(p.ts)}  ${p.lat.toFixed(6)}, ${p.lon.toFixed(6)}${p.speed != null ? `  ${p.speed.toFixed(1)} m/s` : ''}`);
+    });
+    if (trail.length > PDF_TRAIL_ROWS) doc.text(`… ${trail.length - PDF_TRAIL_ROWS} more points in trail.csv of the ZIP bundle`);
+    doc.font('Helvetica').fontSize(10);
+
+    heading(doc, `Related Alerts (±${ALERT_WINDOW_MS / 3600000}h)`);
+    if (!alerts.length) doc.text('None');
+    alerts.forEach(a => {
+      doc.text(`${fmtDate(a.createdAt)} · ${a.type.toUpperCase()} · ${a.severity || 'medium'} · ${a.status}${a.message ? ` · ${a.message}` : ''}`);
+    });
+
+    heading(doc, 'Case History');
+    if (!efir.statusHistory?.length) doc.text('No actions yet');
+    (efir.statusHistory || []).forEach(h => {
+      doc.text(`${fmtDate(h.at)} · ${h.action} (${h.from} -> ${h.to}) by ${h.byName || 'system'}${h.note ? ` · ${h.note}` : ''}`);
+      if (h.txId) doc.font('Courier').fontSize(8).text(`tx ${h.txId}`).font('Helvetica').fontSize(10);
+    });
+
+    doc.end();
+  });
+}
+
+const csvCell = value => (value == null ? '' : /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value));
+
+/**
+ * Stream the ZIP bundle to `output`: the PDF, the raw records, the evidence
+ * files and a manifest with the SHA-256 of every file plus the ledger reference.
+ */
+async function writeZip(caseFile, pdf, output) {
+  const { efir, tourist, digitalId, trail, alerts, attachments, ledger } = caseFile;
+  const files = [
+    { name: 'case-file.pdf', data: pdf },
+    { name: 'efir.json', data: JSON.stringify({ efir, tourist, digitalId }, null, 2) },
+    {
+      name: 'trail.csv',
+      data: ['ts,lat,lon,speed', ...trail.map(p => [new Date(p.ts).toISOString(), p.lat, p.lon, p.speed].map(csvCell).join(','))].join('\n')
+    },
+    { name: 'alerts.json', data: JSON.stringify(alerts, null, 2) },
+    ...(ledger.event ? [{ name: 'ledger-event.json', data: JSON.stringify(ledger.event, null, 2) }] : []),
+    ...attachments.filter(a => !a.error).map(a => ({ name: `attachments/${a.name}`, data: a.data }))
+  ];
+
+  const manifest = {
+    efirId: efir.efirId,
+    touristId: tourist.touristId,
+    generatedAt: caseFile.generatedAt,
+    generatedBy: caseFile.generatedBy,
+    ledger: { eventId: ledger.eventId, txId: ledger.txId, blockNumber: ledger.blockNumber, verified: ledger.verified },
+    attachments: attachments.map(({ url, name, size, sha256: hash, error }) => ({ url, file: error ? null : `attachments/${name}`, size, sha256: hash, error })),
+    files: files.map(f => ({ path: f.name, size: Buffer.byteLength(f.data), sha256: sha256(f.data) }))
+  };
+
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const done = new Promise((resolve, reject) => {
+    archive.on('error', reject);
+    output.on('close', resolve);
+    output.on('finish', resolve);
+  });
+  archive.pipe(output);
+  files.forEach(f => archive.append(f.data, { name: f.name }));
+  archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+  await archive.finalize();
+  return done;
+}
+
+module.exports = { buildCaseFile, renderPdf, writeZip };
@@ -0,0 +1,149 @@
+'use strict';
+const mongoose = require('mongoose');
+const { customAlphabet } = require('nanoid');
+const EFIR = require('../models/fir.model');
+const User = require('../models/user.model');
+const { safeSubmitWithReceipt } = require('./fabricService');
+const { broadcast } = require('./wsService');
+const NotificationService = require('./notificationService');
+
+const LEDGER_ORG = 'org1';
+const LEDGER_IDENTITY = process.env.ORG_ISSUER_ID || 'admin';
+const nano = customAlphabet('0123456789ABCDEF', 8);
+
+/**
+ * Case workflow: submitted -> under_review -> resolved. Assigning an officer
+ * starts the review; `ownerOnly` actions are limited to the assigned officer and admins.
+ */
+const TRANSITIONS = {
+  assign: { from: ['submitted', 'under_review'], to: 'under_review' },
+  resolve: { from: ['under_review'], to: 'resolved', ownerOnly: true },
+  reopen: { from: ['resolved'], to: 'under_review' }
+};
+
+function httpError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+const isAdmin = user => (user.roles || []).includes('admin');
+
+// assignedTo holds a user id as a string; resolve it for display
+async function withAssignees(efirs) {
+  const ids = [...new Set(efirs.map(f => f.assignedTo).filter(id => mongoose.isValidObjectId(id)))];
+  const officers = ids.length ? await User.find({ _id: { $in: ids } }).select('name email').lean() : [];
+  const byId = new Map(officers.map(o => [String(o._id), o]));
+  return efirs.map(f => ({ ...f, assignee: byId.get(String(f.assignedTo)) || null }));
+}
+
+// Record the transition on the ledger and stamp its txId on the history entry.
+// Mongo stays the source of truth for the case; a ledger failure is logged, not fatal.
+async function recordOnLedger(efir, entry) {
+  try {
+    const receipt = await safeSubmitWithReceipt(
+      LEDGER_ORG,
+      LEDGER_IDENTITY,
+      'RecordEFIRUpdate',
+      `EFIRUPD_${Date.now()}_${nano()}`,
+      efir.touristId,
+      JSON.stringify({
+        efirId: efir.efirId,
+        action: entry.action,
+        from: entry.from,
+        status: entry.to,
+        assignedTo: efir.assignedTo,
+        resolution: entry.action === 'resolve' ? efir.resolution : undefined,
+        note: entry.note,
+        by: String(entry.by),
+        ts: entry.at.toISOString()
+      })
+    );
+    await EFIR.updateOne(
+      { _id: efir._id, 'statusHistory._id': entry._id },
+      { $set: { 'statusHistory.$.txId': receipt.txId } }
+    );
+    entry.txId = receipt.txId;
+  } catch (err) {
+    console.error(`[efir] ledger write failed for ${efir.efirId} ${entry.action}:`, err.message);
+  }
+}
+
+/**
+ * Apply a workflow action to an e-FIR, looked up by its efirId.
+ * The update only matches while the case is still in the state it was read
+ * in (status and assignee), so concurrent changes get a 409 instead of racing.
+ */
+async function transitionEfir(efirId, action, user, { set = {}, assignee, note } = {}) {
+  const rule = TRANSITIONS[action];
+  const current = await EFIR.findOne({ efirId }).lean();
+  if (!current) throw httpError(404, 'e-FIR not found');
+
+  if (!rule.from.includes(current.status)) {
+    throw httpError(409, `Cannot ${action} an e-FIR that is ${current.status.replace('_', ' ')}`);
+  }
+  if (rule.ownerOnly && !isAdmin(user) && current.assignedTo !== String(user._id)) {
+    throw httpError(403, 'Only the assigned officer or an admin can do that');
+  }
+
+  const now = new Date();
+  const entry = {
+    _id: new mongoose.Types.ObjectId(),
+    action,
+    from: current.status,
+    to: rule.to,
+    by: user._id,
+    byName: user.name || user.email,
+    assignee,
+    note,
+    at: now
+  };
+
+  const efir = await EFIR.findOneAndUpdate(
+    { _id: current._id, status: current.status, assignedTo: current.assignedTo ?? null },
+    { $set: { ...set, status: rule.to, updatedAt: now }, $push: { statusHistory: entry } },
+    { new: true }
+  ).lean();
+  if (!efir) throw httpError(409, 'e-FIR was updated by someone else, refresh and try again');
+
+  await recordOnLedger(efir, efir.statusHistory[efir.statusHistory.length - 1]);
+
+  const [result] = await withAssignees([efir]);
+  await NotificationService.notifyEfirStatus(result);
+  broadcast('efir_updated', { efirId: result.efirId, status: result.status, assignedTo: result.assignedTo });
+  return result;
+}
+
+// Assign to `officerId`, or to the caller when none is given
+async function assign(efirId, user, officerId, note) {
+  const officer = officerId
+    ? await User.findOne({ _id: officerId, roles: { $in: ['police', 'admin'] } }).select('_id').lean().catch(() => null)
+    : user;
+  if (!officer) throw httpError(400, 'officerId must be a police officer or admin');
+
+  return transitionEfir(efirId, 'assign', user, {
+    note,
+    assignee: officer._id,
+    set: { assignedTo: String(officer._id) }
+  });
+}
+
+function resolve(efirId, user, resolution) {
+  if (!resolution || !String(resolution).trim()) throw httpError(400, 'resolution is required');
+  const text = String(resolution).trim();
+  return transitionEfir(efirId, 'resolve', user, {
+    note: text,
+    set: { resolution: text, resolvedAt: new Date() }
+  });
+}
+
+const reopen = (efirId, user, note) =>
+  transitionEfir(efirId, 'reopen', user, { note, set: { resolution: null, resolvedAt: null } });
+
+module.exports = {
+  TRANSITIONS,
+  withAssignees,
+  assign,
+  resolve,
+  reopen
+};
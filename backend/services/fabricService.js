@@ -54,6 +54,38 @@ async function submitTransaction(org, identity, fcn, ...args) {
   }
 }
 
+/**
+ * submitTransactionWithReceipt: like submitTransaction, but also reports where
+ * the transaction landed on the ledger so it can be shown to users
+ * - returns { result, txId, blockNumber, timestamp }; blockNumber is null if
+ *   the commit event was not seen before submit returned
+ */
+async function submitTransactionWithReceipt(org, identity, fcn, ...args) {
+  const gateway = await _connectGateway(org, identity);
+  try {
+    const network = await gateway.getNetwork(process.env.CHANNEL_NAME);
+    const contract = network.getContract(process.env.CHAINCODE_NAME);
+    const transaction = contract.createTransaction(fcn);
+    const txId = transaction.getTransactionId();
+
+    let blockNumber = null;
+    const listener = (error, event) => {
+      if (!error && event) blockNumber = event.getBlockEvent().blockNumber.toNumber();
+    };
+    await network.addCommitListener(listener, network.getChannel().getEndorsers(), txId);
+
+    try {
+      const result = await transaction.submit(...args);
+      logger.info(`Submitted tx ${fcn} (${txId}) by ${identity} on ${org}`);
+      return { result, txId, blockNumber, timestamp: new Date() };
+    } finally {
+      network.removeCommitListener(listener);
+    }
+  } finally {
+    gateway.disconnect();
+  }
+}
+
 async function evaluateTransaction(org, identity, fcn, ...args) {
   const gateway = await _connectGateway(org, identity);
   try {
@@ -66,6 +98,33 @@ async function evaluateTransaction(org, identity, fcn, ...args) {
     gateway.disconnect();
   }
 }
+
+// Retry helper for MVCC conflicts
+async function retryOnMvcc(fn, submit) {
+  let attempt = 0;
+  while (attempt < 3) {
+    try {
+      return await submit();
+    } catch (err) {
+      if (err.transactionCode === 'MVCC_READ_CONFLICT' || (err.message && err.message.includes('MVCC_READ_CONFLICT'))) {
+        attempt++;
+        console.warn(`Retrying ${fn} due to MVCC conflict (attempt ${attempt})`);
+        await new Promise(r => setTimeout(r, 500 * attempt));
+      } else throw err;
+    }
+  }
+  throw new Error(`MVCC conflict after ${attempt} retries`);
+}
+
+async function safeSubmit(org, identity, fn, ...args) {
+  return retryOnMvcc(fn, () => submitTransaction(org, identity, fn, ...args));
+}
+
+// Same as safeSubmit, but resolves to { result, txId, blockNumber, timestamp }
+async function safeSubmitWithReceipt(org, identity, fn, ...args) {
+  return retryOnMvcc(fn, () => submitTransactionWithReceipt(org, identity, fn, ...args));
+}
+
 /**
  * generateWalletId: registers a new identity with Fabric CA
  * @param {string} org - 'Org1' or 'Org2'
@@ -127,4 +186,11 @@ async function generateWalletId(org, roles) {
   }
 }
 
-module.exports = { submitTransaction, evaluateTransaction,generateWalletId };
+module.exports = {
+  submitTransaction,
+  submitTransactionWithReceipt,
+  safeSubmit,
+  safeSubmitWithReceipt,
+  evaluateTransaction,
+  generateWalletId
+};
@@ -0,0 +1,135 @@
+'use strict';
+const Geofence = require('../models/geofence.model');
+const mlService = require('./mlService');
+const logger = require('../utils/logger');
+const { broadcast } = require('./wsService');
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+let seeding = null; // shared by concurrent first requests; cleared again if the import fails
+let mlOutOfDate = false;
+
+const isLatLon = p => Array.isArray(p) && p.length === 2 &&
+  Number.isFinite(p[0]) && Number.isFinite(p[1]) &&
+  Math.abs(p[0]) <= 90 && Math.abs(p[1]) <= 180;
+
+/**
+ * Checks a create/update body and returns the fields to store, or an error
+ * message. `existing` is the stored zone when updating, so partial bodies
+ * are validated against the merged result.
+ */
+function normalizeGeofence(body, existing = {}) {
+  const merged = { ...existing, ...body };
+  const name = typeof merged.name === 'string' ? merged.name.trim() : '';
+  if (!name) return { error: 'name is required' };
+  if (merged.severity && !SEVERITIES.includes(merged.severity)) {
+    return { error: `severity must be one of ${SEVERITIES.join(', ')}` };
+  }
+
+  const fields = {
+    name,
+    type: merged.type,
+    restricted: Boolean(merged.restricted),
+    severity: merged.severity || 'medium'
+  };
+
+  if (merged.type === 'circle') {
+    const radius = Number(merged.radius);
+    if (!isLatLon(merged.center) || !(radius > 0)) {
+      return { error: 'circle needs center [lat, lon] and a positive radius in meters' };
+    }
+    return { fields: { ...fields, center: merged.center, radius, vertices: undefined } };
+  }
+  if (merged.type === 'polygon') {
+    if (!Array.isArray(merged.vertices) || merged.vertices.length < 3 || !merged.vertices.every(isLatLon)) {
+      return { error: 'polygon needs at least 3 vertices as [lat, lon]' };
+    }
+    return { fields: { ...fields, vertices: merged.vertices, center: undefined, radius: undefined } };
+  }
+  return { error: "type must be 'circle' or 'polygon'" };
+}
+
+function toPublic(doc) {
+  const zone = {
+    id: String(doc._id),
+    name: doc.name,
+    type: doc.type,
+    restricted: doc.restricted,
+    severity: doc.severity
+  };
+  if (doc.type === 'circle') Object.assign(zone, { center: doc.center, radius: doc.radius });
+  else zone.vertices = doc.vertices;
+  return zone;
+}
+
+// The first run imports whatever the ML service already enforces, so existing zones carry over
+function seedFromMl() {
+  if (!seeding) {
+    seeding = importFromMl().then(
+      imported => {
+        if (!imported) seeding = null; // try again on the next request
+      },
+      err => {
+        seeding = null;
+        throw err;
+      }
+    );
+  }
+  return seeding;
+}
+
+async function importFromMl() {
+  if (await Geofence.estimatedDocumentCount() > 0) return true;
+  try {
+    const { geofences } = await mlService.getGeofences();
+    const docs = geofences
+      .map(g => normalizeGeofence(g).fields)
+      .filter(Boolean);
+    if (docs.length) await Geofence.insertMany(docs);
+    logger.info(`Imported ${docs.length} geofences from the ML service`);
+    return true;
+  } catch (err) {
+    logger.warn(`Geofence import from ML service failed: ${err.message}`);
+    return false;
+  }
+}
+
+/**
+ * Active zones plus the set version. The version is the newest change time
+ * across all zones, deleted ones included, so every create/update/delete moves it.
+ */
+async function loadSet() {
+  const [active, newest] = await Promise.all([
+    Geofence.find({ deletedAt: null }).sort({ createdAt: 1 }).lean(),
+    Geofence.findOne().sort({ updatedAt: -1 }).select('updatedAt').lean()
+  ]);
+  return { active, version: newest ? newest.updatedAt.getTime() : 0 };
+}
+
+// Replace the ML service's copy; a failed push is retried on the next read
+async function syncToMl(active) {
+  try {
+    await mlService.replaceGeofences(active.map(toPublic));
+    mlOutOfDate = false;
+  } catch (err) {
+    mlOutOfDate = true;
+    logger.warn(`Geofence sync to ML service failed: ${err.message}`);
+  }
+}
+
+async function listGeofences() {
+  await seedFromMl();
+  const { active, version } = await loadSet();
+  if (mlOutOfDate) syncToMl(active);
+  return { version, geofences: active.map(toPublic) };
+}
+
+// After a change: update the ML service and tell open Dashboards to refetch
+async function publishGeofences() {
+  const { active, version } = await loadSet();
+  await syncToMl(active);
+  broadcast('geofences_updated', { version });
+  return version;
+}
+
+module.exports = { normalizeGeofence, toPublic, listGeofences, publishGeofences };
@@ -37,9 +37,22 @@ async function analyzeSequence(touristId, seq) {
 
 
 async function checkGeofence(data) {
-    const resp = await axios.post(`${ML_URL}/ingest/ping`, data)
+    const resp = await axios.post(`${ML_URL}/ingest/ping`, data, { timeout: TIMEOUT })
     return resp.data.actions;
 }
 
 
-module.exports = { analyzeSequence, checkGeofence };
+async function getGeofences() {
+    const resp = await axios.get(`${ML_URL}/geofences`, { timeout: TIMEOUT });
+    return { version: resp.data.version, geofences: resp.data.geofences || [] };
+}
+
+
+// The backend owns the geofence set; the ML service gets a full copy after every change
+async function replaceGeofences(geofences) {
+    const resp = await axios.put(`${ML_URL}/geofences`, { geofences }, { timeout: TIMEOUT });
+    return resp.data;
+}
+
+
+module.exports = { analyzeSequence, checkGeofence, getGeofences, replaceGeofences };
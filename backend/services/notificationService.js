@@ -1,5 +1,5 @@
 'use strict';
-const { broadcast } = require('./wsService');
+const { broadcast, sendToTourist } = require('./wsService');
 
 // Send to emergency contacts (shown in dashboard)
 async function notifyEmergencyContact(contact, touristId, location, message) {
@@ -28,7 +28,7 @@ async function notifyAuthorities(alert) {
   return true;
 }
 
-// Send to tourist (optional)
+// Send to tourist (only their own connections)
 async function notifyTourist(alert) {
   const payload = {
     type: 'TOURIST_NOTIFICATION',
@@ -36,12 +36,57 @@ async function notifyTourist(alert) {
     timestamp: new Date()
   };
 
-  broadcast('tourist', payload);
+  sendToTourist(alert.touristId, 'tourist', payload);
+  return true;
+}
+
+// SOS lifecycle as the tourist app sees it; 'accepted' is an acknowledgement too
+function toSosStatus(alert) {
+  return {
+    alertId: String(alert._id),
+    idempotencyKey: alert.idempotencyKey,
+    status: alert.status === 'accepted' ? 'acknowledged' : alert.status,
+    responder: alert.responder?.name ? { name: alert.responder.name, phone: alert.responder.phone } : null,
+    eta: alert.eta || null,
+    message: alert.responseDetails || null,
+    updatedAt: alert.updatedAt || alert.createdAt
+  };
+}
+
+// Push an SOS status change to the tourist who raised it
+async function notifySosStatus(alert) {
+  sendToTourist(alert.touristId, 'sos_status', toSosStatus(alert));
+  return true;
+}
+
+// Push an e-FIR case change to the tourist who filed it
+async function notifyEfirStatus(efir) {
+  sendToTourist(efir.touristId, 'efir_status', {
+    efirId: efir.efirId,
+    status: efir.status,
+    resolution: efir.resolution || null,
+    updatedAt: efir.updatedAt
+  });
+  return true;
+}
+
+// Push a KYC review decision to the tourist who submitted it
+async function notifyKycStatus(kyc) {
+  sendToTourist(kyc.touristId, 'kyc_status', {
+    requestId: kyc.requestId,
+    status: kyc.status,
+    comment: kyc.reviewComment || null,
+    reviewedAt: kyc.reviewedAt
+  });
   return true;
 }
 
 module.exports = {
   notifyEmergencyContact,
   notifyAuthorities,
-  notifyTourist
+  notifyTourist,
+  notifySosStatus,
+  notifyEfirStatus,
+  notifyKycStatus,
+  toSosStatus
 };
@@ -1,24 +1,111 @@
 'use strict';
 const WebSocket = require('ws');
+const jwt = require('jsonwebtoken');
 const logger = require('../utils/logger');
+const User = require('../models/user.model');
+const { hasPermission } = require('../config/permissions');
 
 let wss;
+const LIVENESS_INTERVAL = 30000;
+
+// Broadcast topics that only some staff may see; anything else goes to every staff client
+const TOPIC_PERMISSIONS = {
+  alert_updated: 'alerts',
+  authorities: 'alerts',
+  emergency_contact: 'alerts',
+  position_updated: 'map',
+  efir_updated: 'efir',
+  kyc_updated: 'kyc'
+};
+
+// Clients pass their JWT as ?token=... since browsers cannot set WS headers.
+// The user is loaded fresh because walletId is assigned after login.
+async function authenticate(req) {
+  const { searchParams } = new URL(req.url, 'ws://localhost');
+  const token = searchParams.get('token');
+  if (!token) return null;
+
+  const payload = jwt.verify(token, process.env.JWT_SECRET);
+  const user = await User.findById(payload.id).select('email roles walletId').lean();
+  if (!user) throw new Error('User not found');
+  return user;
+}
+
+function isStaff(client) {
+  return (client.user?.roles || []).some(r => r !== 'tourist');
+}
 
 function startWsServer(port = process.env.WS_PORT || 5001) {
   wss = new WebSocket.Server({ port });
-  wss.on('connection', ws => {
-    logger.info('WS client connected');
+  wss.on('connection', async (ws, req) => {
+    ws.authPending = true; // nothing is sent until we know who this is
+    try {
+      ws.user = await authenticate(req);
+      ws.authPending = false;
+    } catch (err) {
+      logger.info(`WS client rejected: ${err.message}`);
+      ws.close(4401, 'Invalid token');
+      return;
+    }
+    if (!ws.user) {
+      ws.close(4401, 'Token required');
+      return;
+    }
+
+    logger.info(`WS client connected (${ws.user.email})`);
+    ws.isAlive = true;
+    ws.on('pong', () => { ws.isAlive = true; });
+    // Browsers cannot send protocol pings, so clients heartbeat with a 'ping' topic
+    ws.on('message', data => {
+      try {
+        if (JSON.parse(data).topic === 'ping') send(ws, 'pong', { ts: Date.now() });
+      } catch (err) {
+        logger.info(`WS message ignored: ${err.message}`);
+      }
+    });
     ws.on('close', () => logger.info('WS client disconnected'));
   });
+
+  // Drop connections that stopped answering (e.g. a laptop lid closed mid-session)
+  const liveness = setInterval(() => {
+    wss.clients.forEach(client => {
+      if (!client.isAlive && !client.authPending) return client.terminate();
+      client.isAlive = false;
+      client.ping();
+    });
+  }, LIVENESS_INTERVAL);
+  wss.on('close', () => clearInterval(liveness));
+
   logger.info(`WebSocket server running on port ${port}`);
 }
 
+function send(client, topic, payload) {
+  if (client.readyState === WebSocket.OPEN && !client.authPending) {
+    client.send(JSON.stringify({ topic, payload }));
+  }
+}
+
+// Dashboard feed; tourists only receive messages addressed to them
 function broadcast(topic, payload) {
   if (!wss) return;
-  const msg = JSON.stringify({ topic, payload });
+  const permission = TOPIC_PERMISSIONS[topic];
+  wss.clients.forEach(client => {
+    if (!isStaff(client)) return;
+    if (permission && !hasPermission(client.user, permission)) return;
+    send(client, topic, payload);
+  });
+}
+
+function sendToTourist(touristId, topic, payload) {
+  if (!wss || !touristId) return 0;
+  let delivered = 0;
   wss.clients.forEach(client => {
-    if (client.readyState === WebSocket.OPEN) client.send(msg);
+    if (client.user?.walletId === touristId) {
+      send(client, topic, payload);
+      delivered++;
+    }
   });
+  return delivered;
 }
 
-module.exports = { startWsServer, broadcast };
+module.exports = { startWsServer, broadcast, sendToTourist };
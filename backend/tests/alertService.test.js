@@ -0,0 +1,110 @@
+'use strict';
+
+jest.mock('../models/alert.model', () => {
+  const { matches, applyUpdate, query } = require('./helpers/memoryStore');
+  const alerts = [];
+  const snapshot = doc => ({ ...doc, toObject: () => ({ ...doc }) });
+  return {
+    alerts,
+    findById: jest.fn(id => {
+      const doc = alerts.find(a => a._id === id);
+      return query(doc ? { ...doc } : null);
+    }),
+    findOneAndUpdate: jest.fn((filter, update) => {
+      const doc = alerts.find(a => matches(a, filter));
+      return query(doc ? snapshot(applyUpdate(doc, update)) : null);
+    })
+  };
+});
+
+jest.mock('../models/user.model', () => {
+  const { query } = require('./helpers/memoryStore');
+  return { findOne: jest.fn(({ _id }) => query({ _id, name: `Officer ${_id}` })) };
+});
+
+jest.mock('../services/wsService', () => ({ broadcast: jest.fn() }));
+jest.mock('../services/notificationService', () => ({ notifySosStatus: jest.fn() }));
+
+const Alert = require('../models/alert.model');
+const AlertService = require('../services/alertService');
+
+const officer = id => ({ _id: id, name: `Officer ${id}`, roles: ['police'] });
+const admin = id => ({ _id: id, name: `Admin ${id}`, roles: ['admin'] });
+
+const stored = () => Alert.alerts[0];
+
+beforeEach(() => {
+  Alert.alerts.length = 0;
+  Alert.alerts.push({ _id: 'A1', type: 'sos', status: 'open', severity: 'critical', createdAt: new Date() });
+  jest.clearAllMocks();
+});
+
+describe('alert lifecycle', () => {
+  test('accepting records the officer and a history entry', async () => {
+    const alert = await AlertService.accept('A1', officer('u1'));
+
+    expect(alert.status).toBe('accepted');
+    expect(alert.acceptedBy).toBe('u1');
+    expect(alert.statusHistory).toEqual([expect.objectContaining({ action: 'accept', from: 'open', to: 'accepted' })]);
+  });
+
+  test('transitions outside the state machine are refused', async () => {
+    await expect(AlertService.resolve('A1', officer('u1'), 'Done')).rejects.toMatchObject({ status: 409 });
+    await expect(AlertService.reopen('A1', officer('u1'))).rejects.toMatchObject({ status: 409 });
+  });
+
+  test('only one of two officers accepting at once wins', async () => {
+    const results = await Promise.allSettled([
+      AlertService.accept('A1', officer('u1')),
+      AlertService.accept('A1', officer('u2'))
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(r => r.status === 'rejected').reason.status).toBe(409);
+    expect(stored().statusHistory).toHaveLength(1);
+  });
+
+  test('two reassignments racing on the same owner cannot both apply', async () => {
+    await AlertService.accept('A1', officer('u1'));
+
+    const results = await Promise.allSettled([
+      AlertService.reassign('A1', admin('a1'), 'u2'),
+      AlertService.reassign('A1', admin('a2'), 'u3')
+    ]);
+
+    expect(results.filter(r => r.status === 'rejected')).toEqual([
+      expect.objectContaining({ reason: expect.objectContaining({ status: 409 }) })
+    ]);
+    expect(stored().statusHistory).toHaveLength(2);
+  });
+
+  test('only the owner or an admin can resolve an accepted alert', async () => {
+    await AlertService.accept('A1', officer('u1'));
+
+    await expect(AlertService.resolve('A1', officer('u2'), 'Done')).rejects.toMatchObject({ status: 403 });
+    await expect(AlertService.resolve('A1', officer('u1'), ' ')).rejects.toMatchObject({ status: 400 });
+
+    const alert = await AlertService.resolve('A1', officer('u1'), 'Tourist found safe');
+    expect(alert).toMatchObject({ status: 'resolved', resolution: 'Tourist found safe' });
+  });
+
+  test('reopening clears the previous owner and resolution', async () => {
+    await AlertService.accept('A1', officer('u1'));
+    await AlertService.resolve('A1', officer('u1'), 'Tourist found safe');
+
+    const alert = await AlertService.reopen('A1', officer('u2'), 'Called again');
+
+    expect(alert.status).toBe('open');
+    expect(alert).not.toHaveProperty('resolution');
+    expect(alert).not.toHaveProperty('acceptedBy');
+    expect(alert).not.toHaveProperty('resolvedAt');
+  });
+
+  test('an SOS response goes through the same transitions', async () => {
+    const alert = await AlertService.respond('A1', officer('u1'), { status: 'acknowledged', response: 'On our way' });
+
+    expect(alert).toMatchObject({ status: 'acknowledged', responseDetails: 'On our way', respondedBy: 'u1' });
+    expect(alert.statusHistory.at(-1)).toMatchObject({ action: 'acknowledge' });
+    await expect(AlertService.respond('A1', officer('u1'), { status: 'acknowledged' })).rejects.toMatchObject({ status: 409 });
+  });
+});
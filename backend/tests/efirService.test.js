@@ -0,0 +1,102 @@
+'use strict';
+
+// nanoid v5 is ESM-only, so Jest cannot require it
+jest.mock('nanoid', () => ({ customAlphabet: () => () => 'ABCDEF12' }));
+
+jest.mock('../models/fir.model', () => {
+  const { matches, applyUpdate, query } = require('./helpers/memoryStore');
+  const efirs = [];
+  return {
+    efirs,
+    findOne: jest.fn(filter => {
+      const doc = efirs.find(f => matches(f, filter));
+      return query(doc ? { ...doc } : null);
+    }),
+    findOneAndUpdate: jest.fn((filter, update) => {
+      const doc = efirs.find(f => matches(f, filter));
+      return query(doc ? { ...applyUpdate(doc, update) } : null);
+    }),
+    updateOne: jest.fn().mockResolvedValue({})
+  };
+});
+
+jest.mock('../models/user.model', () => {
+  const { query } = require('./helpers/memoryStore');
+  return {
+    find: jest.fn(() => query([])),
+    findOne: jest.fn(({ _id }) => query({ _id }))
+  };
+});
+
+jest.mock('../services/fabricService', () => ({ safeSubmitWithReceipt: jest.fn() }));
+jest.mock('../services/wsService', () => ({ broadcast: jest.fn() }));
+jest.mock('../services/notificationService', () => ({ notifyEfirStatus: jest.fn() }));
+
+const EFIR = require('../models/fir.model');
+const { safeSubmitWithReceipt } = require('../services/fabricService');
+const EfirService = require('../services/efirService');
+
+const officer = id => ({ _id: id, name: `Officer ${id}`, roles: ['police'] });
+
+const stored = () => EFIR.efirs[0];
+
+beforeEach(() => {
+  EFIR.efirs.length = 0;
+  EFIR.efirs.push({ _id: 'F1', efirId: 'EFIR-1', touristId: 'T-300', status: 'submitted', statusHistory: [] });
+  jest.clearAllMocks();
+  safeSubmitWithReceipt.mockResolvedValue({ txId: 'tx-1' });
+});
+
+describe('e-FIR workflow', () => {
+  test('assigning starts the review and records the transition on the ledger', async () => {
+    const efir = await EfirService.assign('EFIR-1', officer('u1'));
+
+    expect(efir).toMatchObject({ status: 'under_review', assignedTo: 'u1' });
+    expect(safeSubmitWithReceipt).toHaveBeenCalledWith(
+      'org1', expect.any(String), 'RecordEFIRUpdate', expect.any(String), 'T-300', expect.any(String)
+    );
+    expect(JSON.parse(safeSubmitWithReceipt.mock.calls[0][5])).toMatchObject({ action: 'assign', status: 'under_review' });
+  });
+
+  test('two officers claiming the same case at once get one winner', async () => {
+    const results = await Promise.allSettled([
+      EfirService.assign('EFIR-1', officer('u1')),
+      EfirService.assign('EFIR-1', officer('u2'))
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(r => r.status === 'rejected').reason.status).toBe(409);
+    expect(stored().statusHistory).toHaveLength(1);
+  });
+
+  test('only the assigned officer resolves, and only cases under review', async () => {
+    await expect(EfirService.resolve('EFIR-1', officer('u1'), 'Closed')).rejects.toMatchObject({ status: 409 });
+
+    await EfirService.assign('EFIR-1', officer('u1'));
+
+    await expect(EfirService.resolve('EFIR-1', officer('u2'), 'Closed')).rejects.toMatchObject({ status: 403 });
+    const efir = await EfirService.resolve('EFIR-1', officer('u1'), 'Property returned');
+    expect(efir).toMatchObject({ status: 'resolved', resolution: 'Property returned' });
+  });
+
+  test('reopening puts the case back under review and clears the resolution', async () => {
+    await EfirService.assign('EFIR-1', officer('u1'));
+    await EfirService.resolve('EFIR-1', officer('u1'), 'Property returned');
+
+    const efir = await EfirService.reopen('EFIR-1', officer('u2'), 'Tourist disputes it');
+
+    expect(efir).toMatchObject({ status: 'under_review', resolution: null, resolvedAt: null });
+    expect(efir.statusHistory.map(e => e.action)).toEqual(['assign', 'resolve', 'reopen']);
+  });
+
+  test('a ledger failure does not undo the transition', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    safeSubmitWithReceipt.mockRejectedValueOnce(new Error('peer unavailable'));
+
+    const efir = await EfirService.assign('EFIR-1', officer('u1'));
+
+    expect(efir.status).toBe('under_review');
+    expect(stored().status).toBe('under_review');
+    console.error.mockRestore();
+  });
+});
@@ -0,0 +1,103 @@
+'use strict';
+
+// nanoid v5 is ESM-only, so Jest cannot require it
+jest.mock('nanoid', () => ({ customAlphabet: () => () => 'ABCDEF12' }));
+
+jest.mock('../models/fir.model', () => {
+  const efirs = [];
+  function EFIR(fields) {
+    Object.assign(this, fields, { _id: `F${efirs.length + 1}` });
+  }
+  EFIR.efirs = efirs;
+  EFIR.prototype.save = jest.fn(async function save() {
+    efirs.push(this);
+    return this;
+  });
+  EFIR.findOne = jest.fn(async ({ idempotencyKey, touristId }) =>
+    efirs.find(f => f.idempotencyKey === idempotencyKey && f.touristId === touristId) || null);
+  EFIR.updateOne = jest.fn(async ({ _id }, { $set }) => {
+    Object.assign(efirs.find(f => f._id === _id), $set);
+  });
+  return EFIR;
+});
+
+jest.mock('../services/fabricService', () => ({
+  safeSubmit: jest.fn(),
+  safeSubmitWithReceipt: jest.fn(),
+  evaluateTransaction: jest.fn()
+}));
+jest.mock('../services/wsService', () => ({ broadcast: jest.fn(), sendToTourist: jest.fn() }));
+
+const EFIR = require('../models/fir.model');
+const { safeSubmitWithReceipt } = require('../services/fabricService');
+const { fileEFIR } = require('../controller/tourist01.controller');
+
+const TOURIST = 'T-400';
+
+function mockRes() {
+  return {
+    statusCode: 200,
+    status(code) { this.statusCode = code; return this; },
+    json(body) { this.body = body; return this; }
+  };
+}
+
+async function file(idempotencyKey) {
+  const res = mockRes();
+  const headers = { 'Idempotency-Key': idempotencyKey };
+  await fileEFIR({
+    user: { walletId: TOURIST },
+    body: {
+      incidentType: 'theft',
+      incidentDetails: 'Bag snatched near the gate',
+      dateTime: '2026-01-01T10:00:00.000Z',
+      location: JSON.stringify({ latitude: 27.17, longitude: 78.04 })
+    },
+    files: [],
+    get: name => headers[name]
+  }, res);
+  return res;
+}
+
+beforeEach(() => {
+  EFIR.efirs.length = 0;
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  safeSubmitWithReceipt.mockResolvedValue({ txId: 'tx-1', blockNumber: 7 });
+});
+
+afterEach(() => console.error.mockRestore());
+
+describe('fileEFIR', () => {
+  test('stores the e-FIR and records it on the ledger', async () => {
+    const res = await file('key-1');
+
+    expect(res.body).toMatchObject({ success: true, efirId: expect.stringMatching(/^EFIR_\d+_ABCDEF12$/) });
+    expect(EFIR.efirs[0]).toMatchObject({ ledgerPending: false, ledger: expect.objectContaining({ txId: 'tx-1' }) });
+  });
+
+  test('a ledger failure still returns the stored e-FIR and the resubmit records it', async () => {
+    safeSubmitWithReceipt.mockRejectedValueOnce(new Error('peer unavailable'));
+    const first = await file('key-1');
+
+    expect(first.statusCode).toBe(200);
+    expect(first.body).toMatchObject({ success: true, efirId: EFIR.efirs[0].efirId });
+    expect(EFIR.efirs[0].ledgerPending).toBe(true);
+
+    const retry = await file('key-1');
+
+    expect(retry.body).toMatchObject({ success: true, efirId: first.body.efirId, duplicate: true });
+    expect(EFIR.efirs).toHaveLength(1);
+    expect(safeSubmitWithReceipt).toHaveBeenCalledTimes(2);
+    expect(EFIR.efirs[0].ledgerPending).toBe(false);
+  });
+
+  test('a resubmit after success is not recorded again', async () => {
+    await file('key-1');
+    const retry = await file('key-1');
+
+    expect(retry.body.duplicate).toBe(true);
+    expect(EFIR.efirs).toHaveLength(1);
+    expect(safeSubmitWithReceipt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+'use strict';
+
+// Just enough of MongoDB's filter and update semantics for the service tests.
+// null in a filter matches a missing field, as it does in Mongo.
+function matches(doc, filter) {
+  return Object.entries(filter).every(([key, cond]) => {
+    const value = doc[key];
+    if (cond === null) return value === null || value === undefined;
+    if (cond && cond.$in) return cond.$in.some(v => String(v) === String(value));
+    return String(value) === String(cond);
+  });
+}
+
+function applyUpdate(doc, { $set = {}, $unset = {}, $push = {} }) {
+  Object.assign(doc, $set);
+  Object.keys($unset).forEach(key => delete doc[key]);
+  Object.entries($push).forEach(([key, value]) => {
+    doc[key] = [...(doc[key] || []), value];
+  });
+  return doc;
+}
+
+// Resolves to `value`, and lets the usual query modifiers be chained first.
+// sort() and limit() apply when `value` is a list of documents.
+function query(value) {
+  let order = null;
+  let max = Infinity;
+  const run = () => {
+    if (!Array.isArray(value)) return Promise.resolve(value);
+    const [key, dir] = order ? Object.entries(order)[0] : [];
+    const sorted = key ? [...value].sort((a, b) => (a[key] > b[key] ? 1 : a[key] < b[key] ? -1 : 0) * dir) : value;
+    return Promise.resolve(sorted.slice(0, max));
+  };
+  const q = {
+    select: () => q,
+    sort: spec => { order = spec; return q; },
+    limit: n => { max = n; return q; },
+    populate: () => q,
+    lean: run,
+    then: (resolve, reject) => run().then(resolve, reject),
+    catch: reject => run().catch(reject)
+  };
+  return q;
+}
+
+module.exports = { matches, applyUpdate, query };
@@ -0,0 +1,148 @@
+'use strict';
+
+// nanoid v5 is ESM-only, so Jest cannot require it
+jest.mock('nanoid', () => ({ customAlphabet: () => () => 'ABCDEF12' }));
+
+jest.mock('../models/location.model', () => {
+  const { matches, applyUpdate, query } = require('./helpers/memoryStore');
+  const docs = [];
+  let nextId = 1;
+  return {
+    docs,
+    find: jest.fn(filter => query(docs.filter(d => matches(d, filter)).map(d => ({ ...d })))),
+    // Mirrors the unique { touristId, ts } index with ordered: false
+    insertMany: jest.fn(async items => {
+      const writeErrors = [];
+      items.forEach((item, index) => {
+        const taken = docs.some(d => d.touristId === item.touristId && d.ts.getTime() === item.ts.getTime());
+        if (taken) writeErrors.push({ index, code: 11000 });
+        else docs.push({ _id: nextId++, ...item });
+      });
+      if (writeErrors.length) throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000, writeErrors });
+    }),
+    updateMany: jest.fn(async (filter, update) => {
+      docs.filter(d => matches(d, filter)).forEach(d => applyUpdate(d, update));
+    })
+  };
+});
+
+jest.mock('../models/digitalId.model', () => ({ updateOne: jest.fn().mockResolvedValue({}) }));
+jest.mock('../services/fabricService', () => ({
+  safeSubmit: jest.fn(),
+  safeSubmitWithReceipt: jest.fn(),
+  evaluateTransaction: jest.fn()
+}));
+jest.mock('../services/mlService.js', () => ({
+  checkGeofence: jest.fn().mockResolvedValue([]),
+  analyzeSequence: jest.fn()
+}));
+jest.mock('../services/wsService', () => ({ broadcast: jest.fn(), sendToTourist: jest.fn() }));
+
+const { query } = require('./helpers/memoryStore');
+const Location = require('../models/location.model');
+const { safeSubmit } = require('../services/fabricService');
+const mlService = require('../services/mlService.js');
+const { locationUpdate } = require('../controller/tourist01.controller');
+
+const TOURIST = 'T-100';
+
+function mockRes() {
+  return {
+    statusCode: 200,
+    status(code) { this.statusCode = code; return this; },
+    json(body) { this.body = body; return this; }
+  };
+}
+
+async function upload(locations) {
+  const res = mockRes();
+  await locationUpdate({ user: { walletId: TOURIST }, body: { deviceId: 'dev-1', locations } }, res);
+  return res;
+}
+
+const point = (minute, extra = {}) => ({
+  lat: 27.17 + minute / 1000,
+  lon: 78.04,
+  ts: new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString(),
+  ...extra
+});
+
+const ledgerBatches = () => safeSubmit.mock.calls
+  .filter(call => call[2] === 'RecordLocationBatch')
+  .map(call => JSON.parse(call[5]));
+
+afterEach(() => jest.restoreAllMocks());
+
+beforeEach(() => {
+  Location.docs.length = 0;
+  jest.clearAllMocks();
+  safeSubmit.mockResolvedValue({});
+});
+
+describe('locationUpdate', () => {
+  test('rejects points without a timestamp', async () => {
+    const res = await upload([point(1), { lat: 27.1, lon: 78.0 }]);
+
+    expect(res.statusCode).toBe(400);
+    expect(Location.insertMany).not.toHaveBeenCalled();
+  });
+
+  test('stores each timestamp once and records the batch as one ledger event', async () => {
+    const res = await upload([point(2), point(1), point(2, { lat: 1 })]);
+
+    expect(res.body).toMatchObject({ success: true, accepted: 2, duplicates: 1 });
+    expect(Location.docs.map(d => d.ts.toISOString())).toEqual([point(1).ts, point(2).ts]);
+
+    const batches = ledgerBatches();
+    expect(batches).toHaveLength(1);
+    expect(batches[0].points.map(p => p.ts)).toEqual([point(1).ts, point(2).ts]);
+    expect(Location.docs.every(d => !d.ledgerPending && d.ledgerEventId)).toBe(true);
+  });
+
+  test('a retried upload is reported as duplicates and not recorded again', async () => {
+    await upload([point(1), point(2)]);
+    const res = await upload([point(1), point(2)]);
+
+    expect(res.body).toMatchObject({ success: true, accepted: 0, duplicates: 2 });
+    expect(Location.docs).toHaveLength(2);
+    expect(ledgerBatches()).toHaveLength(1);
+    expect(mlService.checkGeofence).toHaveBeenCalledTimes(2);
+  });
+
+  test('points stored by a concurrent upload are counted as duplicates', async () => {
+    await upload([point(1)]);
+    // The other upload inserts between this one's duplicate check and its insert
+    Location.find.mockImplementationOnce(() => query([]));
+
+    const res = await upload([point(1), point(2)]);
+
+    expect(res.body).toMatchObject({ success: true, accepted: 1, duplicates: 1 });
+    expect(Location.docs).toHaveLength(2);
+  });
+
+  test('an ML outage still acknowledges a stored batch', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mlService.checkGeofence.mockRejectedValueOnce(new Error('timeout of 10000ms exceeded'));
+
+    const res = await upload([point(1), point(2)]);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ success: true, accepted: 2, anomaly: null, geofences: [] });
+  });
+
+  test('points stay ledger-pending when the ledger write fails and a retry records them', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    safeSubmit.mockRejectedValueOnce(new Error('peer unavailable'));
+    const first = await upload([point(1), point(2)]);
+
+    expect(first.body).toMatchObject({ success: true, accepted: 2 });
+    expect(Location.docs.every(d => d.ledgerPending)).toBe(true);
+
+    const retry = await upload([point(1), point(2)]);
+
+    expect(retry.body).toMatchObject({ accepted: 0, duplicates: 2 });
+    expect(ledgerBatches()).toHaveLength(2);
+    expect(ledgerBatches()[1].points).toHaveLength(2);
+    expect(Location.docs.every(d => !d.ledgerPending)).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+'use strict';
+
+// nanoid v5 is ESM-only, so Jest cannot require it
+jest.mock('nanoid', () => ({ customAlphabet: () => () => 'ABCDEF12' }));
+
+jest.mock('../models/alert.model', () => {
+  const alerts = [];
+  function Alert(fields) {
+    Object.assign(this, fields, { _id: `A${alerts.length + 1}`, createdAt: new Date() });
+  }
+  Alert.alerts = alerts;
+  Alert.prototype.save = jest.fn(async function save() {
+    alerts.push(this);
+    return this;
+  });
+  Alert.findOne = jest.fn(async ({ idempotencyKey, touristId }) =>
+    alerts.find(a => a.idempotencyKey === idempotencyKey && a.touristId === touristId) || null);
+  Alert.updateOne = jest.fn(async ({ _id }, { $set }) => {
+    Object.assign(alerts.find(a => a._id === _id), $set);
+  });
+  return Alert;
+});
+
+jest.mock('../models/digitalId.model', () => ({ findOne: jest.fn() }));
+jest.mock('../services/fabricService', () => ({
+  safeSubmit: jest.fn(),
+  safeSubmitWithReceipt: jest.fn(),
+  evaluateTransaction: jest.fn()
+}));
+jest.mock('../services/notificationService', () => ({
+  notifyEmergencyContact: jest.fn(),
+  notifyAuthorities: jest.fn(),
+  notifySosStatus: jest.fn()
+}));
+jest.mock('../utils/aes', () => ({
+  encryptObject: jest.fn(),
+  decryptObject: jest.fn(() => [{ name: 'Asha', phone: '+919800000000' }])
+}));
+jest.mock('../services/wsService', () => ({ broadcast: jest.fn(), sendToTourist: jest.fn() }));
+
+const SosAlert = require('../models/alert.model');
+const DigitalId = require('../models/digitalId.model');
+const { safeSubmit } = require('../services/fabricService');
+const NotificationService = require('../services/notificationService');
+const { sosAlert } = require('../controller/tourist01.controller');
+
+const TOURIST = 'T-200';
+
+function mockRes() {
+  return {
+    statusCode: 200,
+    status(code) { this.statusCode = code; return this; },
+    json(body) { this.body = body; return this; }
+  };
+}
+
+async function sendSos(idempotencyKey) {
+  const res = mockRes();
+  const headers = { 'Idempotency-Key': idempotencyKey };
+  await sosAlert({
+    user: { walletId: TOURIST },
+    body: { deviceId: 'dev-1', location: { lat: 27.17, lng: 78.04 }, message: 'Help' },
+    get: name => headers[name]
+  }, res);
+  return res;
+}
+
+const sosLedgerWrites = () => safeSubmit.mock.calls.filter(call => call[2] === 'RecordSOS');
+
+beforeEach(() => {
+  SosAlert.alerts.length = 0;
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  DigitalId.findOne.mockResolvedValue({ digitalId: TOURIST, emergencyContactsEncrypted: { data: 'enc' } });
+  safeSubmit.mockResolvedValue({});
+});
+
+afterEach(() => console.error.mockRestore());
+
+describe('sosAlert', () => {
+  test('creates one alert, notifies and records it on the ledger', async () => {
+    const res = await sendSos('key-1');
+
+    expect(res.body).toMatchObject({ success: true, alertId: 'A1' });
+    expect(NotificationService.notifyEmergencyContact).toHaveBeenCalledTimes(1);
+    expect(NotificationService.notifyAuthorities).toHaveBeenCalledTimes(1);
+    expect(sosLedgerWrites()).toHaveLength(1);
+    expect(SosAlert.alerts[0]).toMatchObject({ notifiedAt: expect.any(Date), ledgerEventId: expect.any(String) });
+  });
+
+  test('a retry with the same key returns the same alert without notifying again', async () => {
+    await sendSos('key-1');
+    const retry = await sendSos('key-1');
+
+    expect(retry.body).toMatchObject({ success: true, alertId: 'A1', duplicate: true });
+    expect(SosAlert.alerts).toHaveLength(1);
+    expect(NotificationService.notifyAuthorities).toHaveBeenCalledTimes(1);
+    expect(sosLedgerWrites()).toHaveLength(1);
+  });
+
+  test('a ledger failure does not hold back notifications and the retry records the event', async () => {
+    safeSubmit.mockRejectedValueOnce(new Error('peer unavailable'));
+    const first = await sendSos('key-1');
+
+    expect(first.body).toMatchObject({ success: true });
+    expect(NotificationService.notifyAuthorities).toHaveBeenCalledTimes(1);
+    expect(SosAlert.alerts[0].ledgerEventId).toBeUndefined();
+
+    const retry = await sendSos('key-1');
+
+    expect(retry.body.duplicate).toBe(true);
+    expect(NotificationService.notifyAuthorities).toHaveBeenCalledTimes(1);
+    expect(sosLedgerWrites()).toHaveLength(2);
+    expect(SosAlert.alerts[0].ledgerEventId).toEqual(expect.any(String));
+  });
+
+  test('a retry finishes notifying when the first request stopped before it', async () => {
+    NotificationService.notifyAuthorities.mockRejectedValueOnce(new Error('SMS gateway down'));
+    const first = await sendSos('key-1');
+    expect(first.statusCode).toBe(500);
+
+    const retry = await sendSos('key-1');
+
+    expect(retry.body).toMatchObject({ success: true, duplicate: true });
+    expect(NotificationService.notifyAuthorities).toHaveBeenCalledTimes(2);
+    expect(SosAlert.alerts[0].notifiedAt).toEqual(expect.any(Date));
+  });
+
+  test('tourists without emergency contacts still reach the authorities', async () => {
+    DigitalId.findOne.mockResolvedValue({ digitalId: TOURIST });
+
+    const res = await sendSos('key-2');
+
+    expect(res.body.success).toBe(true);
+    expect(NotificationService.notifyEmergencyContact).not.toHaveBeenCalled();
+    expect(NotificationService.notifyAuthorities).toHaveBeenCalledWith(expect.objectContaining({ emergencyContacts: [] }));
+  });
+
+  test('the same key from another tourist creates a separate alert', async () => {
+    await sendSos('key-1');
+    SosAlert.alerts[0].touristId = 'T-other';
+
+    const res = await sendSos('key-1');
+
+    expect(res.body.duplicate).toBeUndefined();
+    expect(SosAlert.alerts).toHaveLength(2);
+  });
+});
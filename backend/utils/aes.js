@@ -0,0 +1,34 @@
+'use strict';
+const crypto = require('crypto');
+
+// AES-256-GCM for PII stored in Mongo (itineraries, emergency contacts)
+const AES_KEY = process.env.AES_256_KEY;
+
+function getAesKeyBuffer() {
+  if (!AES_KEY) throw new Error('AES_256_KEY env var not set');
+  if (/^[0-9a-fA-F]{64}$/.test(AES_KEY)) return Buffer.from(AES_KEY, 'hex');
+  return Buffer.from(AES_KEY, 'base64');
+}
+
+function encryptObject(obj) {
+  const key = getAesKeyBuffer();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const plaintext = Buffer.from(JSON.stringify(obj), 'utf8');
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return { iv: iv.toString('hex'), data: encrypted.toString('hex'), tag: tag.toString('hex') };
+}
+
+function decryptObject(encryptedObj) {
+  const key = getAesKeyBuffer();
+  const iv = Buffer.from(encryptedObj.iv, 'hex');
+  const encryptedData = Buffer.from(encryptedObj.data, 'hex');
+  const tag = Buffer.from(encryptedObj.tag, 'hex');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  const decrypted = Buffer.concat([decipher.update(encryptedData), decipher.final()]);
+  return JSON.parse(decrypted.toString('utf8'));
+}
+
+module.exports = { encryptObject, decryptObject };
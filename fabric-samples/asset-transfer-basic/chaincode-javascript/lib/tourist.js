@@ -74,13 +74,13 @@ const TOURIST_SCHEMA = {
     additionalProperties: false
 };
 
-// Schema for events (location, SOS, feedback, eFIR, anomaly)
+// Schema for events (location, SOS, feedback, eFIR, eFIR case updates, anomaly)
 const EVENT_SCHEMA = {
     type: 'object',
     properties: {
         eventId: { type: 'string' },
         touristId: { type: 'string' },
-        type: { type: 'string', enum: ['location', 'sos', 'feedback', 'efir', 'anomaly'] },
+        type: { type: 'string', enum: ['location', 'sos', 'feedback', 'efir', 'efir_update', 'anomaly'] },
         timestamp: { type: 'string', format: 'date-time' },
         data: { type: 'object' }
     },
@@ -320,6 +320,70 @@ class TouristContract extends Contract {
         return event;
     }
 
+    /**
+     * Record a batch of location points for a tourist in one event
+     */
+    async RecordLocationBatch(ctx, eventId, touristId, batchJSON) {
+        this._requireRole(ctx, ['issuer', 'police', 'admin', 'Org1MSP']);
+
+        if (!eventId || !touristId || !batchJSON) {
+            throw new Error('eventId, touristId, and batchJSON are required');
+        }
+
+        const touristKey = this.makeKey(ctx, touristId);
+        const touristData = await ctx.stub.getState(touristKey);
+        if (!touristData || touristData.length === 0) {
+            throw new Error(`Tourist ${touristId} not found`);
+        }
+
+        let batch;
+        try {
+            batch = JSON.parse(batchJSON);
+        } catch (err) {
+            throw new Error('Invalid location batch JSON: ' + err.message);
+        }
+        if (!Array.isArray(batch.points) || batch.points.length === 0) {
+            throw new Error('Location batch requires at least one point');
+        }
+
+        const now = new Date(ctx.stub.getTxTimestamp().seconds * 1000);
+        const timestamp = now.toISOString();
+
+        const event = {
+            eventId,
+            touristId,
+            type: 'location',
+            timestamp,
+            data: batch
+        };
+
+        const valid = validateEvent(event);
+        if (!valid) {
+            throw new Error('Event validation failed: ' + JSON.stringify(validateEvent.errors));
+        }
+
+        const eventKey = this.makeEventKey(ctx, eventId);
+        await ctx.stub.putState(eventKey, Buffer.from(JSON.stringify(event)));
+
+        // Points arrive oldest first; the last one is the latest known location
+        const tourist = JSON.parse(touristData.toString());
+        tourist.metadata = tourist.metadata || {};
+        tourist.metadata.lastKnownLocation = { ...batch.points[batch.points.length - 1], deviceId: batch.deviceId };
+        tourist.updatedAt = timestamp;
+
+        await ctx.stub.putState(touristKey, Buffer.from(JSON.stringify(tourist)));
+
+        ctx.stub.setEvent('LocationRecorded', Buffer.from(JSON.stringify({
+            eventId,
+            touristId,
+            count: batch.points.length,
+            timestamp,
+            txId: ctx.stub.getTxID()
+        })));
+
+        return event;
+    }
+
     /**
      * Record SOS alert for a tourist
      */
@@ -485,6 +549,60 @@ class TouristContract extends Contract {
         return event;
     }
 
+    /**
+     * Record a change to an e-FIR case (assignment, review, resolution)
+     */
+    async RecordEFIRUpdate(ctx, eventId, touristId, updateJSON) {
+        this._requireRole(ctx, ['issuer', 'police', 'admin', 'Org1MSP']);
+
+        if (!eventId || !touristId || !updateJSON) {
+            throw new Error('eventId, touristId, and updateJSON are required');
+        }
+
+        let update;
+        try {
+            update = JSON.parse(updateJSON);
+        } catch (err) {
+            throw new Error('Invalid eFIR update JSON: ' + err.message);
+        }
+        if (!update.efirId || !update.action || !update.status) {
+            throw new Error('eFIR update requires efirId, action and status');
+        }
+
+        const now = new Date(ctx.stub.getTxTimestamp().seconds * 1000);
+        const timestamp = now.toISOString();
+
+        const event = {
+            eventId,
+            touristId,
+            type: 'efir_update',
+            timestamp,
+            data: update
+        };
+
+        // Validate event
+        const valid = validateEvent(event);
+        if (!valid) {
+            throw new Error('Event validation failed: ' + JSON.stringify(validateEvent.errors));
+        }
+
+        // Save event
+        const eventKey = this.makeEventKey(ctx, eventId);
+        await ctx.stub.putState(eventKey, Buffer.from(JSON.stringify(event)));
+
+        ctx.stub.setEvent('EFIRStatusChanged', Buffer.from(JSON.stringify({
+            eventId,
+            touristId,
+            efirId: update.efirId,
+            action: update.action,
+            status: update.status,
+            timestamp,
+            txId: ctx.stub.getTxID()
+        })));
+
+        return event;
+    }
+
     /**
      * Record anomaly detection for a tourist
      */
@@ -2,7 +2,7 @@ from flask import Flask, request, jsonify
 from flask_socketio import SocketIO, emit
 import torch, joblib, numpy as np, os, time
 from models.transformer_model import TransformerAutoencoder
-from utils.geo_utils import load_geofences, check_geofence, save_geofences
+from utils.geo_utils import load_geofences, check_geofence, save_geofences, geofences_version
 from utils.feature_utils import compute_features
 from shapely.geometry import Polygon, mapping
 from datetime import datetime
@@ -130,6 +130,32 @@ def ingest_ping():
 
     return jsonify({'status': 'ok', 'actions': actions})
 
+@app.route('/geofences', methods=['GET'])
+def list_geofences():
+    """ Active geofence set for clients that evaluate zones on the device. """
+    current = load_geofences()
+    if isinstance(current, dict):
+        current = [current]
+
+    # Shapely polygons are not JSON serialisable; clients rebuild them from the vertices
+    cleaned = [{k: v for k, v in g.items() if k != 'polygon'} for g in current]
+    return jsonify({'status': 'ok', 'version': geofences_version(), 'geofences': cleaned})
+
+
+@app.route('/geofences', methods=['PUT'])
+def replace_geofences():
+    """ Replaces the whole set; the Node backend owns geofences and pushes every change here. """
+    global geofences
+    data = request.get_json(force=True) or {}
+    incoming = data.get('geofences')
+    if not isinstance(incoming, list):
+        return jsonify({'status': 'error', 'message': 'geofences must be a list'}), 400
+
+    save_geofences(incoming)
+    geofences = load_geofences()  # rebuild polygons so /ingest/ping uses the new set
+    return jsonify({'status': 'ok', 'version': geofences_version(), 'total_geofences': len(geofences)})
+
+
 @app.route('/add_geofence', methods=['POST'])
 def add_geofence():
     data = request.get_json()
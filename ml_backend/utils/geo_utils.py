@@ -32,6 +32,11 @@ def check_geofence(lat, lon, geofences):
                 return g
     return None
 
+def geofences_version(path='data/geofences.json'):
+    """Version of the stored geofence set, bumped whenever the file is rewritten."""
+    return os.stat(path).st_mtime_ns // 1_000_000
+
+
 def save_geofences(geofences, path='data/geofences.json'):
     """Write geofences list/dict back to JSON file."""
     os.makedirs(os.path.dirname(path), exist_ok=True)  # ensure folder exists
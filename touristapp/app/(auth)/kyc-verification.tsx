@@ -11,26 +11,42 @@ import {
   Image,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { CreditCard, CircleCheck as CheckCircle, Upload, Camera, FileText, User, Calendar } from 'lucide-react-native';
+import { CreditCard, CircleCheck as CheckCircle, Upload, Camera, FileText, User, Calendar, Clock, CircleAlert as AlertCircle } from 'lucide-react-native';
 import { router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 import { useAppContext } from '../context/AppContext';
 import Storage from '../utils/storage';
-
-interface Document {
-  uri: string;
-  name: string;
-  type: 'photo' | 'document';
-}
+import RealtimeService from '../services/realtime';
+import {
+  KycDocument as Document,
+  KycState,
+  KycStatusUpdate,
+  getKycErrorMessage,
+  getKycOutcome,
+  getMyKyc,
+  getRetryAfter,
+  resendOtp as requestOtpResend,
+  submitKyc,
+  verifyOtpKyc,
+} from '../api/kyc';
+
+type Step = 'details' | 'otp' | 'review' | 'done';
+
+const STEP_NUMBER: Record<Step, 1 | 2 | 3> = { details: 1, otp: 2, review: 2, done: 3 };
+const DEFAULT_RESEND_SECONDS = 60;
+// Fallback for a missed realtime push while waiting on a reviewer
+const REVIEW_POLL_INTERVAL_MS = 30000;
 
 export default function KYCVerification() {
   const { user, refreshUser } = useAppContext();
-  const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const [step, setStep] = useState<Step>('details');
   const [loading, setLoading] = useState(false);
   const [otpTimer, setOtpTimer] = useState(0);
   const [requestId, setRequestId] = useState<string | null>(null);
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [reviewReason, setReviewReason] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
 
   const [formData, setFormData] = useState({
     name: user?.name || '',
@@ -41,6 +57,81 @@ export default function KYCVerification() {
     otp: '',
   });
 
+  const finishVerified = async () => {
+    setStep('done');
+    // The root layout moves on to trip details once the user reports verified
+    await refreshUser();
+  };
+
+  // Move the screen to wherever the backend says this tourist is
+  const applyKycState = ({ kycStatus, request }: KycState) => {
+    if (kycStatus === 'verified' || request?.status === 'approved' || request?.status === 'auto_approved') {
+      finishVerified();
+      return;
+    }
+    if (!request) return;
+
+    if (request.status === 'rejected') {
+      setRejection(request.reviewComment || 'Your verification was rejected.');
+      setStep('details');
+    } else if (request.manualReview) {
+      setRequestId(request.requestId);
+      setReviewReason(request.reason);
+      setStep('review');
+    } else {
+      setRequestId(request.requestId);
+      setStep('otp');
+    }
+  };
+
+  const loadKycState = async () => {
+    const token = await Storage.getItem('token');
+    if (!token) return null;
+    try {
+      const state = await getMyKyc(token);
+      applyKycState(state);
+      return state;
+    } catch (err) {
+      console.log('Could not load KYC status:', err);
+      return null;
+    }
+  };
+
+  // Resume a submission made earlier (OTP not entered yet, or waiting on a reviewer)
+  useEffect(() => {
+    loadKycState();
+  }, []);
+
+  // While a reviewer decides, listen for their decision and poll as a fallback
+  useEffect(() => {
+    if (step !== 'review') return;
+
+    const check = async () => {
+      const state = await loadKycState();
+      if (state?.request?.status === 'rejected') {
+        Alert.alert('KYC Rejected', state.request.reviewComment || 'Your verification was rejected.');
+      }
+    };
+
+    RealtimeService.connect();
+    const offStatus = RealtimeService.on('kyc_status', (update: KycStatusUpdate) => {
+      if (update.requestId === requestId) check();
+    });
+    const offConnect = RealtimeService.onConnect(check);
+    const timer = setInterval(check, REVIEW_POLL_INTERVAL_MS);
+    return () => {
+      offStatus();
+      offConnect();
+      clearInterval(timer);
+    };
+  }, [step, requestId]);
+
+  useEffect(() => {
+    if (otpTimer <= 0) return;
+    const timeout = setTimeout(() => setOtpTimer((prev) => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [otpTimer]);
+
   const handleSubmitKyc = async () => {
     const { name, dob, aadhaarNumber, passportNumber, nationality } = formData;
     
@@ -48,28 +139,46 @@ export default function KYCVerification() {
       return Alert.alert('Error', 'Please fill all required fields');
     }
 
+    const token = await Storage.getItem('token');
+    if (!token) return Alert.alert('Error', 'Please sign in again');
+
     setLoading(true);
     try {
-      // Simulate KYC submission
-      const mockResponse = {
-        success: true,
-        data: {
-          requestId: `KYC-${Date.now()}`,
-          message: 'KYC submitted successfully. OTP sent to your registered mobile number.',
-        }
-      };
+      const response = await submitKyc(
+        {
+          name,
+          dob,
+          nationality,
+          aadhaarNumber: aadhaarNumber || undefined,
+          passportNumber: aadhaarNumber ? undefined : passportNumber,
+          documents,
+        },
+        token
+      );
 
-      if (mockResponse.success && mockResponse.data?.requestId) {
-        setRequestId(mockResponse.data.requestId);
-        setCurrentStep(2);
-        startOtpTimer();
-        Alert.alert('Success', mockResponse.data.message);
+      setRequestId(response.requestId);
+      setRejection(null);
+      if (response.outcome === 'otp_sent') {
+        setFormData((prev) => ({ ...prev, otp: '' }));
+        setOtpTimer(response.resendAfter ?? DEFAULT_RESEND_SECONDS);
+        setStep('otp');
+        Alert.alert('OTP Sent', response.message);
       } else {
-        Alert.alert('Error', 'KYC submission failed');
+        setReviewReason(null);
+        setStep('review');
+        Alert.alert('Submitted for Review', response.message);
+      }
+    } catch (err) {
+      const outcome = getKycOutcome(err);
+      if (outcome === 'already_verified') {
+        Alert.alert('Already Verified', getKycErrorMessage(err, 'Your KYC is already verified'));
+        await finishVerified();
+      } else if (outcome === 'manual_review') {
+        await loadKycState();
+      } else {
+        console.error(err);
+        Alert.alert('Error', getKycErrorMessage(err, 'Failed to submit KYC'));
       }
-    } catch (err: any) {
-      console.error(err);
-      Alert.alert('Error', err.message || 'Failed to submit KYC');
     } finally {
       setLoading(false);
     }
@@ -77,29 +186,18 @@ export default function KYCVerification() {
 
   const handleVerifyOtp = async () => {
     if (!formData.otp || !requestId) return Alert.alert('Error', 'Enter OTP');
+
+    const token = await Storage.getItem('token');
+    if (!token) return Alert.alert('Error', 'Please sign in again');
     
     setLoading(true);
     try {
-      // Simulate OTP verification
-      const mockResponse = {
-        success: true,
-        data: {
-          message: 'KYC verified successfully! You can now proceed to trip registration.',
-        }
-      };
-
-      if (mockResponse.success) {
-        setCurrentStep(3);
-        // Update user context to reflect KYC verification
-        await refreshUser();
-        Alert.alert('Success', mockResponse.data?.message || 'KYC Verified');
-      } else {
-        Alert.alert('Error', 'OTP verification failed');
-        setCurrentStep(1);
-      }
-    } catch (err: any) {
+      const response = await verifyOtpKyc({ requestId, otp: formData.otp }, token);
+      Alert.alert('Success', response.message || 'KYC Verified');
+      await finishVerified();
+    } catch (err) {
       console.error(err);
-      Alert.alert('Error', err.message || 'Failed to verify OTP');
+      Alert.alert('Error', getKycErrorMessage(err, 'Failed to verify OTP'));
     } finally {
       setLoading(false);
     }
@@ -143,23 +241,26 @@ export default function KYCVerification() {
     setDocuments(prev => prev.filter((_, i) => i !== index));
   };
 
-  const startOtpTimer = () => {
-    setOtpTimer(60);
-    const timerInterval = setInterval(() => {
-      setOtpTimer((prev) => {
-        if (prev <= 1) {
-          clearInterval(timerInterval);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
+  const resendOtp = async () => {
+    if (otpTimer > 0 || !requestId) return;
 
-  const resendOtp = () => {
-    if (otpTimer > 0) return;
-    Alert.alert('OTP', 'OTP resent successfully');
-    startOtpTimer();
+    const token = await Storage.getItem('token');
+    if (!token) return Alert.alert('Error', 'Please sign in again');
+
+    try {
+      const response = await requestOtpResend(requestId, token);
+      setOtpTimer(response.resendAfter);
+      Alert.alert('OTP', response.message);
+    } catch (err) {
+      const retryAfter = getRetryAfter(err);
+      if (retryAfter) {
+        setOtpTimer(retryAfter);
+        return;
+      }
+      Alert.alert('Error', getKycErrorMessage(err, 'Failed to resend OTP'));
+      // The request may have moved on (verified, or sent for review) since this screen loaded it
+      await loadKycState();
+    }
   };
 
   const proceedToTripDetails = () => {
@@ -167,7 +268,7 @@ export default function KYCVerification() {
   };
 
   const renderStepContent = () => {
-    if (currentStep === 1) {
+    if (step === 'details') {
       return (
         <View style={styles.stepContent}>
           <View style={styles.stepHeader}>
@@ -180,6 +281,17 @@ export default function KYCVerification() {
             </Text>
           </View>
 
+          {rejection && (
+            <View style={styles.rejectionBox}>
+              <AlertCircle size={20} color="#DC2626" />
+              <View style={styles.rejectionContent}>
+                <Text style={styles.rejectionTitle}>Verification rejected</Text>
+                <Text style={styles.rejectionText}>{rejection}</Text>
+                <Text style={styles.rejectionHint}>Correct your details or documents and submit again.</Text>
+              </View>
+            </View>
+          )}
+
           <View style={styles.form}>
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Full Name *</Text>
@@ -309,7 +421,7 @@ export default function KYCVerification() {
       );
     }
 
-    if (currentStep === 2) {
+    if (step === 'otp') {
       return (
         <View style={styles.stepContent}>
           <View style={styles.stepHeader}>
@@ -333,7 +445,7 @@ export default function KYCVerification() {
               textAlign="center"
             />
             <Text style={styles.otpTimer}>
-              {otpTimer > 0 ? `Resend OTP in ${otpTimer}s` : 'OTP expired'}
+              {otpTimer > 0 ? `Resend OTP in ${otpTimer}s` : "Didn't get it? You can resend the OTP now"}
             </Text>
           </View>
 
@@ -362,7 +474,38 @@ export default function KYCVerification() {
       );
     }
 
-    if (currentStep === 3) {
+    if (step === 'review') {
+      return (
+        <View style={styles.stepContent}>
+          <View style={styles.stepHeader}>
+            <View style={styles.stepIcon}>
+              <Clock size={24} color="#F59E0B" />
+            </View>
+            <Text style={styles.stepTitle}>Under Review</Text>
+            <Text style={styles.stepDescription}>
+              An officer is checking your details and documents. This screen moves on by itself once they decide.
+            </Text>
+          </View>
+
+          {reviewReason && (
+            <View style={styles.reviewReasonBox}>
+              <Text style={styles.reviewReasonText}>{reviewReason}</Text>
+            </View>
+          )}
+
+          <View style={styles.reviewWaiting}>
+            <ActivityIndicator color="#4F46E5" />
+            {requestId && <Text style={styles.reviewRequestId}>Request {requestId}</Text>}
+          </View>
+
+          <TouchableOpacity style={styles.resendBtn} onPress={loadKycState}>
+            <Text style={styles.resendText}>Check status now</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (step === 'done') {
       return (
         <View style={styles.stepContent}>
           <View style={styles.successContainer}>
@@ -408,9 +551,9 @@ export default function KYCVerification() {
       {/* Progress Indicator */}
       <View style={styles.progressContainer}>
         <View style={styles.progressBar}>
-          <View style={[styles.progressFill, { width: `${(currentStep / 3) * 100}%` }]} />
+          <View style={[styles.progressFill, { width: `${(STEP_NUMBER[step] / 3) * 100}%` }]} />
         </View>
-        <Text style={styles.progressText}>Step {currentStep} of 3</Text>
+        <Text style={styles.progressText}>Step {STEP_NUMBER[step]} of 3</Text>
       </View>
 
       {renderStepContent()}
@@ -680,6 +823,57 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#374151',
   },
+  rejectionBox: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    marginBottom: 24,
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  rejectionContent: {
+    flex: 1,
+  },
+  rejectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#991B1B',
+    marginBottom: 4,
+  },
+  rejectionText: {
+    fontSize: 14,
+    color: '#7F1D1D',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  rejectionHint: {
+    fontSize: 13,
+    color: '#B91C1C',
+  },
+  reviewReasonBox: {
+    padding: 16,
+    marginBottom: 24,
+    backgroundColor: '#FFFBEB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+  },
+  reviewReasonText: {
+    fontSize: 14,
+    color: '#92400E',
+    textAlign: 'center',
+  },
+  reviewWaiting: {
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  reviewRequestId: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
   submitBtn: { 
     backgroundColor: '#4F46E5', 
     padding: 16, 
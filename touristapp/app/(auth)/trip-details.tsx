@@ -1,8 +1,21 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert, ScrollView, Platform } from 'react-native';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { router } from 'expo-router';
 import { MapPin, Calendar, Users, Phone, Plus, Trash2, User } from 'lucide-react-native';
+import EmergencyService from '../services/emergency';
+import LocationService from '../services/location';
+import Storage from '../utils/storage';
+import { useAppContext } from '../context/AppContext';
+import { registerTourist, getFieldErrors, FieldErrors, ChainTx } from '../api/tourist';
+
+interface Destination {
+  id: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  accommodation: string;
+}
 
 interface EmergencyContact {
   id: string;
@@ -19,25 +32,82 @@ interface FamilyMember {
   phone: string;
 }
 
+// Same rule the ledger applies to contact phone numbers
+const PHONE_PATTERN = /^\+?[\d\s\-()]{10,}$/;
+
+const emptyDestination = (): Destination => ({
+  id: Date.now().toString(),
+  location: '',
+  startDate: '',
+  endDate: '',
+  accommodation: '',
+});
+
+// Dates are typed as YYYY-MM-DD and sent as ISO date-times
+const parseDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+};
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
 export default function TripDetails() {
+  const { refreshUser } = useAppContext();
   const [tripData, setTripData] = useState({
-    destination: '',
-    checkInDate: '',
-    checkOutDate: '',
-    accommodation: '',
     purpose: '',
     groupSize: '1',
   });
 
+  const [destinations, setDestinations] = useState<Destination[]>([emptyDestination()]);
+
   const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>([
     { id: '1', name: '', relationship: '', phone: '' }
   ]);
 
   const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
+  const [errors, setErrors] = useState<FieldErrors>({});
   const [loading, setLoading] = useState(false);
 
+  const clearError = (key: string) => {
+    if (errors[key]) {
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
   const handleTripDataChange = (field: string, value: string) => {
     setTripData(prev => ({ ...prev, [field]: value }));
+    clearError(`itinerary.${field}`);
+  };
+
+  const addDestination = () => {
+    setDestinations(prev => [...prev, emptyDestination()]);
+  };
+
+  const removeDestination = (id: string) => {
+    if (destinations.length > 1) {
+      setDestinations(prev => prev.filter(destination => destination.id !== id));
+      // Error keys are positional, so they no longer line up
+      setErrors({});
+    }
+  };
+
+  const updateDestination = (index: number, field: keyof Destination, value: string) => {
+    setDestinations(prev =>
+      prev.map((destination, i) =>
+        i === index ? { ...destination, [field]: value } : destination
+      )
+    );
+    clearError(`itinerary.destinations.${index}.${field}`);
   };
 
   const addEmergencyContact = () => {
@@ -53,15 +123,17 @@ export default function TripDetails() {
   const removeEmergencyContact = (id: string) => {
     if (emergencyContacts.length > 1) {
       setEmergencyContacts(prev => prev.filter(contact => contact.id !== id));
+      setErrors({});
     }
   };
 
-  const updateEmergencyContact = (id: string, field: string, value: string) => {
+  const updateEmergencyContact = (index: number, field: keyof EmergencyContact, value: string) => {
     setEmergencyContacts(prev =>
-      prev.map(contact =>
-        contact.id === id ? { ...contact, [field]: value } : contact
+      prev.map((contact, i) =>
+        i === index ? { ...contact, [field]: value } : contact
       )
     );
+    clearError(`emergencyContacts.${index}.${field}`);
   };
 
   const addFamilyMember = () => {
@@ -87,47 +159,149 @@ export default function TripDetails() {
     );
   };
 
-  const validateForm = () => {
-    const { destination, checkInDate, checkOutDate, accommodation, purpose } = tripData;
-    
-    if (!destination || !checkInDate || !checkOutDate || !accommodation || !purpose) {
-      Alert.alert('Error', 'Please fill in all trip details');
-      return false;
+  // Uses the same field paths as the register endpoint so both kinds of
+  // errors render in the same place
+  const validateForm = (): FieldErrors => {
+    const next: FieldErrors = {};
+
+    destinations.forEach((destination, i) => {
+      const start = parseDate(destination.startDate);
+      const end = parseDate(destination.endDate);
+      if (!destination.location.trim()) {
+        next[`itinerary.destinations.${i}.location`] = 'Destination is required';
+      }
+      if (!start) {
+        next[`itinerary.destinations.${i}.startDate`] = 'Use YYYY-MM-DD';
+      }
+      if (!end) {
+        next[`itinerary.destinations.${i}.endDate`] = 'Use YYYY-MM-DD';
+      } else if (start && end < start) {
+        next[`itinerary.destinations.${i}.endDate`] = 'Must be on or after the start date';
+      } else if (endOfDay(end) <= new Date()) {
+        next[`itinerary.destinations.${i}.endDate`] = 'Must be in the future';
+      }
+    });
+
+    if (!tripData.purpose.trim()) {
+      next['itinerary.purpose'] = 'Purpose of visit is required';
     }
 
-    const hasValidEmergencyContact = emergencyContacts.some(contact => 
-      contact.name && contact.relationship && contact.phone
-    );
+    emergencyContacts.forEach((contact, i) => {
+      if (!contact.name.trim()) {
+        next[`emergencyContacts.${i}.name`] = 'Name is required';
+      }
+      if (!PHONE_PATTERN.test(contact.phone.trim())) {
+        next[`emergencyContacts.${i}.phone`] = 'Enter a valid phone number';
+      }
+    });
 
-    if (!hasValidEmergencyContact) {
-      Alert.alert('Error', 'Please add at least one complete emergency contact');
-      return false;
-    }
+    return next;
+  };
 
-    return true;
+  const showRegistered = (digitalId: string, chainTx?: ChainTx) => {
+    const txLines = chainTx
+      ? `\n\nTransaction: ${chainTx.txId}` +
+        (chainTx.blockNumber != null ? `\nBlock: #${chainTx.blockNumber}` : '') +
+        `\nRecorded: ${new Date(chainTx.timestamp).toLocaleString()}`
+      : '';
+
+    Alert.alert(
+      'Digital ID Generated!',
+      `Your Digital Tourist ID ${digitalId} has been recorded on the blockchain.${txLines}`,
+      [
+        {
+          text: 'Continue to App',
+          // The root layout moves to the tabs once the user shows an active Digital ID
+          onPress: () => refreshUser()
+        }
+      ]
+    );
   };
 
   const handleSubmit = async () => {
-    if (!validateForm()) return;
+    const formErrors = validateForm();
+    setErrors(formErrors);
+    if (Object.keys(formErrors).length > 0) {
+      Alert.alert('Error', 'Please correct the highlighted fields');
+      return;
+    }
 
     setLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      setLoading(false);
-      Alert.alert(
-        'Digital ID Generated!',
-        'Your Digital Tourist ID has been successfully created and is now ready for use. Welcome to the Smart Tourist Safety Network!',
-        [
-          {
-            text: 'Continue to App',
-            onPress: () => router.replace('/(tabs)')
-          }
-        ]
+    try {
+      const token = await Storage.getItem('token');
+      if (!token) {
+        Alert.alert('Error', 'Please log in again');
+        return;
+      }
+
+      const itineraryDestinations = destinations.map(destination => ({
+        location: destination.location.trim(),
+        startDate: parseDate(destination.startDate)!.toISOString(),
+        endDate: endOfDay(parseDate(destination.endDate)!).toISOString(),
+        accommodation: destination.accommodation.trim() || undefined,
+      }));
+      // The Digital ID is valid until the end of the last stay
+      const expiryAt = itineraryDestinations.reduce(
+        (latest, d) => (d.endDate > latest ? d.endDate : latest),
+        itineraryDestinations[0].endDate
+      );
+      const contacts = emergencyContacts.map(contact => ({
+        name: contact.name.trim(),
+        phone: contact.phone.trim(),
+        relationship: contact.relationship.trim(),
+      }));
+
+      const response = await registerTourist(
+        {
+          deviceId: await LocationService.getDeviceId(),
+          expiryAt,
+          itinerary: {
+            destinations: itineraryDestinations,
+            purpose: tripData.purpose.trim(),
+            groupSize: parseInt(tripData.groupSize, 10) || 1,
+            familyMembers: familyMembers
+              .filter(member => member.name.trim())
+              .map(member => ({
+                name: member.name.trim(),
+                relationship: member.relationship.trim(),
+                age: parseInt(member.age, 10) || undefined,
+                phone: member.phone.trim() || undefined,
+              })),
+          },
+          emergencyContacts: contacts,
+        },
+        token
       );
-    }, 2000);
+
+      // Keep the contacts in the shared store so SOS alerts and Settings use them
+      await EmergencyService.setPersonalContacts(
+        contacts.map(contact => ({
+          ...contact,
+          type: /friend/i.test(contact.relationship) ? 'friend' : 'family',
+        }))
+      );
+
+      showRegistered(response.data.digitalId, response.data.chainTx);
+    } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      if (fieldErrors) {
+        // expiryAt is derived from the last end date, so show it there
+        setErrors(fieldErrors.expiryAt
+          ? { ...fieldErrors, [`itinerary.destinations.${destinations.length - 1}.endDate`]: fieldErrors.expiryAt }
+          : fieldErrors);
+        Alert.alert('Error', 'Please correct the highlighted fields');
+      } else {
+        console.error('Error registering Digital ID:', error);
+        Alert.alert('Error', 'Could not generate your Digital ID. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
   };
 
+  const renderError = (key: string) =>
+    errors[key] ? <Text style={styles.errorText}>{errors[key]}</Text> : null;
+
   return (
     <View style={styles.container}>
       <StatusBar style="dark" />
@@ -140,50 +314,84 @@ export default function TripDetails() {
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         
-        {/* Trip Information */}
+        {/* Destinations */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Trip Information</Text>
-          
-          <View style={styles.inputContainer}>
-            <MapPin size={20} color="#6B7280" style={styles.inputIcon} />
-            <TextInput
-              style={styles.input}
-              placeholder="Destination (e.g., Shillong, Meghalaya)"
-              value={tripData.destination}
-              onChangeText={(value) => handleTripDataChange('destination', value)}
-            />
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Destinations</Text>
+            <TouchableOpacity style={styles.addButton} onPress={addDestination}>
+              <Plus size={16} color="#1D4ED8" />
+            </TouchableOpacity>
           </View>
+          {renderError('itinerary.destinations')}
 
-          <View style={styles.row}>
-            <View style={[styles.inputContainer, styles.halfWidth]}>
-              <Calendar size={20} color="#6B7280" style={styles.inputIcon} />
-              <TextInput
-                style={styles.input}
-                placeholder="Check-in Date"
-                value={tripData.checkInDate}
-                onChangeText={(value) => handleTripDataChange('checkInDate', value)}
-              />
-            </View>
-            <View style={[styles.inputContainer, styles.halfWidth]}>
-              <Calendar size={20} color="#6B7280" style={styles.inputIcon} />
-              <TextInput
-                style={styles.input}
-                placeholder="Check-out Date"
-                value={tripData.checkOutDate}
-                onChangeText={(value) => handleTripDataChange('checkOutDate', value)}
-              />
+          {destinations.map((destination, index) => (
+            <View key={destination.id} style={styles.contactCard}>
+              <View style={styles.contactHeader}>
+                <Text style={styles.contactTitle}>Stop {index + 1}</Text>
+                {destinations.length > 1 && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => removeDestination(destination.id)}
+                  >
+                    <Trash2 size={16} color="#DC2626" />
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <View style={[styles.inputContainer, errors[`itinerary.destinations.${index}.location`] && styles.inputError]}>
+                <MapPin size={20} color="#6B7280" style={styles.inputIcon} />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Destination (e.g., Shillong, Meghalaya)"
+                  value={destination.location}
+                  onChangeText={(value) => updateDestination(index, 'location', value)}
+                />
+              </View>
+              {renderError(`itinerary.destinations.${index}.location`)}
+
+              <View style={styles.row}>
+                <View style={styles.halfWidth}>
+                  <View style={[styles.inputContainer, errors[`itinerary.destinations.${index}.startDate`] && styles.inputError]}>
+                    <Calendar size={20} color="#6B7280" style={styles.inputIcon} />
+                    <TextInput
+                      style={styles.input}
+                      placeholder="From (YYYY-MM-DD)"
+                      value={destination.startDate}
+                      onChangeText={(value) => updateDestination(index, 'startDate', value)}
+                    />
+                  </View>
+                  {renderError(`itinerary.destinations.${index}.startDate`)}
+                </View>
+                <View style={styles.halfWidth}>
+                  <View style={[styles.inputContainer, errors[`itinerary.destinations.${index}.endDate`] && styles.inputError]}>
+                    <Calendar size={20} color="#6B7280" style={styles.inputIcon} />
+                    <TextInput
+                      style={styles.input}
+                      placeholder="To (YYYY-MM-DD)"
+                      value={destination.endDate}
+                      onChangeText={(value) => updateDestination(index, 'endDate', value)}
+                    />
+                  </View>
+                  {renderError(`itinerary.destinations.${index}.endDate`)}
+                </View>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <MapPin size={20} color="#6B7280" style={styles.inputIcon} />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Accommodation Details"
+                  value={destination.accommodation}
+                  onChangeText={(value) => updateDestination(index, 'accommodation', value)}
+                />
+              </View>
             </View>
-          </View>
+          ))}
+        </View>
 
-          <View style={styles.inputContainer}>
-            <MapPin size={20} color="#6B7280" style={styles.inputIcon} />
-            <TextInput
-              style={styles.input}
-              placeholder="Accommodation Details"
-              value={tripData.accommodation}
-              onChangeText={(value) => handleTripDataChange('accommodation', value)}
-            />
-          </View>
+        {/* Trip Information */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Trip Information</Text>
 
           <View style={styles.row}>
             <View style={[styles.inputContainer, styles.halfWidth]}>
@@ -196,13 +404,16 @@ export default function TripDetails() {
                 keyboardType="numeric"
               />
             </View>
-            <View style={[styles.inputContainer, styles.halfWidth]}>
-              <TextInput
-                style={styles.input}
-                placeholder="Purpose of Visit"
-                value={tripData.purpose}
-                onChangeText={(value) => handleTripDataChange('purpose', value)}
-              />
+            <View style={styles.halfWidth}>
+              <View style={[styles.inputContainer, errors['itinerary.purpose'] && styles.inputError]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Purpose of Visit"
+                  value={tripData.purpose}
+                  onChangeText={(value) => handleTripDataChange('purpose', value)}
+                />
+              </View>
+              {renderError('itinerary.purpose')}
             </View>
           </View>
         </View>
@@ -215,6 +426,7 @@ export default function TripDetails() {
               <Plus size={16} color="#1D4ED8" />
             </TouchableOpacity>
           </View>
+          {renderError('emergencyContacts')}
 
           {emergencyContacts.map((contact, index) => (
             <View key={contact.id} style={styles.contactCard}>
@@ -230,15 +442,16 @@ export default function TripDetails() {
                 )}
               </View>
 
-              <View style={styles.inputContainer}>
+              <View style={[styles.inputContainer, errors[`emergencyContacts.${index}.name`] && styles.inputError]}>
                 <User size={20} color="#6B7280" style={styles.inputIcon} />
                 <TextInput
                   style={styles.input}
                   placeholder="Full Name"
                   value={contact.name}
-                  onChangeText={(value) => updateEmergencyContact(contact.id, 'name', value)}
+                  onChangeText={(value) => updateEmergencyContact(index, 'name', value)}
                 />
               </View>
+              {renderError(`emergencyContacts.${index}.name`)}
 
               <View style={styles.row}>
                 <View style={[styles.inputContainer, styles.halfWidth]}>
@@ -246,18 +459,21 @@ export default function TripDetails() {
                     style={styles.input}
                     placeholder="Relationship"
                     value={contact.relationship}
-                    onChangeText={(value) => updateEmergencyContact(contact.id, 'relationship', value)}
+                    onChangeText={(value) => updateEmergencyContact(index, 'relationship', value)}
                   />
                 </View>
-                <View style={[styles.inputContainer, styles.halfWidth]}>
-                  <Phone size={20} color="#6B7280" style={styles.inputIcon} />
-                  <TextInput
-                    style={styles.input}
-                    placeholder="Phone Number"
-                    value={contact.phone}
-                    onChangeText={(value) => updateEmergencyContact(contact.id, 'phone', value)}
-                    keyboardType="phone-pad"
-                  />
+                <View style={styles.halfWidth}>
+                  <View style={[styles.inputContainer, errors[`emergencyContacts.${index}.phone`] && styles.inputError]}>
+                    <Phone size={20} color="#6B7280" style={styles.inputIcon} />
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Phone Number"
+                      value={contact.phone}
+                      onChangeText={(value) => updateEmergencyContact(index, 'phone', value)}
+                      keyboardType="phone-pad"
+                    />
+                  </View>
+                  {renderError(`emergencyContacts.${index}.phone`)}
                 </View>
               </View>
             </View>
@@ -430,6 +646,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#111827',
   },
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginTop: -10,
+    marginBottom: 12,
+  },
   contactCard: {
     backgroundColor: '#FFFFFF',
     padding: 16,
@@ -1,44 +1,130 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions, Animated } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions, ActivityIndicator, RefreshControl } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { QrCode, User, Calendar, MapPin, Phone, Copy, Shield, IndianRupee, ChevronRight } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { QrCode, User, Calendar, MapPin, Phone, Copy, Shield, IndianRupee, CheckCircle, XCircle } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
+import Clipboard from '@react-native-clipboard/clipboard';
+import axios from 'axios';
+import QRCode from 'react-native-qrcode-svg';
+import Storage from '../utils/storage';
+import EmergencyService from '../services/emergency';
+import CredentialService from '../services/credential';
+import { getDigitalId, verifyDigitalId, Credential, DigitalIdDetails, LedgerVerification } from '../api/tourist';
 
 const { width } = Dimensions.get('window');
 
-interface TouristInfo {
-  id: string;
-  name: string;
-  nationality: string;
-  passportNumber: string;
-  checkInDate: string;
-  checkOutDate: string;
-  emergencyContact: string;
-  currentLocation: string;
-  blockchainHash: string;
-}
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  registered: 'Active',
+  active: 'Active',
+  suspended: 'Suspended',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+const ID_TYPE_LABELS: Record<string, string> = {
+  aadhaar: 'Aadhaar',
+  passport: 'Passport',
+};
+
+const getErrorMessage = (error: unknown) =>
+  axios.isAxiosError(error) ? error.response?.data?.message || error.message : 'Something went wrong';
 
 export default function DigitalID() {
   const [showQR, setShowQR] = useState(false);
   const [activeTab, setActiveTab] = useState('details');
-  
-  // Mock tourist data
-  const touristInfo: TouristInfo = {
-    id: 'TID-NE-2024-001523',
-    name: 'John Anderson',
-    nationality: 'United States',
-    passportNumber: 'US123456789',
-    checkInDate: '2024-01-15',
-    checkOutDate: '2024-01-22',
-    emergencyContact: '+91-98765-43210',
-    currentLocation: 'Shillong, Meghalaya',
-    blockchainHash: '0x7b2a3c8f9e1d4a6b5c8e9f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2c3'
+  const [details, setDetails] = useState<DigitalIdDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<LedgerVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [credential, setCredential] = useState<Credential | null>(null);
+  const [qrLoading, setQrLoading] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const emergencyContact = EmergencyService.getPersonalContacts()[0];
+
+  const loadDigitalId = useCallback(async () => {
+    try {
+      const token = await Storage.getItem('token');
+      if (!token) throw new Error('Not signed in');
+      setDetails(await getDigitalId(token));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDigitalId();
+  }, [loadDigitalId]);
+
+  // Keep a fresh signed credential on screen while the QR code is shown
+  useEffect(() => {
+    if (!showQR) return;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const loadCredential = async () => {
+      setQrLoading(true);
+      const next = await CredentialService.getCredential();
+      if (cancelled) return;
+      setCredential(next);
+      setQrLoading(false);
+      // Retry sooner when offline or the ID cannot be issued
+      refreshTimer = setTimeout(loadCredential, next ? CredentialService.refreshDelay(next) : 15000);
+    };
+
+    loadCredential();
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [showQR]);
+
+  useEffect(() => {
+    if (!showQR || !credential) return;
+    const tick = () => setSecondsLeft(Math.max(0, Math.floor(CredentialService.timeLeft(credential) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [showQR, credential]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDigitalId();
+    setRefreshing(false);
+  };
+
+  const verifyOnLedger = async () => {
+    setVerifying(true);
+    setVerifyError(null);
+    try {
+      const token = await Storage.getItem('token');
+      if (!token) throw new Error('Not signed in');
+      const result = await verifyDigitalId(token);
+      setVerification(result);
+      await Haptics.notificationAsync(
+        result.match ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+      );
+    } catch (error) {
+      setVerifyError(getErrorMessage(error));
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setVerifying(false);
+    }
   };
 
   const copyToClipboard = async (text: string, label: string) => {
     try {
-      console.log(`Copied ${label}: ${text}`);
+      Clipboard.setString(text);
+      console.log(`Copied ${label}`);
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (error) {
       console.error('Failed to copy:', error);
@@ -50,6 +136,50 @@ export default function DigitalID() {
     setShowQR(!showQR);
   };
 
+  if (loading || !details) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <StatusBar style="dark" />
+        {loading ? (
+          <ActivityIndicator size="large" color="#6366F1" />
+        ) : (
+          <>
+            <Text style={styles.errorTitle}>Digital ID unavailable</Text>
+            <Text style={styles.errorText}>{loadError}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={() => { setLoading(true); loadDigitalId(); }}>
+              <Text style={styles.retryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  const destinations = details.itinerary?.destinations || [];
+  const ledgerValid = details.ledger?.valid === true;
+  const activity = [
+    details.chainTx?.timestamp && {
+      time: details.chainTx.timestamp,
+      location: details.chainTx.blockNumber != null ? `Block #${details.chainTx.blockNumber}` : 'Ledger',
+      action: 'Registered on Ledger',
+      status: 'success',
+    },
+    details.lastKnownLocation?.timestamp && {
+      time: details.lastKnownLocation.timestamp,
+      location: formatCoordinates(details.lastKnownLocation),
+      action: 'Location Updated',
+      status: 'success',
+    },
+    (verification || details.ledger) && {
+      time: verification?.checkedAt || details.ledger!.verifiedAt,
+      location: 'Ledger',
+      action: verification ? (verification.match ? 'Ledger Record Matches' : 'Ledger Mismatch Found') : 'Identity Verified',
+      status: (verification ? verification.match : ledgerValid) ? 'success' : 'warning',
+    },
+  ]
+    .filter((item): item is { time: string; location: string; action: string; status: string } => Boolean(item))
+    .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+
   return (
     <View style={styles.container}>
       <StatusBar style="light" />
@@ -63,7 +193,11 @@ export default function DigitalID() {
         end={{ x: 1, y: 1 }}
       />
       
-      <ScrollView showsVerticalScrollIndicator={false} style={styles.scrollView}>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        style={styles.scrollView}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#FFFFFF" />}
+      >
         {/* Header */}
         <View style={styles.header}>
           <View>
@@ -71,7 +205,7 @@ export default function DigitalID() {
             <Text style={styles.headerSubtitle}>Blockchain Verified Identity</Text>
           </View>
           <View style={styles.headerIcon}>
-            <Shield size={24} color="#FFFFFF" fill="#10B981" />
+            <Shield size={24} color="#FFFFFF" fill={ledgerValid ? '#10B981' : '#F59E0B'} />
           </View>
         </View>
 
@@ -100,9 +234,11 @@ export default function DigitalID() {
             {/* ID Type Badge */}
             <View style={styles.idTypeContainer}>
               <Text style={styles.idType}>DIGITAL TOURIST ID</Text>
-              <View style={styles.verifiedBadge}>
-                <Shield size={12} color="#10B981" />
-                <Text style={styles.verifiedText}>VERIFIED</Text>
+              <View style={[styles.verifiedBadge, !ledgerValid && styles.unverifiedBadge]}>
+                <Shield size={12} color={ledgerValid ? '#10B981' : '#F59E0B'} />
+                <Text style={[styles.verifiedText, !ledgerValid && styles.unverifiedText]}>
+                  {ledgerValid ? 'VERIFIED' : details.ledger ? 'NOT VALID' : 'LEDGER OFFLINE'}
+                </Text>
               </View>
             </View>
 
@@ -117,8 +253,10 @@ export default function DigitalID() {
                 <User size={36} color="#FFFFFF" />
               </LinearGradient>
               <View style={styles.profileInfo}>
-                <Text style={styles.touristName}>{touristInfo.name}</Text>
-                <Text style={styles.touristId}>{touristInfo.id}</Text>
+                <Text style={styles.touristName}>{details.holder.name || 'Tourist'}</Text>
+                <TouchableOpacity onPress={() => copyToClipboard(details.digitalId, 'Digital ID')}>
+                  <Text style={styles.touristId}>{details.digitalId}</Text>
+                </TouchableOpacity>
               </View>
             </View>
 
@@ -146,39 +284,52 @@ export default function DigitalID() {
             {activeTab === 'details' && (
               <View style={styles.infoSection}>
                 <InfoRow 
-                  label="Nationality" 
-                  value={touristInfo.nationality} 
-                  icon="🌎"
-                />
-                <InfoRow 
-                  label="Passport" 
-                  value={touristInfo.passportNumber} 
-                  icon="📘"
-                  onPress={() => copyToClipboard(touristInfo.passportNumber, 'Passport Number')}
+                  label="Status" 
+                  value={STATUS_LABELS[details.status] || details.status} 
+                  icon="🛡️"
                 />
                 <InfoRow 
-                  label="Visit Period" 
-                  value={`${formatDate(touristInfo.checkInDate)} - ${formatDate(touristInfo.checkOutDate)}`} 
-                  icon="📅"
+                  label="Valid Until" 
+                  value={formatDate(details.expiryAt)} 
+                  icon="⏳"
                 />
-                <InfoRow 
-                  label="Current Location" 
-                  value={touristInfo.currentLocation} 
-                  icon="📍"
-                />
-                <View style={styles.infoRow}>
-                  <View style={styles.infoLabelContainer}>
-                    <Text style={styles.infoIcon}>📞</Text>
-                    <Text style={styles.infoLabel}>Emergency Contact:</Text>
+                {details.holder.idNumber && (
+                  <InfoRow 
+                    label={ID_TYPE_LABELS[details.holder.idType || ''] || 'ID Number'} 
+                    value={details.holder.idNumber} 
+                    icon="📘"
+                  />
+                )}
+                {destinations.map((destination, index) => (
+                  <InfoRow 
+                    key={`${destination.location}-${index}`}
+                    label={destinations.length > 1 ? `Stop ${index + 1}` : 'Visit'} 
+                    value={`${destination.location}, ${formatDate(destination.startDate)} - ${formatDate(destination.endDate)}`} 
+                    icon="📅"
+                  />
+                ))}
+                {details.lastKnownLocation && (
+                  <InfoRow 
+                    label="Current Location" 
+                    value={formatCoordinates(details.lastKnownLocation)} 
+                    icon="📍"
+                  />
+                )}
+                {emergencyContact && (
+                  <View style={styles.infoRow}>
+                    <View style={styles.infoLabelContainer}>
+                      <Text style={styles.infoIcon}>📞</Text>
+                      <Text style={styles.infoLabel}>Emergency Contact:</Text>
+                    </View>
+                    <TouchableOpacity 
+                      style={styles.copyButton}
+                      onPress={() => copyToClipboard(emergencyContact.phone, 'Emergency Contact')}
+                    >
+                      <Text style={styles.infoValue}>{emergencyContact.phone}</Text>
+                      <Copy size={14} color="#818CF8" />
+                    </TouchableOpacity>
                   </View>
-                  <TouchableOpacity 
-                    style={styles.copyButton}
-                    onPress={() => copyToClipboard(touristInfo.emergencyContact, 'Emergency Contact')}
-                  >
-                    <Text style={styles.infoValue}>{touristInfo.emergencyContact}</Text>
-                    <Copy size={14} color="#818CF8" />
-                  </TouchableOpacity>
-                </View>
+                )}
               </View>
             )}
 
@@ -191,33 +342,72 @@ export default function DigitalID() {
                     Your identity is securely stored on a distributed blockchain network, ensuring tamper-proof verification.
                   </Text>
                   
+                  {details.chainTx?.txId ? (
+                    <TouchableOpacity 
+                      style={styles.hashContainer}
+                      onPress={() => copyToClipboard(details.chainTx!.txId, 'Transaction ID')}
+                    >
+                      <Text style={styles.hashLabel}>Transaction ID:</Text>
+                      <View style={styles.hashValueContainer}>
+                        <Text style={styles.hashText} numberOfLines={1}>
+                          {details.chainTx.txId}
+                        </Text>
+                        <Copy size={14} color="#818CF8" />
+                      </View>
+                    </TouchableOpacity>
+                  ) : (
+                    <Text style={styles.securityDescription}>No ledger transaction recorded yet.</Text>
+                  )}
+
+                  {details.chainTx && (
+                    <>
+                      <InfoRow 
+                        label="Block" 
+                        value={details.chainTx.blockNumber != null ? `#${details.chainTx.blockNumber}` : 'Pending'} 
+                        icon="🧱"
+                      />
+                      <InfoRow 
+                        label="Recorded" 
+                        value={formatDateTime(details.chainTx.timestamp)} 
+                        icon="🕒"
+                      />
+                    </>
+                  )}
+
                   <TouchableOpacity 
-                    style={styles.hashContainer}
-                    onPress={() => copyToClipboard(touristInfo.blockchainHash, 'Blockchain Hash')}
+                    style={[styles.verifyButton, verifying && styles.verifyButtonDisabled]}
+                    onPress={verifyOnLedger}
+                    disabled={verifying}
                   >
-                    <Text style={styles.hashLabel}>Transaction Hash:</Text>
-                    <View style={styles.hashValueContainer}>
-                      <Text style={styles.hashText} numberOfLines={1}>
-                        {touristInfo.blockchainHash}
-                      </Text>
-                      <Copy size={14} color="#818CF8" />
-                    </View>
+                    {verifying ? (
+                      <ActivityIndicator color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.verifyButtonText}>Verify on Ledger</Text>
+                    )}
                   </TouchableOpacity>
-                  
-                  <View style={styles.securityFeatures}>
-                    <View style={styles.securityFeature}>
-                      <View style={[styles.featureIcon, { backgroundColor: 'rgba(16, 185, 129, 0.1)' }]}>
-                        <Shield size={16} color="#10B981" />
-                      </View>
-                      <Text style={styles.featureText}>Encrypted Data</Text>
-                    </View>
-                    <View style={styles.securityFeature}>
-                      <View style={[styles.featureIcon, { backgroundColor: 'rgba(59, 130, 246, 0.1)' }]}>
-                        <Shield size={16} color="#3B82F6" />
-                      </View>
-                      <Text style={styles.featureText}>Biometric Lock</Text>
+
+                  {verifyError && <Text style={styles.verifyError}>{verifyError}</Text>}
+
+                  {verification && (
+                    <View style={styles.verificationResult}>
+                      <Text style={[styles.verificationSummary, !verification.match && styles.verificationSummaryMismatch]}>
+                        {verification.match
+                          ? 'The on-chain record matches your Digital ID'
+                          : 'The on-chain record does not match your Digital ID'}
+                      </Text>
+                      {verification.checks.map(check => (
+                        <View key={check.field} style={styles.checkRow}>
+                          {check.match ? (
+                            <CheckCircle size={14} color="#10B981" />
+                          ) : (
+                            <XCircle size={14} color="#EF4444" />
+                          )}
+                          <Text style={styles.checkLabel}>{check.label}</Text>
+                        </View>
+                      ))}
+                      <Text style={styles.checkedAt}>Checked {formatDateTime(verification.checkedAt)}</Text>
                     </View>
-                  </View>
+                  )}
                 </View>
               </View>
             )}
@@ -253,12 +443,22 @@ export default function DigitalID() {
                 end={{ x: 1, y: 1 }}
               >
                 <View style={styles.qrIconContainer}>
-                  <QrCode size={120} color="#6366F1" />
+                  {credential && secondsLeft > 0 ? (
+                    <QRCode value={credential.token} size={180} color="#0F172A" backgroundColor="#FFFFFF" />
+                  ) : qrLoading ? (
+                    <ActivityIndicator size="large" color="#6366F1" />
+                  ) : (
+                    <QrCode size={120} color="#CBD5E1" />
+                  )}
                 </View>
                 <Text style={styles.qrNote}>
-                  Present this QR code to authorities for verification
+                  {credential && secondsLeft > 0
+                    ? 'Present this QR code to authorities for verification'
+                    : 'Connect to the internet to get a new verification code'}
                 </Text>
-                <Text style={styles.qrExpiry}>Valid for 60 seconds</Text>
+                {credential && secondsLeft > 0 && (
+                  <Text style={styles.qrExpiry}>Valid for {formatCountdown(secondsLeft)}</Text>
+                )}
               </LinearGradient>
             </View>
           )}
@@ -280,8 +480,9 @@ export default function DigitalID() {
             />
             <ActionItem 
               icon={<Phone size={20} color="#EF4444" />} 
-              text="Emergency Call"
+              text="Emergency Contacts"
               color="#EF4444" 
+              onPress={() => router.push('/emergency-contacts')}
             />
             <ActionItem 
               icon={<User size={20} color="#6366F1" />} 
@@ -295,30 +496,22 @@ export default function DigitalID() {
         <View style={styles.card}>
           <View style={styles.cardHeader}>
             <Text style={styles.cardTitle}>Recent Activity</Text>
-            <TouchableOpacity>
-              <Text style={styles.viewAllText}>View All</Text>
-            </TouchableOpacity>
           </View>
           
           <View style={styles.activityList}>
-            <ActivityItem 
-              time="10:24 AM"
-              location="Guwahati Airport"
-              action="Identity Verified"
-              status="success"
-            />
-            <ActivityItem 
-              time="09:45 AM"
-              location="Shillong Checkpoint"
-              action="Location Updated"
-              status="success"
-            />
-            <ActivityItem 
-              time="Yesterday"
-              location="Digital ID App"
-              action="Profile Accessed"
-              status="neutral"
-            />
+            {activity.length === 0 ? (
+              <Text style={styles.emptyText}>No activity recorded yet</Text>
+            ) : (
+              activity.map(item => (
+                <ActivityItem 
+                  key={item.action}
+                  time={formatRelativeTime(item.time)}
+                  location={item.location}
+                  action={item.action}
+                  status={item.status}
+                />
+              ))
+            )}
           </View>
         </View>
       </ScrollView>
@@ -337,8 +530,8 @@ const InfoRow = ({ label, value, icon, onPress }: { label: string; value: string
   </TouchableOpacity>
 );
 
-const ActionItem = ({ icon, text, color }: { icon: React.ReactNode; text: string; color: string }) => (
-  <TouchableOpacity style={styles.actionItem} activeOpacity={0.7}>
+const ActionItem = ({ icon, text, color, onPress }: { icon: React.ReactNode; text: string; color: string; onPress?: () => void }) => (
+  <TouchableOpacity style={styles.actionItem} activeOpacity={0.7} onPress={onPress}>
     <View style={[styles.actionIconContainer, { backgroundColor: `${color}15` }]}>
       {icon}
     </View>
@@ -363,13 +556,62 @@ const ActivityItem = ({ time, location, action, status }: { time: string; locati
   </View>
 );
 
-// Helper function
+// Helper functions
 const formatDate = (dateString: string) => {
   const date = new Date(dateString);
   return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
 };
 
+const formatDateTime = (dateString: string) => {
+  const date = new Date(dateString);
+  return `${formatDate(dateString)}, ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+const formatRelativeTime = (dateString: string) => {
+  const date = new Date(dateString);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short' });
+};
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const formatCoordinates = ({ lat, lon }: { lat: number; lon: number }) => `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+
 const styles = StyleSheet.create({
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#0F172A',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  retryButton: {
+    backgroundColor: '#6366F1',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   container: {
     flex: 1,
     backgroundColor: '#F1F5F9',
@@ -508,6 +750,12 @@ const styles = StyleSheet.create({
     color: '#10B981',
     marginLeft: 4,
   },
+  unverifiedBadge: {
+    backgroundColor: 'rgba(245, 158, 11, 0.2)',
+  },
+  unverifiedText: {
+    color: '#F59E0B',
+  },
   profileSection: {
     flexDirection: 'row',
     paddingHorizontal: 24,
@@ -633,33 +881,62 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.1)',
   },
-  hashText: {
-    fontSize: 11,
+  verifyButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  verifyButtonDisabled: {
+    opacity: 0.6,
+  },
+  verifyButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
     color: '#FFFFFF',
-    fontFamily: 'monospace',
-    flex: 1,
-    marginRight: 8,
   },
-  securityFeatures: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
+  verifyError: {
+    fontSize: 12,
+    color: '#FCA5A5',
+    marginTop: 10,
   },
-  securityFeature: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  verificationResult: {
+    marginTop: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    padding: 12,
+    borderRadius: 12,
   },
-  featureIcon: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
+  verificationSummary: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#10B981',
+    marginBottom: 8,
+  },
+  verificationSummaryMismatch: {
+    color: '#EF4444',
+  },
+  checkRow: {
+    flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'center',
-    marginRight: 10,
+    gap: 8,
+    paddingVertical: 4,
   },
-  featureText: {
-    fontSize: 12,
+  checkLabel: {
+    fontSize: 13,
     color: '#CBD5E1',
-    fontWeight: '500',
+  },
+  checkedAt: {
+    fontSize: 11,
+    color: '#94A3B8',
+    marginTop: 8,
+  },
+  hashText: {
+    fontSize: 11,
+    color: '#FFFFFF',
+    fontFamily: 'monospace',
+    flex: 1,
+    marginRight: 8,
   },
   card: {
     backgroundColor: '#FFFFFF',
@@ -684,11 +961,6 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#0F172A',
   },
-  viewAllText: {
-    fontSize: 14,
-    color: '#6366F1',
-    fontWeight: '600',
-  },
   qrButton: {
     borderRadius: 14,
     overflow: 'hidden',
@@ -808,4 +1080,11 @@ const styles = StyleSheet.create({
   activityStatusNeutral: {
     backgroundColor: '#94A3B8',
   },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    fontStyle: 'italic',
+    padding: 12,
+  },
 });
\ No newline at end of file
@@ -4,6 +4,8 @@ import { StatusBar } from 'expo-status-bar';
 import { MapPin, TriangleAlert as AlertTriangle, Shield, Clock, Navigation, Activity, Users, Phone } from 'lucide-react-native';
 import * as Location from 'expo-location';
 import { useAppContext } from '../context/AppContext';
+import { useLocationTracking } from '@/hooks/useLocationTracking';
+import { SamplingProfile } from '../services/location';
 
 interface LocationData {
   latitude: number;
@@ -31,7 +33,7 @@ export default function Dashboard() {
   const { user } = useAppContext();
   const [location, setLocation] = useState<LocationData | null>(null);
   const [safetyScore, setSafetyScore] = useState(85);
-  const [isTracking, setIsTracking] = useState(false);
+  const { isTracking, mode, profile, lastLocation, setTracking } = useLocationTracking();
   const [refreshing, setRefreshing] = useState(false);
   const [locationHistory, setLocationHistory] = useState<LocationData[]>([]);
   
@@ -61,14 +63,14 @@ export default function Dashboard() {
 
   useEffect(() => {
     getLocation();
-    const interval = setInterval(() => {
-      if (isTracking) {
-        getLocation();
-      }
-    }, 30000); // Update every 30 seconds when tracking
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [isTracking]);
+  // Fixes delivered by the tracking service replace one-off lookups
+  useEffect(() => {
+    if (!lastLocation) return;
+    setLocation(prev => ({ ...lastLocation, address: lastLocation.address ?? prev?.address }));
+    setLocationHistory(prev => [{ ...lastLocation, address: lastLocation.address ?? prev[0]?.address }, ...prev.slice(0, 9)]);
+  }, [lastLocation]);
 
   const getLocation = async () => {
     try {
@@ -103,8 +105,12 @@ export default function Dashboard() {
     }
   };
 
-  const toggleTracking = () => {
-    setIsTracking(!isTracking);
+  const toggleTracking = async () => {
+    const ok = await setTracking(!isTracking);
+    if (!ok) {
+      Alert.alert('Permission denied', 'Location permission is required for safety monitoring.');
+      return;
+    }
     Alert.alert(
       isTracking ? 'Tracking Disabled' : 'Tracking Enabled',
       isTracking 
@@ -134,6 +140,15 @@ export default function Dashboard() {
     return 'High Risk';
   };
 
+  const getProfileLabel = (value: SamplingProfile) => {
+    switch (value) {
+      case 'restricted': return 'Restricted area - high frequency';
+      case 'stationary': return 'Stationary - reduced frequency';
+      case 'lowPower': return 'Battery saver - reduced frequency';
+      default: return 'Moving - normal frequency';
+    }
+  };
+
   const getAlertColor = (type: string) => {
     switch (type) {
       case 'danger': return '#DC2626';
@@ -239,6 +254,11 @@ export default function Dashboard() {
               <Text style={styles.lastUpdate}>
                 Last updated: {formatTime(location.timestamp)}
               </Text>
+              {isTracking && (
+                <Text style={styles.trackingMode}>
+                  {mode === 'background' ? 'Background tracking' : 'Foreground tracking'} · {getProfileLabel(profile)}
+                </Text>
+              )}
               <TouchableOpacity 
                 style={[
                   styles.trackingButton,
@@ -495,6 +515,11 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     fontFamily: 'monospace',
   },
+  trackingMode: {
+    fontSize: 12,
+    color: '#10B981',
+    marginBottom: 12,
+  },
   lastUpdate: {
     fontSize: 12,
     color: '#9CA3AF',
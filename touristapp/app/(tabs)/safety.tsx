@@ -1,8 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Animated, Alert, Linking } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
 import { Shield, Phone, MapPin, Users, Siren, TriangleAlert as AlertTriangle, Clock, CircleCheck as CheckCircle, FileText, Camera } from 'lucide-react-native';
-import EmergencyService from '../services/emergency';
+import EmergencyService, { EmergencyAlert, SosDelivery } from '../services/emergency';
 import LocationService from '../services/location';
 import * as Haptics from 'expo-haptics';
 
@@ -18,17 +19,43 @@ interface EmergencyLog {
   timestamp: string;
   status: 'sent' | 'acknowledged' | 'resolved';
   location?: string;
+  delivery?: SosDelivery;
+  response: string;
 }
 
+const formatEta = (eta?: string) => {
+  if (!eta) return null;
+  const minutes = Math.round((new Date(eta).getTime() - Date.now()) / 60000);
+  return minutes > 0 ? `ETA ~${minutes} min` : 'Arriving now';
+};
+
+const getResponseLabel = (alert: EmergencyAlert) => {
+  switch (alert.status) {
+    case 'acknowledged': {
+      const eta = formatEta(alert.eta);
+      const responder = alert.responder?.name || 'Police';
+      return eta ? `${responder} is responding • ${eta}` : `${responder} is responding`;
+    }
+    case 'resolved': return 'Resolved by authorities';
+    default: return 'Waiting for police to respond';
+  }
+};
+
 export default function Safety() {
   const [emergencyActive, setEmergencyActive] = useState(false);
   const [panicPressed, setPanicPressed] = useState(false);
   const [countdown, setCountdown] = useState(0);
   const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>([]);
+  const [sosAlerts, setSosAlerts] = useState<EmergencyAlert[]>(() => EmergencyService.getAlertHistory());
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
 
+  useEffect(() => {
+    setSosAlerts(EmergencyService.getAlertHistory());
+    return EmergencyService.subscribe(setSosAlerts);
+  }, []);
+
   useEffect(() => {
     loadEmergencyContacts();
     return () => {
@@ -51,22 +78,30 @@ export default function Safety() {
     }
   };
 
-  const emergencyLogs: EmergencyLog[] = [
-    {
-      id: '1',
-      type: 'Location Check',
-      timestamp: '2024-01-15 14:30',
-      status: 'resolved',
-      location: 'Police Bazar, Shillong'
-    },
-    {
-      id: '2',
-      type: 'Safety Alert',
-      timestamp: '2024-01-15 10:15',
-      status: 'acknowledged',
-      location: 'Umiam Lake'
-    }
-  ];
+  const emergencyLogs: EmergencyLog[] = sosAlerts.map((alert) => ({
+    id: alert.id,
+    type: alert.type === 'sos' ? 'SOS Alert' : 'Safety Alert',
+    timestamp: new Date(alert.timestamp).toLocaleString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    }),
+    status: alert.status,
+    location: alert.location.address || `${alert.location.latitude.toFixed(5)}, ${alert.location.longitude.toFixed(5)}`,
+    delivery: alert.delivery,
+    response: getResponseLabel(alert),
+  }));
+
+  const latestSos = sosAlerts[0];
+
+  // Keep the ETA countdown fresh while police are on the way
+  const [, setClock] = useState(0);
+  useEffect(() => {
+    if (latestSos?.status !== 'acknowledged' || !latestSos.eta) return;
+    const timer = setInterval(() => setClock(c => c + 1), 30000);
+    return () => clearInterval(timer);
+  }, [latestSos?.status, latestSos?.eta]);
 
   const startPanicSequence = () => {
     setPanicPressed(true);
@@ -193,27 +228,6 @@ export default function Safety() {
     );
   };
 
-  const reportIncident = () => {
-    Alert.alert(
-      'Report Incident',
-      'What type of incident would you like to report?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Theft/Crime', onPress: () => handleIncidentReport('theft') },
-        { text: 'Medical Emergency', onPress: () => handleIncidentReport('medical') },
-        { text: 'Safety Concern', onPress: () => handleIncidentReport('safety') },
-        { text: 'Other', onPress: () => handleIncidentReport('other') },
-      ]
-    );
-  };
-
-  const handleIncidentReport = async (type: string) => {
-    const success = await EmergencyService.reportIncident(type, `${type} incident reported via mobile app`);
-    if (success) {
-      Alert.alert('Report Submitted', 'Your incident report has been submitted to the authorities.');
-    }
-  };
-
   const getContactIcon = (type: EmergencyContact['type']) => {
     switch (type) {
       case 'police': 
@@ -226,6 +240,24 @@ export default function Safety() {
     }
   };
 
+  const getDeliveryLabel = (delivery?: SosDelivery) => {
+    switch (delivery) {
+      case 'delivered': return 'Delivered to authorities';
+      case 'queued': return 'Queued - will be sent when back online';
+      case 'sms': return 'Sent by SMS only - server not reached yet';
+      case 'failed': return 'Not delivered - call emergency services';
+      default: return 'Sending to authorities...';
+    }
+  };
+
+  const getDeliveryIcon = (delivery?: SosDelivery) => {
+    switch (delivery) {
+      case 'delivered': return <CheckCircle size={16} color="#16A34A" />;
+      case 'failed': return <AlertTriangle size={16} color="#DC2626" />;
+      default: return <Clock size={16} color="#F59E0B" />;
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'resolved': return <CheckCircle size={16} color="#16A34A" />;
@@ -292,21 +324,25 @@ export default function Safety() {
             </View>
             <View style={styles.statusItems}>
               <View style={styles.statusItem}>
-                <CheckCircle size={16} color="#16A34A" />
-                <Text style={styles.statusText}>Location sent to authorities</Text>
+                {getDeliveryIcon(latestSos?.delivery)}
+                <Text style={styles.statusText}>{getDeliveryLabel(latestSos?.delivery)}</Text>
               </View>
               <View style={styles.statusItem}>
                 <CheckCircle size={16} color="#16A34A" />
                 <Text style={styles.statusText}>Emergency contacts notified</Text>
               </View>
-              <View style={styles.statusItem}>
-                <Clock size={16} color="#F59E0B" />
-                <Text style={styles.statusText}>Police dispatch in progress</Text>
-              </View>
-              <View style={styles.statusItem}>
-                <Clock size={16} color="#F59E0B" />
-                <Text style={styles.statusText}>Estimated arrival: 8-12 minutes</Text>
-              </View>
+              {latestSos && (
+                <View style={styles.statusItem}>
+                  {getStatusIcon(latestSos.status)}
+                  <Text style={styles.statusText}>{getResponseLabel(latestSos)}</Text>
+                </View>
+              )}
+              {latestSos?.responseMessage && (
+                <View style={styles.statusItem}>
+                  <Shield size={16} color="#1D4ED8" />
+                  <Text style={styles.statusText}>{latestSos.responseMessage}</Text>
+                </View>
+              )}
             </View>
           </View>
         )}
@@ -348,11 +384,14 @@ export default function Safety() {
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Report Incident</Text>
           <View style={styles.reportActions}>
-            <TouchableOpacity style={styles.reportButton} onPress={reportIncident}>
+            <TouchableOpacity style={styles.reportButton} onPress={() => router.push('/report-incident')}>
               <FileText size={20} color="#1D4ED8" />
               <Text style={styles.reportButtonText}>File Incident Report</Text>
             </TouchableOpacity>
-            <TouchableOpacity style={styles.reportButton}>
+            <TouchableOpacity
+              style={styles.reportButton}
+              onPress={() => router.push({ pathname: '/report-incident', params: { media: 'camera' } })}
+            >
               <Camera size={20} color="#1D4ED8" />
               <Text style={styles.reportButtonText}>Report with Photo</Text>
             </TouchableOpacity>
@@ -418,6 +457,9 @@ export default function Safety() {
         {/* Emergency Logs */}
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Recent Activity</Text>
+          {emergencyLogs.length === 0 && (
+            <Text style={styles.logEmpty}>No emergency alerts raised yet.</Text>
+          )}
           {emergencyLogs.map((log) => (
             <View key={log.id} style={styles.logItem}>
               <View style={styles.logHeader}>
@@ -428,6 +470,12 @@ export default function Safety() {
               {log.location && (
                 <Text style={styles.logLocation}>📍 {log.location}</Text>
               )}
+              <Text style={styles.logResponse}>{log.response}</Text>
+              {log.delivery && (
+                <Text style={[styles.logDelivery, log.delivery === 'delivered' ? styles.logDelivered : styles.logPending]}>
+                  {getDeliveryLabel(log.delivery)}
+                </Text>
+              )}
             </View>
           ))}
         </View>
@@ -676,4 +724,26 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginLeft: 24,
   },
+  logResponse: {
+    fontSize: 12,
+    color: '#374151',
+    marginLeft: 24,
+    marginTop: 2,
+  },
+  logDelivery: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 24,
+    marginTop: 2,
+  },
+  logDelivered: {
+    color: '#16A34A',
+  },
+  logPending: {
+    color: '#F59E0B',
+  },
+  logEmpty: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
 });
\ No newline at end of file
@@ -14,7 +14,9 @@ import {
   Moon,
   Volume2
 } from 'lucide-react-native';
-import Storage from "../utils/storage"; 
+import { signOut } from '../context/AuthContext';
+import { useAppContext } from '../context/AppContext';
+import { useLocationTracking } from '@/hooks/useLocationTracking';
 interface SettingsOption {
   id: string;
   title: string;
@@ -25,7 +27,8 @@ interface SettingsOption {
 }
 
 export default function Settings() {
-  const [locationTracking, setLocationTracking] = useState(true);
+  const { isTracking: locationTracking, setTracking } = useLocationTracking();
+  const { setUser } = useAppContext();
   const [emergencyAlerts, setEmergencyAlerts] = useState(true);
   const [voiceAlerts, setVoiceAlerts] = useState(true);
   const [darkMode, setDarkMode] = useState(false);
@@ -103,8 +106,8 @@ export default function Settings() {
   // wrapper you made earlier
 
 const handleLogout = async () => {
-  await Storage.removeItem("token");
-  await Storage.removeItem("user");
+  await signOut();
+  setUser(null);
   router.replace("/(auth)/login"); // navigate back to login
 };
 
@@ -123,7 +126,11 @@ const handleLogout = async () => {
   const handleSwitchToggle = (id: string, value: boolean) => {
     switch (id) {
       case 'location':
-        setLocationTracking(value);
+        setTracking(value).then((ok) => {
+          if (!ok) {
+            Alert.alert('Permission denied', 'Location permission is required for safety monitoring.');
+          }
+        });
         if (!value) {
           Alert.alert(
             'Location Tracking Disabled',
@@ -218,7 +225,7 @@ const handleLogout = async () => {
             <ChevronRight size={20} color="#6B7280" />
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.actionItem}>
+          <TouchableOpacity style={styles.actionItem} onPress={() => router.push('/emergency-contacts')}>
             <Bell size={20} color="#F59E0B" />
             <View style={styles.actionContent}>
               <Text style={styles.actionTitle}>Emergency Contacts</Text>
@@ -3,6 +3,10 @@ import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AppProvider, useAppContext } from './context/AppContext';
+import LocationService from './services/location';
+import EmergencyService from './services/emergency';
+import GeofenceService from './services/geofence';
+import RealtimeService from './services/realtime';
 
 function AppNavigator() {
   const { user, loading } = useAppContext();
@@ -22,6 +26,10 @@ useEffect(() => {
     } else if (user.kycStatus === 'verified' && user.digitalIdStatus === 'active') {
       // Both verified + active → go to main tabs
       router.replace('/(tabs)');
+      LocationService.restoreTracking();
+      EmergencyService.syncEmergencyContacts();
+      GeofenceService.refresh();
+      RealtimeService.connect();
     }
   }
 }, [user, loading]);
@@ -35,6 +43,12 @@ useEffect(() => {
       {/* Main Tabs */}
       <Stack.Screen name="(tabs)" />
 
+      {/* Settings Screens */}
+      <Stack.Screen name="emergency-contacts" />
+
+      {/* Safety Screens */}
+      <Stack.Screen name="report-incident" />
+
       {/* Fallback */}
       <Stack.Screen name="+not-found" />
     </Stack>
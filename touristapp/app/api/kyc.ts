@@ -3,11 +3,12 @@ import axios from "axios";
 
 const API_BASE =
   process.env.EXPO_PUBLIC_API_URL?.concat("/api/kyc") ||
-  "https://3f45c820ded9.ngrok-free.app/api/kyc";
+  "http://localhost:4000/api/kyc";
 
 // Create instance
 const kycApi = axios.create({
   baseURL: API_BASE,
+  timeout: 15000,
 });
 
 // Helper for auth headers
@@ -15,76 +16,134 @@ const authHeaders = (token?: string) => ({
   Authorization: token ? `Bearer ${token}` : "",
 });
 
+// Backend message for a failed request, or a fallback
+export const getKycErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) return error.response?.data?.message || fallback;
+  return fallback;
+};
+
+// Seconds to wait before the next OTP, when the backend throttled the resend
+export const getRetryAfter = (error: unknown): number | null => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 429) return null;
+  return error.response.data?.retryAfter ?? null;
+};
+
+// "already_verified" / "manual_review" when a submission was refused for that reason
+export const getKycOutcome = (error: unknown): KycOutcome | null => {
+  if (!axios.isAxiosError(error)) return null;
+  return error.response?.data?.outcome || null;
+};
+
+export type KycOutcome = "otp_sent" | "manual_review" | "already_verified";
+
+export interface KycDocument {
+  uri: string;
+  name: string;
+  type: "photo" | "document";
+}
+
+export interface KycSubmission {
+  name: string;
+  dob: string;
+  nationality?: string;
+  aadhaarNumber?: string;
+  passportNumber?: string;
+  documents?: KycDocument[];
+}
+
+export interface KycSubmitResponse {
+  success: boolean;
+  outcome: Exclude<KycOutcome, "already_verified">;
+  message: string;
+  requestId: string;
+  resendAfter?: number; // seconds, when an OTP was sent
+}
+
+export interface OtpResendResponse {
+  success: boolean;
+  message: string;
+  requestId: string;
+  resendAfter: number;
+}
+
+export type KycStatus = "not_started" | "pending" | "manual_review" | "verified" | "failed";
+
+export interface KycRequestSummary {
+  requestId: string;
+  status: "pending" | "auto_approved" | "approved" | "rejected";
+  idType?: "aadhaar" | "passport";
+  manualReview: boolean;
+  reason: string | null;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface KycState {
+  kycStatus: KycStatus;
+  request: KycRequestSummary | null;
+}
+
+// Pushed on the "kyc_status" topic when a reviewer decides a request
+export interface KycStatusUpdate {
+  requestId: string;
+  status: "approved" | "rejected";
+  comment: string | null;
+  reviewedAt: string;
+}
+
+const mimeType = (doc: KycDocument) => {
+  if (doc.type === "photo") return "image/jpeg";
+  return doc.name.toLowerCase().endsWith(".pdf") ? "application/pdf" : "image/jpeg";
+};
+
 // ------------------ Submit KYC ------------------
-export const submitKyc = async (data: any, token: string) => {
+export const submitKyc = async (data: KycSubmission, token: string): Promise<KycSubmitResponse> => {
   const formData = new FormData();
 
-  // Required fields
-  if (data.name) formData.append("name", data.name);
-  if (data.dob) formData.append("dob", data.dob);
+  formData.append("name", data.name);
+  formData.append("dob", data.dob);
   if (data.nationality) formData.append("nationality", data.nationality);
   if (data.aadhaarNumber) formData.append("aadhaarNumber", data.aadhaarNumber);
   if (data.passportNumber) formData.append("passportNumber", data.passportNumber);
 
-  // Append uploaded files
-  if (data.documents && data.documents.length > 0) {
-    data.documents.forEach((doc: any) => {
-      if (doc.uri) {
-        const uriParts = doc.uri.split("/");
-        const fileName = uriParts[uriParts.length - 1];
-        formData.append("documents", {
-          uri: doc.uri,
-          name: fileName,
-          type: doc.type === "photo" ? "image/jpeg" : "application/pdf",
-        } as any);
-      }
-    });
-  }
+  data.documents?.forEach((doc) => {
+    formData.append("documents", {
+      uri: doc.uri,
+      name: doc.name,
+      type: mimeType(doc),
+    } as any);
+  });
 
   const res = await kycApi.post("/submit", formData, {
     headers: {
       ...authHeaders(token),
       "Content-Type": "multipart/form-data",
     },
+    timeout: 60000, // documents upload before the response
   });
-
   return res.data;
 };
 
-// ------------------ Verify OTP ------------------
-export const verifyOtpKyc = async (
-  data: { otp: string; requestId: string },
-  token: string
-) => {
-  const res = await kycApi.post("/verify-otp", data, {
+// ------------------ OTP ------------------
+export const verifyOtpKyc = async (data: { otp: string; requestId: string }, token: string) => {
+  const res = await kycApi.post<{ success: boolean; message: string; requestId: string }>("/verify-otp", data, {
     headers: authHeaders(token),
   });
   return res.data;
 };
 
-// ------------------ Get KYC by Tourist ------------------
-export const getKycByTourist = async (touristId: string, token: string) => {
-  const res = await kycApi.get(`/tourist/${touristId}`, {
+export const resendOtp = async (requestId: string, token: string): Promise<OtpResendResponse> => {
+  const res = await kycApi.post("/resend-otp", { requestId }, {
     headers: authHeaders(token),
   });
   return res.data;
 };
 
-// ------------------ Review KYC ------------------
-export const reviewKyc = async (
-  requestId: string,
-  data: { status: "approved" | "rejected"; comment?: string },
-  token: string
-) => {
-  const res = await kycApi.post(`/review/${requestId}`, data, {
+// ------------------ Status ------------------
+export const getMyKyc = async (token: string): Promise<KycState> => {
+  const res = await kycApi.get("/me", {
     headers: authHeaders(token),
   });
-  return res.data;
-};
-
-export default {
-  submitKyc,
-  verifyOtpKyc,
-  getKycByTourist,
-  reviewKyc,
+  return { kycStatus: res.data.kycStatus, request: res.data.request };
 };
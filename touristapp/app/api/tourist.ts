@@ -0,0 +1,381 @@
+// api/tourist.ts
+import axios from "axios";
+
+const API_BASE =
+  process.env.EXPO_PUBLIC_API_URL?.concat("/api/tourist") ||
+  "http://localhost:4000/api/tourist";
+
+// Create instance
+const touristApi = axios.create({
+  baseURL: API_BASE,
+  timeout: 15000,
+});
+
+// Helper for auth headers
+const authHeaders = (token?: string) => ({
+  Authorization: token ? `Bearer ${token}` : "",
+});
+
+// Network failures, 5xx, expired auth and throttling are worth retrying later
+export const isRetryableError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return !status || status >= 500 || status === 401 || status === 408 || status === 429;
+};
+
+export interface Destination {
+  location: string;
+  startDate: string; // ISO date-time
+  endDate: string; // ISO date-time
+  accommodation?: string;
+}
+
+export interface RegistrationPayload {
+  deviceId: string;
+  expiryAt: string;
+  itinerary: {
+    destinations: Destination[];
+    purpose?: string;
+    groupSize?: number;
+    familyMembers?: { name: string; relationship: string; age?: number; phone?: string }[];
+  };
+  emergencyContacts: RemoteEmergencyContact[];
+}
+
+export interface ChainTx {
+  txId: string;
+  blockNumber: number | null;
+  timestamp: string;
+}
+
+export interface RegistrationResponse {
+  success: boolean;
+  message: string;
+  data: {
+    digitalId: string;
+    expiryAt?: string;
+    securityScore?: number;
+    chainTx?: ChainTx;
+  };
+}
+
+// Field path -> message, e.g. "itinerary.destinations.0.endDate"
+export type FieldErrors = Record<string, string>;
+
+export const getFieldErrors = (error: unknown): FieldErrors | null => {
+  if (!axios.isAxiosError(error)) return null;
+  return error.response?.data?.errors || null;
+};
+
+// ------------------ Registration ------------------
+export const registerTourist = async (
+  data: RegistrationPayload,
+  token: string
+): Promise<RegistrationResponse> => {
+  const res = await touristApi.post("/register", data, {
+    headers: authHeaders(token),
+    timeout: 60000, // waits for the ledger commit
+  });
+  return res.data;
+};
+
+export type DigitalIdStatus =
+  | "pending"
+  | "registered"
+  | "active"
+  | "suspended"
+  | "expired"
+  | "revoked";
+
+export interface DigitalIdDetails {
+  digitalId: string;
+  status: DigitalIdStatus;
+  expiryAt: string;
+  createdAt: string;
+  securityScore?: number;
+  chainTx?: ChainTx;
+  holder: {
+    name?: string;
+    dob?: string;
+    idType?: "aadhaar" | "passport";
+    idNumber?: string; // masked
+  };
+  itinerary?: RegistrationPayload["itinerary"];
+  lastKnownLocation?: { lat: number; lon: number; timestamp: string };
+  // null when the ledger could not be reached
+  ledger: { valid: boolean; status: string; expiryAt: string; verifiedAt: string } | null;
+}
+
+export interface LedgerCheck {
+  field: string;
+  label: string;
+  match: boolean;
+  local?: string;
+  ledger?: string;
+}
+
+export interface LedgerVerification {
+  match: boolean;
+  checks: LedgerCheck[];
+  ledgerVersion?: number;
+  checkedAt: string;
+}
+
+// ------------------ Digital ID ------------------
+export const getDigitalId = async (token: string): Promise<DigitalIdDetails> => {
+  const res = await touristApi.get("/digital-id", {
+    headers: authHeaders(token),
+    timeout: 30000,
+  });
+  return res.data.data;
+};
+
+export const verifyDigitalId = async (token: string): Promise<LedgerVerification> => {
+  const res = await touristApi.get("/digital-id/verify", {
+    headers: authHeaders(token),
+    timeout: 30000,
+  });
+  return res.data.data;
+};
+
+export interface Credential {
+  token: string; // compact JWS, rendered as the QR code
+  expiresAt: string;
+  issuer: string;
+  kid: string;
+}
+
+// ------------------ QR Credential ------------------
+export const getCredential = async (token: string): Promise<Credential> => {
+  const res = await touristApi.get("/credential", {
+    headers: authHeaders(token),
+  });
+  return res.data.data;
+};
+
+export interface LocationPoint {
+  lat: number;
+  lon: number;
+  speed?: number;
+  accuracy?: number;
+  ts: string;
+}
+
+// Set when the anomaly model flagged the latest sequence
+export interface LocationAnomaly {
+  type: "ANOMALY";
+  score: number;
+  ts: string;
+}
+
+// One entry per geofence the latest point falls in
+export interface GeofenceAction {
+  geofence: string;
+  restricted: boolean;
+}
+
+export interface LocationUploadResponse {
+  success: boolean;
+  accepted: number;
+  duplicates: number;
+  anomaly: LocationAnomaly | null;
+  geofences: GeofenceAction[];
+}
+
+// ------------------ Location Upload ------------------
+export const postLocations = async (
+  data: { deviceId: string; locations: LocationPoint[] },
+  token: string
+): Promise<LocationUploadResponse> => {
+  const res = await touristApi.post("/location", data, {
+    headers: authHeaders(token),
+  });
+  return res.data;
+};
+
+export interface SosPayload {
+  deviceId: string;
+  location: { lat: number; lng: number; address?: string };
+  message: string;
+  type: string;
+  timestamp: string;
+  idempotencyKey: string;
+}
+
+export interface SosResponse {
+  success: boolean;
+  message: string;
+  alertId: string;
+  duplicate?: boolean;
+}
+
+// ------------------ SOS ------------------
+export const postSos = async (data: SosPayload, token: string): Promise<SosResponse> => {
+  const res = await touristApi.post("/sos", data, {
+    headers: {
+      ...authHeaders(token),
+      "Idempotency-Key": data.idempotencyKey,
+    },
+  });
+  return res.data;
+};
+
+// Server-side SOS lifecycle, pushed over the realtime connection as "sos_status"
+export interface SosStatusUpdate {
+  alertId: string;
+  idempotencyKey?: string;
+  status: "open" | "acknowledged" | "resolved";
+  responder: { name: string; phone?: string } | null;
+  eta: string | null;
+  message: string | null;
+  updatedAt: string;
+}
+
+export const getSosAlerts = async (token: string): Promise<SosStatusUpdate[]> => {
+  const res = await touristApi.get("/sos", {
+    headers: authHeaders(token),
+  });
+  return res.data.data;
+};
+
+export interface RemoteEmergencyContact {
+  name: string;
+  phone: string;
+  relationship?: string;
+  email?: string;
+}
+
+// ------------------ Emergency Contacts ------------------
+export const getEmergencyContacts = async (
+  token: string
+): Promise<{ contacts: RemoteEmergencyContact[]; updatedAt?: string }> => {
+  const res = await touristApi.get("/emergency-contacts", {
+    headers: authHeaders(token),
+  });
+  return res.data.data;
+};
+
+export const putEmergencyContacts = async (
+  contacts: RemoteEmergencyContact[],
+  token: string
+): Promise<{ contacts: RemoteEmergencyContact[]; updatedAt?: string }> => {
+  const res = await touristApi.put(
+    "/emergency-contacts",
+    { contacts },
+    { headers: authHeaders(token) }
+  );
+  return res.data.data;
+};
+
+export interface Geofence {
+  name: string;
+  type: "circle" | "polygon";
+  center?: [number, number]; // [lat, lon]
+  radius?: number; // meters
+  vertices?: [number, number][]; // [lat, lon]
+  restricted?: boolean;
+}
+
+export interface GeofenceSet {
+  version: number;
+  changed: boolean;
+  geofences?: Geofence[];
+}
+
+// ------------------ Geofences ------------------
+export const getGeofences = async (
+  version: number | null,
+  token: string
+): Promise<GeofenceSet> => {
+  const res = await touristApi.get("/geofences", {
+    headers: authHeaders(token),
+    params: version != null ? { version } : undefined,
+  });
+  return res.data.data;
+};
+
+export type IncidentType =
+  | "theft"
+  | "assault"
+  | "harassment"
+  | "lost"
+  | "medical"
+  | "accident"
+  | "fraud"
+  | "other";
+
+export interface EvidenceFile {
+  uri: string;
+  name: string;
+  type: string; // mime type
+}
+
+export interface EfirPayload {
+  incidentType: IncidentType;
+  incidentDetails: string;
+  dateTime: string;
+  location?: { latitude: number; longitude: number; address?: string };
+  idempotencyKey: string;
+}
+
+export interface EfirResponse {
+  success: boolean;
+  message: string;
+  efirId: string;
+  attachments: string[];
+  duplicate?: boolean;
+}
+
+// Police case updates on a filed e-FIR, pushed over the realtime connection as "efir_status"
+export interface EfirStatusUpdate {
+  efirId: string;
+  status: "submitted" | "under_review" | "resolved";
+  resolution: string | null;
+  updatedAt: string;
+}
+
+// ------------------ e-FIR ------------------
+export const postEfir = async (
+  data: EfirPayload,
+  evidence: EvidenceFile[],
+  token: string
+): Promise<EfirResponse> => {
+  const formData = new FormData();
+  formData.append("incidentType", data.incidentType);
+  formData.append("incidentDetails", data.incidentDetails);
+  formData.append("dateTime", data.dateTime);
+  if (data.location) {
+    formData.append("location", JSON.stringify(data.location));
+  }
+  evidence.forEach((file) => {
+    formData.append("evidence", {
+      uri: file.uri,
+      name: file.name,
+      type: file.type,
+    } as any);
+  });
+
+  const res = await touristApi.post("/efir", formData, {
+    headers: {
+      ...authHeaders(token),
+      "Content-Type": "multipart/form-data",
+      "Idempotency-Key": data.idempotencyKey,
+    },
+    timeout: 120000, // videos can take a while on mobile data
+  });
+  return res.data;
+};
+
+export default {
+  registerTourist,
+  getDigitalId,
+  verifyDigitalId,
+  getCredential,
+  postLocations,
+  postSos,
+  getSosAlerts,
+  getEmergencyContacts,
+  putEmergencyContacts,
+  getGeofences,
+  postEfir,
+};
@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { getMe } from '../api/auth';
 import Storage from '../utils/storage';
+import RealtimeService from '../services/realtime';
+import CredentialService from '../services/credential';
+import LocationService from '../services/location';
+import EmergencyService from '../services/emergency';
 
 interface User {
   _id: string;
@@ -35,6 +39,21 @@ const AuthContext = createContext<AuthContextType>({
   isAuthenticated: false,
 });
 
+// The one sign-out path: everything stored for this tourist goes with the token,
+// so the next account on the device does not upload or sync any of it
+export const signOut = async (): Promise<void> => {
+  try {
+    RealtimeService.disconnect();
+    await LocationService.clear();
+    await EmergencyService.clear();
+    await CredentialService.clear();
+    await Storage.removeItem('token');
+    await Storage.removeItem('user');
+  } catch (error) {
+    console.error('Logout error:', error);
+  }
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -62,13 +81,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const logout = async (): Promise<void> => {
-    try {
-      await Storage.removeItem('token');
-      await Storage.removeItem('user');
-      setUser(null);
-    } catch (error) {
-      console.error('Logout error:', error);
-    }
+    await signOut();
+    setUser(null);
   };
 
   const refreshUser = async (): Promise<void> => {
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
+import { ArrowLeft, Phone, Plus, RefreshCw, Trash2, User } from 'lucide-react-native';
+import EmergencyService, { EmergencyContact } from './services/emergency';
+
+// Same rule the ledger applies to contact phone numbers
+const PHONE_PATTERN = /^\+?[\d\s\-()]{10,}$/;
+
+export default function EmergencyContacts() {
+  const [contacts, setContacts] = useState<EmergencyContact[]>(EmergencyService.getPersonalContacts());
+  const [unsynced, setUnsynced] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [form, setForm] = useState({ name: '', relationship: '', phone: '' });
+
+  useEffect(() => {
+    const unsubscribe = EmergencyService.subscribeContacts(setContacts);
+    EmergencyService.hasUnsyncedContacts().then(setUnsynced);
+    return unsubscribe;
+  }, []);
+
+  const saveContacts = async (next: EmergencyContact[]) => {
+    setSyncing(true);
+    const synced = await EmergencyService.setPersonalContacts(next);
+    setUnsynced(!synced);
+    setSyncing(false);
+  };
+
+  const handleAdd = async () => {
+    const name = form.name.trim();
+    const phone = form.phone.trim();
+    const relationship = form.relationship.trim();
+
+    if (!name || !phone) {
+      Alert.alert('Error', 'Please enter a name and phone number');
+      return;
+    }
+    if (!PHONE_PATTERN.test(phone)) {
+      Alert.alert('Error', 'Please enter a valid phone number with at least 10 digits');
+      return;
+    }
+    if (contacts.some(c => c.phone === phone)) {
+      Alert.alert('Error', 'This number is already in your emergency contacts');
+      return;
+    }
+
+    setForm({ name: '', relationship: '', phone: '' });
+    await saveContacts([
+      ...contacts,
+      { name, phone, relationship, type: /friend/i.test(relationship) ? 'friend' : 'family' },
+    ]);
+  };
+
+  const handleRemove = (contact: EmergencyContact) => {
+    Alert.alert(
+      'Remove Contact',
+      `Remove ${contact.name} from your emergency contacts?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => saveContacts(contacts.filter(c => c.phone !== contact.phone)),
+        },
+      ]
+    );
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    const synced = await EmergencyService.syncEmergencyContacts();
+    setUnsynced(await EmergencyService.hasUnsyncedContacts());
+    setSyncing(false);
+    if (!synced) {
+      Alert.alert('Sync Failed', 'Your contacts are saved on this device and will sync when you are back online.');
+    }
+  };
+
+  const getSyncLabel = () => {
+    if (syncing) return 'Syncing with your Digital ID...';
+    if (unsynced) return 'Saved on this device, waiting to sync';
+    return 'Synced with your Digital ID';
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={20} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Emergency Contacts</Text>
+          <Text style={styles.subtitle}>These people are notified when you send an SOS</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Sync Status */}
+        <View style={[styles.syncCard, unsynced && styles.syncCardPending]}>
+          <Text style={[styles.syncText, unsynced && styles.syncTextPending]}>{getSyncLabel()}</Text>
+          <TouchableOpacity onPress={handleSync} disabled={syncing}>
+            <RefreshCw size={18} color={unsynced ? '#D97706' : '#059669'} />
+          </TouchableOpacity>
+        </View>
+
+        {/* Contact List */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your Contacts</Text>
+          {contacts.length === 0 ? (
+            <Text style={styles.emptyText}>No emergency contacts yet. Add someone who should hear from you in an emergency.</Text>
+          ) : (
+            contacts.map(contact => (
+              <View key={contact.phone} style={styles.contactCard}>
+                <View style={styles.contactInfo}>
+                  <Text style={styles.contactName}>{contact.name}</Text>
+                  <Text style={styles.contactDetails}>
+                    {contact.relationship ? `${contact.relationship} • ${contact.phone}` : contact.phone}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(contact)}>
+                  <Trash2 size={16} color="#DC2626" />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Add Contact */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add Contact</Text>
+
+          <View style={styles.inputContainer}>
+            <User size={20} color="#6B7280" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder="Full Name"
+              value={form.name}
+              onChangeText={(value) => setForm(prev => ({ ...prev, name: value }))}
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              placeholder="Relationship"
+              value={form.relationship}
+              onChangeText={(value) => setForm(prev => ({ ...prev, relationship: value }))}
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Phone size={20} color="#6B7280" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder="Phone Number"
+              value={form.phone}
+              onChangeText={(value) => setForm(prev => ({ ...prev, phone: value }))}
+              keyboardType="phone-pad"
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.addButton, syncing && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={syncing}
+          >
+            <Plus size={18} color="#FFFFFF" />
+            <Text style={styles.addButtonText}>Add Contact</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 24,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 16,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  syncCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#ECFDF5',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  syncCardPending: {
+    backgroundColor: '#FFFBEB',
+  },
+  syncText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#059669',
+  },
+  syncTextPending: {
+    color: '#D97706',
+  },
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    fontStyle: 'italic',
+    padding: 20,
+  },
+  contactCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  contactInfo: {
+    flex: 1,
+  },
+  contactName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  contactDetails: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#FEF2F2',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#1D4ED8',
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  addButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,495 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  useAudioRecorder,
+  useAudioRecorderState,
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+} from 'expo-audio';
+import { ArrowLeft, Camera, Image as ImageIcon, MapPin, Mic, Square, Trash2, Video, FileAudio, Clock } from 'lucide-react-native';
+import EmergencyService from './services/emergency';
+import LocationService, { LocationData } from './services/location';
+import { EvidenceFile, IncidentType } from './api/tourist';
+
+// Matches the limit on the e-FIR upload route
+const MAX_EVIDENCE = 5;
+
+const INCIDENT_TYPES: { value: IncidentType; label: string }[] = [
+  { value: 'theft', label: 'Theft' },
+  { value: 'assault', label: 'Assault' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'lost', label: 'Lost Person/Item' },
+  { value: 'medical', label: 'Medical' },
+  { value: 'accident', label: 'Accident' },
+  { value: 'fraud', label: 'Fraud/Scam' },
+  { value: 'other', label: 'Other' },
+];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatDateTime = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const parseDateTime = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toEvidenceFile = (asset: ImagePicker.ImagePickerAsset): EvidenceFile => {
+  const isVideo = asset.type === 'video';
+  const extension = asset.uri.split('.').pop() || (isVideo ? 'mp4' : 'jpg');
+  return {
+    uri: asset.uri,
+    name: asset.fileName || `evidence-${Date.now()}.${extension}`,
+    type: asset.mimeType || (isVideo ? 'video/mp4' : 'image/jpeg'),
+  };
+};
+
+export default function ReportIncident() {
+  const { media } = useLocalSearchParams<{ media?: string }>();
+  const [incidentType, setIncidentType] = useState<IncidentType | null>(null);
+  const [description, setDescription] = useState('');
+  const [dateTime, setDateTime] = useState(formatDateTime(new Date()));
+  const [location, setLocation] = useState<LocationData | null>(null);
+  const [locating, setLocating] = useState(true);
+  const [evidence, setEvidence] = useState<EvidenceFile[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  // One key per report, so resubmitting after a failed response cannot file it twice
+  const [idempotencyKey] = useState(() => `efir-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`);
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const recorderState = useAudioRecorderState(recorder);
+
+  useEffect(() => {
+    LocationService.getCurrentLocation()
+      .then(setLocation)
+      .finally(() => setLocating(false));
+
+    // "Report with Photo" opens the camera straight away
+    if (media === 'camera') {
+      takePhoto();
+    }
+  }, []);
+
+  const addEvidence = (files: EvidenceFile[]) => {
+    setEvidence(prev => {
+      const next = [...prev, ...files];
+      if (next.length > MAX_EVIDENCE) {
+        Alert.alert('Limit Reached', `You can attach up to ${MAX_EVIDENCE} files per report.`);
+      }
+      return next.slice(0, MAX_EVIDENCE);
+    });
+  };
+
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Camera access is needed to capture evidence.');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ['images', 'videos'],
+      quality: 0.7,
+      videoMaxDuration: 60,
+    });
+    if (!result.canceled) {
+      addEvidence(result.assets.map(toEvidenceFile));
+    }
+  };
+
+  const pickFromLibrary = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images', 'videos'],
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_EVIDENCE - evidence.length,
+      quality: 0.7,
+    });
+    if (!result.canceled) {
+      addEvidence(result.assets.map(toEvidenceFile));
+    }
+  };
+
+  const toggleVoiceNote = async () => {
+    try {
+      if (recorderState.isRecording) {
+        await recorder.stop();
+        if (recorder.uri) {
+          addEvidence([{ uri: recorder.uri, name: `voice-note-${Date.now()}.m4a`, type: 'audio/m4a' }]);
+        }
+        return;
+      }
+
+      const { granted } = await requestRecordingPermissionsAsync();
+      if (!granted) {
+        Alert.alert('Permission Required', 'Microphone access is needed to record a voice note.');
+        return;
+      }
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+    } catch (error) {
+      console.error('Error recording voice note:', error);
+      Alert.alert('Error', 'Unable to record a voice note');
+    }
+  };
+
+  const removeEvidence = (uri: string) => {
+    setEvidence(prev => prev.filter(file => file.uri !== uri));
+  };
+
+  const handleSubmit = async () => {
+    if (!incidentType) {
+      Alert.alert('Error', 'Please select the type of incident');
+      return;
+    }
+    if (!description.trim()) {
+      Alert.alert('Error', 'Please describe what happened');
+      return;
+    }
+    const incidentTime = parseDateTime(dateTime);
+    if (!incidentTime) {
+      Alert.alert('Error', 'Please enter the time as YYYY-MM-DD HH:MM');
+      return;
+    }
+    if (recorderState.isRecording) {
+      Alert.alert('Error', 'Please stop the voice note before submitting');
+      return;
+    }
+
+    setSubmitting(true);
+    const efirId = await EmergencyService.reportIncident({
+      type: incidentType,
+      description: description.trim(),
+      dateTime: incidentTime,
+      location: location || undefined,
+      evidence,
+      idempotencyKey,
+    });
+    setSubmitting(false);
+
+    if (efirId) {
+      Alert.alert(
+        'e-FIR Filed',
+        `Your report has been submitted to the authorities.\n\ne-FIR ID: ${efirId}`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    }
+  };
+
+  const getEvidenceIcon = (file: EvidenceFile) => {
+    if (file.type.startsWith('video')) return <Video size={18} color="#1D4ED8" />;
+    if (file.type.startsWith('audio')) return <FileAudio size={18} color="#1D4ED8" />;
+    return <ImageIcon size={18} color="#1D4ED8" />;
+  };
+
+  const getLocationLabel = () => {
+    if (locating) return 'Getting your location...';
+    if (!location) return 'Location unavailable';
+    return location.address || `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`;
+  };
+
+  const recordingSeconds = Math.floor((recorderState.durationMillis || 0) / 1000);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={20} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Report Incident</Text>
+          <Text style={styles.subtitle}>Filed as an e-FIR with the local police</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Incident Type */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Type of Incident</Text>
+          <View style={styles.typeGrid}>
+            {INCIDENT_TYPES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.typeChip, incidentType === option.value && styles.typeChipSelected]}
+                onPress={() => setIncidentType(option.value)}
+              >
+                <Text style={[styles.typeChipText, incidentType === option.value && styles.typeChipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Details */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>What Happened</Text>
+          <View style={[styles.inputContainer, styles.textAreaContainer]}>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              placeholder="Describe the incident, people involved and anything that could help the police"
+              value={description}
+              onChangeText={setDescription}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Clock size={20} color="#6B7280" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder="YYYY-MM-DD HH:MM"
+              value={dateTime}
+              onChangeText={setDateTime}
+            />
+          </View>
+
+          <View style={styles.locationRow}>
+            <MapPin size={20} color="#16A34A" />
+            <Text style={styles.locationText}>{getLocationLabel()}</Text>
+          </View>
+        </View>
+
+        {/* Evidence */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Evidence ({evidence.length}/{MAX_EVIDENCE})</Text>
+          <View style={styles.evidenceActions}>
+            <TouchableOpacity style={styles.evidenceButton} onPress={takePhoto} disabled={evidence.length >= MAX_EVIDENCE}>
+              <Camera size={20} color="#1D4ED8" />
+              <Text style={styles.evidenceButtonText}>Camera</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.evidenceButton} onPress={pickFromLibrary} disabled={evidence.length >= MAX_EVIDENCE}>
+              <ImageIcon size={20} color="#1D4ED8" />
+              <Text style={styles.evidenceButtonText}>Gallery</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.evidenceButton, recorderState.isRecording && styles.recordingButton]}
+              onPress={toggleVoiceNote}
+              disabled={!recorderState.isRecording && evidence.length >= MAX_EVIDENCE}
+            >
+              {recorderState.isRecording ? <Square size={20} color="#DC2626" /> : <Mic size={20} color="#1D4ED8" />}
+              <Text style={[styles.evidenceButtonText, recorderState.isRecording && styles.recordingText]}>
+                {recorderState.isRecording ? `Stop ${recordingSeconds}s` : 'Voice Note'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {evidence.map(file => (
+            <View key={file.uri} style={styles.evidenceItem}>
+              {getEvidenceIcon(file)}
+              <Text style={styles.evidenceName} numberOfLines={1}>{file.name}</Text>
+              <TouchableOpacity style={styles.removeButton} onPress={() => removeEvidence(file.uri)}>
+                <Trash2 size={16} color="#DC2626" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={submitting}
+        >
+          <Text style={styles.submitButtonText}>
+            {submitting ? 'Submitting Report...' : 'Submit e-FIR'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 24,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 16,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  section: {
+    marginBottom: 28,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  typeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  typeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  typeChipSelected: {
+    backgroundColor: '#1D4ED8',
+    borderColor: '#1D4ED8',
+  },
+  typeChipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  typeChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  textAreaContainer: {
+    alignItems: 'flex-start',
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+  },
+  textArea: {
+    minHeight: 100,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  locationText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  evidenceActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  evidenceButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#EFF6FF',
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  recordingButton: {
+    backgroundColor: '#FEF2F2',
+    borderColor: '#FECACA',
+  },
+  evidenceButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1D4ED8',
+    marginTop: 6,
+  },
+  recordingText: {
+    color: '#DC2626',
+  },
+  evidenceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  evidenceName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  removeButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#FEF2F2',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  footer: {
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+  submitButton: {
+    backgroundColor: '#1D4ED8',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
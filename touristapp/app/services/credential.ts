@@ -0,0 +1,62 @@
+import Storage from '../utils/storage';
+import { getCredential, Credential } from '../api/tourist';
+
+const CREDENTIAL_KEY = 'qrCredential';
+const REFRESH_MARGIN = 30 * 1000; // fetch a new credential 30s before expiry
+
+class CredentialService {
+  private credential: Credential | null = null;
+  private fetchPromise: Promise<Credential | null> | null = null;
+
+  /**
+   * A signed credential for the QR code. A cached one is reused while it has
+   * time left, and still returned when offline as long as it has not expired.
+   */
+  async getCredential(): Promise<Credential | null> {
+    if (!this.credential) {
+      this.credential = await Storage.getJsonItem<Credential>(CREDENTIAL_KEY);
+    }
+    if (this.credential && this.timeLeft(this.credential) > REFRESH_MARGIN) {
+      return this.credential;
+    }
+
+    if (!this.fetchPromise) {
+      this.fetchPromise = this.fetchCredential().finally(() => {
+        this.fetchPromise = null;
+      });
+    }
+    return this.fetchPromise;
+  }
+
+  /**
+   * When the credential should be replaced, in ms from now.
+   */
+  refreshDelay(credential: Credential): number {
+    return Math.max(this.timeLeft(credential) - REFRESH_MARGIN, 1000);
+  }
+
+  timeLeft(credential: Credential): number {
+    return new Date(credential.expiresAt).getTime() - Date.now();
+  }
+
+  async clear(): Promise<void> {
+    this.credential = null;
+    await Storage.removeItem(CREDENTIAL_KEY);
+  }
+
+  private async fetchCredential(): Promise<Credential | null> {
+    const token = await Storage.getItem('token');
+    if (!token) return null;
+
+    try {
+      this.credential = await getCredential(token);
+      await Storage.setJsonItem(CREDENTIAL_KEY, this.credential);
+    } catch (error) {
+      console.log('Credential not refreshed:', error);
+    }
+
+    return this.credential && this.timeLeft(this.credential) > 0 ? this.credential : null;
+  }
+}
+
+export default new CredentialService();
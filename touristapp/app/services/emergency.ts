@@ -1,8 +1,35 @@
 import * as Location from 'expo-location';
 import * as Haptics from 'expo-haptics';
-import { Alert, Linking } from 'react-native';
+import * as SMS from 'expo-sms';
+import NetInfo from '@react-native-community/netinfo';
+import axios from 'axios';
+import { Alert, AppState, Linking, Platform, Vibration } from 'react-native';
 import Storage from '../utils/storage';
-import LocationService from './location';
+import LocationService, { LocationData } from './location';
+import GeofenceService from './geofence';
+import RealtimeService from './realtime';
+import {
+  postSos,
+  getSosAlerts,
+  getEmergencyContacts,
+  putEmergencyContacts,
+  postEfir,
+  isRetryableError,
+  RemoteEmergencyContact,
+  IncidentType,
+  EvidenceFile,
+  SosStatusUpdate,
+  EfirStatusUpdate,
+} from '../api/tourist';
+
+const ALERT_HISTORY_KEY = 'alertHistory';
+const PENDING_SOS_KEY = 'pendingSos';
+const CONTACTS_KEY = 'emergencyContacts';
+const CONTACTS_DIRTY_KEY = 'emergencyContactsDirty';
+const SOS_MAX_ATTEMPTS = 3;
+const SOS_RETRY_DELAY = 1000;
+const NATIONAL_EMERGENCY_NUMBER = '112';
+const STATUS_CHANGE_VIBRATION = [0, 400, 200, 400];
 
 export interface EmergencyContact {
   name: string;
@@ -11,6 +38,9 @@ export interface EmergencyContact {
   type: 'family' | 'friend' | 'authority';
 }
 
+// How far an SOS got: the server, the offline queue, or only an SMS
+export type SosDelivery = 'sending' | 'delivered' | 'queued' | 'sms' | 'failed';
+
 export interface EmergencyAlert {
   id: string;
   type: 'sos' | 'medical' | 'security' | 'geofence';
@@ -18,21 +48,89 @@ export interface EmergencyAlert {
   location: {
     latitude: number;
     longitude: number;
+    accuracy?: number;
     address?: string;
   };
   timestamp: Date;
   status: 'sent' | 'acknowledged' | 'resolved';
   contacts: string[];
+  delivery?: SosDelivery;
+  idempotencyKey?: string;
+  serverAlertId?: string;
+  responder?: { name: string; phone?: string };
+  eta?: string;
+  responseMessage?: string;
+  statusUpdatedAt?: string;
+}
+
+export interface IncidentReport {
+  type: IncidentType;
+  description: string;
+  dateTime: Date;
+  location?: LocationData;
+  evidence: EvidenceFile[];
+  idempotencyKey: string;
 }
 
+type SendResult = 'delivered' | 'retryable' | 'rejected';
+
+const toRemoteContact = (contact: EmergencyContact): RemoteEmergencyContact => ({
+  name: contact.name,
+  phone: contact.phone,
+  relationship: contact.relationship,
+});
+
+const fromRemoteContact = (contact: RemoteEmergencyContact): EmergencyContact => ({
+  name: contact.name,
+  phone: contact.phone,
+  relationship: contact.relationship || '',
+  type: /friend/i.test(contact.relationship || '') ? 'friend' : 'family',
+});
+
 class EmergencyService {
-  private emergencyContacts: EmergencyContact[] = [
+  private authorityContacts: EmergencyContact[] = [
     { name: 'Local Police', phone: '100', relationship: 'Authority', type: 'authority' },
     { name: 'Tourist Helpline', phone: '1363', relationship: 'Authority', type: 'authority' },
     { name: 'Medical Emergency', phone: '108', relationship: 'Authority', type: 'authority' },
   ];
 
+  // The tourist's own contacts, mirrored to the encrypted field on their Digital ID
+  private personalContacts: EmergencyContact[] = [];
+  private contactListeners = new Set<(contacts: EmergencyContact[]) => void>();
+  private contactsReady: Promise<void>;
+
   private alertHistory: EmergencyAlert[] = [];
+  private historyReady: Promise<void>;
+  private listeners = new Set<(alerts: EmergencyAlert[]) => void>();
+  private isFlushing = false;
+
+  constructor() {
+    this.historyReady = this.loadAlertHistory();
+    // Syncing before the stored contacts are read would push an empty list
+    this.contactsReady = this.loadEmergencyContacts();
+    this.contactsReady.then(() => this.syncEmergencyContacts());
+
+    // Deliver SOS alerts queued while offline once the connection is back
+    NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.flushPendingSos();
+        this.syncEmergencyContacts();
+      }
+    });
+
+    // Police responses arrive over the realtime connection; catch up on reconnect
+    RealtimeService.on('sos_status', (update: SosStatusUpdate) => this.applySosStatus(update));
+    RealtimeService.onConnect(() => this.refreshSosStatuses());
+    RealtimeService.on('efir_status', (update: EfirStatusUpdate) => this.announceEfirStatus(update));
+
+    // Warn once per entry into a restricted zone while tracking runs
+    GeofenceService.subscribe(({ entered, location }) => {
+      const restricted = entered.find(zone => zone.restricted);
+      if (restricted && AppState.currentState === 'active') {
+        this.triggerGeofenceAlert(restricted.name, location);
+      }
+    });
+  }
 
   async triggerPanicAlert(message?: string): Promise<boolean> {
     try {
@@ -54,73 +152,200 @@ class EmergencyService {
         location: {
           latitude: location.latitude,
           longitude: location.longitude,
+          accuracy: location.accuracy,
           address: location.address,
         },
         timestamp: new Date(),
         status: 'sent',
-        contacts: this.emergencyContacts.map(c => c.phone),
+        contacts: this.getEmergencyContacts().map(c => c.phone),
+        delivery: 'sending',
+        idempotencyKey: `sos-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
       };
 
       // Add to history
       this.alertHistory.unshift(alert);
+      await this.saveAlertHistory();
 
-      // Send to backend
-      await this.sendEmergencyAlert(alert);
+      // Send to backend, falling back to the queue and SMS
+      const delivery = await this.deliverAlert(alert);
 
       // Notify emergency contacts
-      await this.notifyEmergencyContacts(alert);
+      await this.notifyEmergencyContacts(alert, delivery);
 
-      return true;
+      return delivery !== 'failed';
     } catch (error) {
       console.error('Error triggering panic alert:', error);
       return false;
     }
   }
 
-  private async sendEmergencyAlert(alert: EmergencyAlert): Promise<void> {
+  private async deliverAlert(alert: EmergencyAlert): Promise<SosDelivery> {
+    const network = await NetInfo.fetch();
+    const online = network.isConnected && network.isInternetReachable !== false;
+
+    if (!online) {
+      await this.queueSos(alert);
+      const smsSent = await this.sendSmsFallback(alert);
+      return this.setDelivery(alert.id, smsSent ? 'sms' : 'queued');
+    }
+
+    const result = await this.sendEmergencyAlert(alert);
+    if (result === 'delivered') {
+      return this.setDelivery(alert.id, 'delivered');
+    }
+    if (result === 'retryable') {
+      // Online but the backend is unreachable (outage, captive portal): text
+      // now and keep the queued copy for when the server is back
+      await this.queueSos(alert);
+      const smsSent = await this.sendSmsFallback(alert);
+      return this.setDelivery(alert.id, smsSent ? 'sms' : 'queued');
+    }
+
+    const smsSent = await this.sendSmsFallback(alert);
+    return this.setDelivery(alert.id, smsSent ? 'sms' : 'failed');
+  }
+
+  private async sendEmergencyAlert(alert: EmergencyAlert): Promise<SendResult> {
+    const token = await Storage.getItem('token');
+    if (!token) {
+      console.log('No token found for emergency alert');
+      return 'rejected';
+    }
+
+    const payload = {
+      deviceId: await LocationService.getDeviceId(),
+      location: {
+        lat: alert.location.latitude,
+        lng: alert.location.longitude,
+        address: alert.location.address,
+      },
+      message: alert.message,
+      type: alert.type,
+      timestamp: new Date(alert.timestamp).toISOString(),
+      idempotencyKey: alert.idempotencyKey || alert.id,
+    };
+
+    for (let attempt = 1; attempt <= SOS_MAX_ATTEMPTS; attempt++) {
+      try {
+        const response = await postSos(payload, token);
+        await this.updateAlert(alert.id, { serverAlertId: String(response.alertId) });
+        return 'delivered';
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          console.error('Emergency alert rejected by backend:', axios.isAxiosError(error) ? error.response?.data : error);
+          return 'rejected';
+        }
+        console.log(`Emergency alert attempt ${attempt} failed`);
+        if (attempt < SOS_MAX_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, SOS_RETRY_DELAY * 2 ** (attempt - 1)));
+        }
+      }
+    }
+
+    return 'retryable';
+  }
+
+  private async queueSos(alert: EmergencyAlert): Promise<void> {
+    const pending = (await Storage.getJsonItem<string[]>(PENDING_SOS_KEY)) || [];
+    if (!pending.includes(alert.id)) {
+      await Storage.setJsonItem(PENDING_SOS_KEY, [...pending, alert.id]);
+    }
+  }
+
+  /**
+   * Retry queued SOS alerts in the order they were raised. The idempotency
+   * key keeps the backend from creating a second alert for the same SOS.
+   */
+  async flushPendingSos(): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+
     try {
-      const user = await Storage.getJsonItem('user');
-      const token = await Storage.getItem('token');
+      // Queued ids refer to stored alerts; looking them up earlier would drop them
+      await this.historyReady;
+      const pending = (await Storage.getJsonItem<string[]>(PENDING_SOS_KEY)) || [];
+      // Ids whose alert is not in memory stay queued for a later flush
+      const kept: string[] = [];
+
+      while (pending.length > 0) {
+        const alert = this.alertHistory.find(a => a.id === pending[0]);
+        if (alert) {
+          const result = await this.sendEmergencyAlert(alert);
+          if (result === 'retryable') break;
+          if (result === 'delivered') {
+            await this.setDelivery(alert.id, 'delivered');
+          } else if (alert.delivery !== 'sms') {
+            await this.setDelivery(alert.id, 'failed');
+          }
+        } else {
+          kept.push(pending[0]);
+        }
 
-      if (!user || !token) {
-        console.log('No user or token found for emergency alert');
-        return;
+        pending.shift();
+        await Storage.setJsonItem(PENDING_SOS_KEY, [...kept, ...pending]);
       }
+    } catch (error) {
+      console.error('Error flushing pending SOS alerts:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
 
-      const payload = {
-        touristId: user.walletId || user._id,
-        deviceId: 'mobile-app',
-        location: alert.location,
-        message: alert.message,
-        type: alert.type,
-        timestamp: alert.timestamp.toISOString(),
-      };
+  private async sendSmsFallback(alert: EmergencyAlert): Promise<boolean> {
+    const recipients = Array.from(new Set([
+      ...this.personalContacts.map(c => c.phone),
+      NATIONAL_EMERGENCY_NUMBER,
+    ]));
+    const body = this.buildSmsBody(alert);
 
-      // Send to your backend API
-      console.log('Sending emergency alert to backend:', payload);
-      
-      // Example API call:
-      // await axios.post('/api/tourist/sos', payload, {
-      //   headers: { Authorization: `Bearer ${token}` }
-      // });
+    try {
+      if (await SMS.isAvailableAsync()) {
+        const { result } = await SMS.sendSMSAsync(recipients, body);
+        return result !== 'cancelled';
+      }
 
+      const separator = Platform.OS === 'ios' ? '&' : '?';
+      await Linking.openURL(`sms:${recipients.join(',')}${separator}body=${encodeURIComponent(body)}`);
+      return true;
     } catch (error) {
-      console.error('Error sending emergency alert to backend:', error);
+      console.error('Error opening SMS fallback:', error);
+      return false;
     }
   }
 
-  private async notifyEmergencyContacts(alert: EmergencyAlert): Promise<void> {
+  // Kept short enough to fit in a single SMS
+  private buildSmsBody(alert: EmergencyAlert): string {
+    const lat = alert.location.latitude.toFixed(5);
+    const lng = alert.location.longitude.toFixed(5);
+    const accuracy = alert.location.accuracy ? ` ±${Math.round(alert.location.accuracy)}m` : '';
+    const time = new Date(alert.timestamp).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+    return `SOS! I need help. Loc ${lat},${lng}${accuracy} at ${time} maps.google.com/?q=${lat},${lng}`;
+  }
+
+  private async notifyEmergencyContacts(alert: EmergencyAlert, delivery: SosDelivery): Promise<void> {
     try {
-      // For demo purposes, we'll show an alert
-      // In a real app, you might send SMS or push notifications
-      
-      const contactList = this.emergencyContacts
+      const contactList = this.getEmergencyContacts()
         .map(c => `${c.name}: ${c.phone}`)
         .join('\n');
+      const locationText = `Location: ${alert.location.address || 'Current Location'}`;
+
+      let title = 'Emergency Alert Sent';
+      let body = `Your emergency alert has been sent to:\n\n${contactList}\n\n${locationText}\n\nHelp is on the way. Stay calm and stay visible.`;
+
+      if (delivery === 'queued') {
+        title = 'Emergency Alert Queued';
+        body = `We could not reach the server yet. Your alert will be sent automatically as soon as a connection is available.\n\n${locationText}\n\nCall the police directly if you can.`;
+      } else if (delivery === 'sms') {
+        title = 'Emergency SMS Sent';
+        body = `There is no data connection, so your location was sent by SMS to your emergency contacts and ${NATIONAL_EMERGENCY_NUMBER}. The alert will also reach the authorities once you are back online.\n\n${locationText}`;
+      } else if (delivery === 'failed') {
+        title = 'Emergency Alert Failed';
+        body = 'Your alert could not be delivered. Please call emergency services directly.';
+      }
 
       Alert.alert(
-        'Emergency Alert Sent',
-        `Your emergency alert has been sent to:\n\n${contactList}\n\nLocation: ${alert.location.address || 'Current Location'}\n\nHelp is on the way. Stay calm and stay visible.`,
+        title,
+        body,
         [
           {
             text: 'Call Police (100)',
@@ -137,6 +362,104 @@ class EmergencyService {
     }
   }
 
+  // ---------- Alert history ----------
+
+  subscribe(listener: (alerts: EmergencyAlert[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ---------- SOS status ----------
+
+  /**
+   * Fetch the server-side status of recent alerts, for updates missed while
+   * the realtime connection was down.
+   */
+  async refreshSosStatuses(): Promise<void> {
+    const token = await Storage.getItem('token');
+    if (!token) return;
+
+    try {
+      const updates = await getSosAlerts(token);
+      for (const update of updates) {
+        await this.applySosStatus(update);
+      }
+    } catch (error) {
+      console.log('SOS statuses not refreshed:', axios.isAxiosError(error) ? error.response?.status ?? error.message : error);
+    }
+  }
+
+  private async applySosStatus(update: SosStatusUpdate): Promise<void> {
+    // Alerts that were queued offline only know their idempotency key
+    const alert = this.alertHistory.find(a =>
+      a.serverAlertId === update.alertId ||
+      (update.idempotencyKey && a.idempotencyKey === update.idempotencyKey)
+    );
+    if (!alert) return;
+
+    const status = update.status === 'open' ? 'sent' : update.status;
+    const changes: Partial<EmergencyAlert> = {
+      serverAlertId: update.alertId,
+      status,
+      responder: update.responder || undefined,
+      eta: update.eta || undefined,
+      responseMessage: update.message || undefined,
+      statusUpdatedAt: update.updatedAt,
+    };
+    const changed = (Object.keys(changes) as (keyof EmergencyAlert)[])
+      .some(key => JSON.stringify(changes[key]) !== JSON.stringify(alert[key]));
+    if (!changed) return;
+
+    await this.updateAlert(alert.id, changes);
+    if (status !== alert.status) {
+      Vibration.vibrate(STATUS_CHANGE_VIBRATION);
+    }
+  }
+
+  private announceEfirStatus(update: EfirStatusUpdate): void {
+    Vibration.vibrate(STATUS_CHANGE_VIBRATION);
+    if (update.status === 'resolved') {
+      Alert.alert('Incident Report Resolved', `e-FIR ${update.efirId} was resolved.${update.resolution ? `\n\n${update.resolution}` : ''}`);
+    } else {
+      Alert.alert('Incident Report Update', `Police are now reviewing your e-FIR ${update.efirId}.`);
+    }
+  }
+
+  private async setDelivery(alertId: string, delivery: SosDelivery): Promise<SosDelivery> {
+    await this.updateAlert(alertId, { delivery });
+    return delivery;
+  }
+
+  private async updateAlert(alertId: string, changes: Partial<EmergencyAlert>): Promise<void> {
+    this.alertHistory = this.alertHistory.map(a => (a.id === alertId ? { ...a, ...changes } : a));
+    await this.saveAlertHistory();
+  }
+
+  private async loadAlertHistory(): Promise<void> {
+    const stored = await Storage.getJsonItem<EmergencyAlert[]>(ALERT_HISTORY_KEY);
+    if (stored) {
+      const loadedIds = new Set(this.alertHistory.map(a => a.id));
+      const restored = stored
+        .filter(a => !loadedIds.has(a.id))
+        .map(a => ({ ...a, timestamp: new Date(a.timestamp) }));
+      this.alertHistory = [...this.alertHistory, ...restored];
+      this.emit();
+    }
+  }
+
+  private async saveAlertHistory(): Promise<void> {
+    this.alertHistory = this.alertHistory.slice(0, 50);
+    await Storage.setJsonItem(ALERT_HISTORY_KEY, this.alertHistory);
+    this.emit();
+  }
+
+  private emit(): void {
+    const alerts = this.getAlertHistory();
+    this.listeners.forEach(listener => listener(alerts));
+  }
+
   async makeEmergencyCall(phoneNumber: string): Promise<void> {
     try {
       const url = `tel:${phoneNumber}`;
@@ -153,18 +476,105 @@ class EmergencyService {
     }
   }
 
+  // ---------- Emergency contacts ----------
+
   async addEmergencyContact(contact: EmergencyContact): Promise<void> {
-    this.emergencyContacts.push(contact);
-    await Storage.setJsonItem('emergencyContacts', this.emergencyContacts);
+    await this.setPersonalContacts([
+      ...this.personalContacts.filter(c => c.phone !== contact.phone),
+      contact,
+    ]);
   }
 
   async removeEmergencyContact(phone: string): Promise<void> {
-    this.emergencyContacts = this.emergencyContacts.filter(c => c.phone !== phone);
-    await Storage.setJsonItem('emergencyContacts', this.emergencyContacts);
+    await this.setPersonalContacts(this.personalContacts.filter(c => c.phone !== phone));
+  }
+
+  /**
+   * Replace the tourist's own contacts, persist them on the device and push
+   * them to the Digital ID. Edits that cannot be pushed yet are retried on
+   * the next sync.
+   */
+  async setPersonalContacts(contacts: EmergencyContact[]): Promise<boolean> {
+    await this.contactsReady;
+    this.personalContacts = contacts.filter(c => c.type !== 'authority');
+    await Storage.setJsonItem(CONTACTS_KEY, this.personalContacts);
+    await Storage.setItem(CONTACTS_DIRTY_KEY, 'true');
+    this.emitContacts();
+    return this.syncEmergencyContacts();
+  }
+
+  /**
+   * Push local edits if there are any, otherwise pull the backend copy.
+   */
+  async syncEmergencyContacts(): Promise<boolean> {
+    await this.contactsReady;
+    const token = await Storage.getItem('token');
+    if (!token) return false;
+
+    try {
+      if ((await Storage.getItem(CONTACTS_DIRTY_KEY)) === 'true') {
+        await putEmergencyContacts(this.personalContacts.map(toRemoteContact), token);
+        await Storage.removeItem(CONTACTS_DIRTY_KEY);
+      } else {
+        const { contacts } = await getEmergencyContacts(token);
+        this.personalContacts = contacts.map(fromRemoteContact);
+        await Storage.setJsonItem(CONTACTS_KEY, this.personalContacts);
+        this.emitContacts();
+      }
+      return true;
+    } catch (error) {
+      console.log('Emergency contacts not synced:', axios.isAxiosError(error) ? error.response?.status ?? error.message : error);
+      return false;
+    }
+  }
+
+  async hasUnsyncedContacts(): Promise<boolean> {
+    return (await Storage.getItem(CONTACTS_DIRTY_KEY)) === 'true';
   }
 
   getEmergencyContacts(): EmergencyContact[] {
-    return [...this.emergencyContacts];
+    return [...this.authorityContacts, ...this.personalContacts];
+  }
+
+  getPersonalContacts(): EmergencyContact[] {
+    return [...this.personalContacts];
+  }
+
+  subscribeContacts(listener: (contacts: EmergencyContact[]) => void): () => void {
+    this.contactListeners.add(listener);
+    return () => {
+      this.contactListeners.delete(listener);
+    };
+  }
+
+  private async loadEmergencyContacts(): Promise<void> {
+    const stored = await Storage.getJsonItem<EmergencyContact[]>(CONTACTS_KEY);
+    if (stored) {
+      // Older builds stored the authority numbers alongside personal contacts
+      this.personalContacts = stored.filter(c => c.type !== 'authority');
+      this.emitContacts();
+    }
+  }
+
+  /**
+   * Drop the signed-in tourist's contacts, queued SOS alerts and alert
+   * history so none of it is sent or synced for the next account.
+   */
+  async clear(): Promise<void> {
+    await Promise.all([this.historyReady, this.contactsReady]);
+    this.alertHistory = [];
+    this.personalContacts = [];
+    await Storage.removeItem(ALERT_HISTORY_KEY);
+    await Storage.removeItem(PENDING_SOS_KEY);
+    await Storage.removeItem(CONTACTS_KEY);
+    await Storage.removeItem(CONTACTS_DIRTY_KEY);
+    this.emit();
+    this.emitContacts();
+  }
+
+  private emitContacts(): void {
+    const contacts = this.getPersonalContacts();
+    this.contactListeners.forEach(listener => listener(contacts));
   }
 
   getAlertHistory(): EmergencyAlert[] {
@@ -173,28 +583,11 @@ class EmergencyService {
 
   async checkGeofenceViolation(location: LocationData): Promise<boolean> {
     try {
-      // This would typically call your ML backend to check geofences
-      // For demo, we'll simulate a geofence check
-      
-      // Example: Check if location is in a restricted area
-      const restrictedAreas = [
-        { lat: 25.5788, lng: 91.8933, radius: 1000, name: 'Restricted Military Zone' },
-        { lat: 25.4670, lng: 91.3662, radius: 500, name: 'Protected Forest Area' },
-      ];
-
-      for (const area of restrictedAreas) {
-        const distance = this.calculateDistance(
-          { latitude: location.latitude, longitude: location.longitude, timestamp: new Date() },
-          { latitude: area.lat, longitude: area.lng, timestamp: new Date() }
-        );
-
-        if (distance <= area.radius) {
-          // Trigger geofence alert
-          await this.triggerGeofenceAlert(area.name, location);
-          return true;
-        }
+      const restricted = GeofenceService.evaluate(location).find(zone => zone.restricted);
+      if (restricted) {
+        await this.triggerGeofenceAlert(restricted.name, location);
+        return true;
       }
-
       return false;
     } catch (error) {
       console.error('Error checking geofence:', error);
@@ -202,21 +595,6 @@ class EmergencyService {
     }
   }
 
-  private calculateDistance(loc1: { latitude: number; longitude: number }, loc2: { latitude: number; longitude: number }): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (loc1.latitude * Math.PI) / 180;
-    const φ2 = (loc2.latitude * Math.PI) / 180;
-    const Δφ = ((loc2.latitude - loc1.latitude) * Math.PI) / 180;
-    const Δλ = ((loc2.longitude - loc1.longitude) * Math.PI) / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  }
-
   private async triggerGeofenceAlert(areaName: string, location: LocationData): Promise<void> {
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
     
@@ -248,38 +626,41 @@ class EmergencyService {
     }
   }
 
-  async reportIncident(type: string, description: string, location?: LocationData): Promise<boolean> {
+  /**
+   * File an incident as an e-FIR with its evidence and return the e-FIR ID
+   * assigned by the backend, or null if it could not be filed.
+   */
+  async reportIncident(report: IncidentReport): Promise<string | null> {
     try {
-      const currentLocation = location || await LocationService.getCurrentLocation();
-      
-      if (!currentLocation) {
-        Alert.alert('Error', 'Unable to get location for incident report');
-        return false;
+      const token = await Storage.getItem('token');
+      if (!token) {
+        Alert.alert('Error', 'Please log in again to report an incident');
+        return null;
       }
 
-      const incident = {
-        id: `INCIDENT-${Date.now()}`,
-        type,
-        description,
-        location: currentLocation,
-        timestamp: new Date(),
-        reportedBy: await Storage.getJsonItem('user'),
-      };
-
-      // Send to backend
-      console.log('Reporting incident:', incident);
-      
-      // Show confirmation
-      Alert.alert(
-        'Incident Reported',
-        'Your incident report has been submitted to the authorities. Reference ID: ' + incident.id,
-        [{ text: 'OK' }]
+      const location = report.location || await LocationService.getCurrentLocation();
+      const result = await postEfir(
+        {
+          incidentType: report.type,
+          incidentDetails: report.description,
+          dateTime: report.dateTime.toISOString(),
+          location: location
+            ? { latitude: location.latitude, longitude: location.longitude, address: location.address }
+            : undefined,
+          idempotencyKey: report.idempotencyKey,
+        },
+        report.evidence,
+        token
       );
 
-      return true;
+      return result.efirId;
     } catch (error) {
       console.error('Error reporting incident:', error);
-      return false;
+      const message = axios.isAxiosError(error) && error.response?.data?.message
+        ? error.response.data.message
+        : 'Check your connection and try again.';
+      Alert.alert('Report Not Submitted', message);
+      return null;
     }
   }
 
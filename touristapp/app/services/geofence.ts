@@ -0,0 +1,173 @@
+import NetInfo from '@react-native-community/netinfo';
+import axios from 'axios';
+import Storage from '../utils/storage';
+import { getGeofences, Geofence } from '../api/tourist';
+import type { LocationData } from './location';
+
+const GEOFENCES_KEY = 'geofences';
+const REFRESH_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+interface CachedGeofences {
+  version: number;
+  fetchedAt: number;
+  geofences: Geofence[];
+}
+
+export interface GeofenceEvent {
+  entered: Geofence[];
+  exited: Geofence[];
+  location: LocationData;
+}
+
+// Names are not unique in the geofence set, so identify zones by their shape too
+const zoneKey = (zone: Geofence): string =>
+  `${zone.type}:${zone.name}:${JSON.stringify(zone.type === 'circle' ? [zone.center, zone.radius] : zone.vertices)}`;
+
+const distanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Ray casting; zones are small enough to treat lat/lon as planar
+const insidePolygon = (lat: number, lon: number, vertices: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [latI, lonI] = vertices[i];
+    const [latJ, lonJ] = vertices[j];
+    const crosses = (lonI > lon) !== (lonJ > lon) &&
+      lat < ((latJ - latI) * (lon - lonI)) / (lonJ - lonI) + latI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+const containsLocation = (zone: Geofence, location: LocationData): boolean => {
+  const { latitude, longitude } = location;
+  if (zone.type === 'circle' && zone.center && zone.radius != null) {
+    return distanceMeters(latitude, longitude, zone.center[0], zone.center[1]) <= zone.radius;
+  }
+  if (zone.type === 'polygon' && zone.vertices && zone.vertices.length >= 3) {
+    return insidePolygon(latitude, longitude, zone.vertices);
+  }
+  return false;
+};
+
+class GeofenceService {
+  private geofences: Geofence[] = [];
+  private version: number | null = null;
+  private fetchedAt = 0;
+  private refreshPromise: Promise<boolean> | null = null;
+  private insideKeys = new Set<string>();
+  private listeners = new Set<(event: GeofenceEvent) => void>();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadCachedGeofences();
+
+    // Pick up zone changes made while the device was offline
+    NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.refresh();
+      }
+    });
+  }
+
+  /**
+   * Download the active geofence set if the server has a newer version.
+   * The cached copy keeps working when this fails.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.fetchGeofences().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Zones that contain the location, evaluated entirely on the device.
+   */
+  evaluate(location: LocationData): Geofence[] {
+    return this.geofences.filter((zone) => containsLocation(zone, location));
+  }
+
+  /**
+   * Evaluate a tracked location and notify subscribers about zones entered
+   * or left since the previous fix.
+   */
+  checkLocation(location: LocationData): Geofence[] {
+    if (Date.now() - this.fetchedAt > REFRESH_INTERVAL) {
+      this.refresh();
+    }
+
+    const inside = this.evaluate(location);
+    const insideKeys = new Set(inside.map(zoneKey));
+    const entered = inside.filter((zone) => !this.insideKeys.has(zoneKey(zone)));
+    const exited = this.geofences.filter((zone) => this.insideKeys.has(zoneKey(zone)) && !insideKeys.has(zoneKey(zone)));
+    this.insideKeys = insideKeys;
+
+    if (entered.length || exited.length) {
+      this.listeners.forEach((listener) => listener({ entered, exited, location }));
+    }
+    return inside;
+  }
+
+  subscribe(listener: (event: GeofenceEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getGeofences(): Geofence[] {
+    return [...this.geofences];
+  }
+
+  getVersion(): number | null {
+    return this.version;
+  }
+
+  private async fetchGeofences(): Promise<boolean> {
+    await this.ready;
+    const token = await Storage.getItem('token');
+    if (!token) return false;
+
+    try {
+      const result = await getGeofences(this.version, token);
+      this.fetchedAt = Date.now();
+      if (result.changed && result.geofences) {
+        this.geofences = result.geofences;
+        this.version = result.version;
+      }
+      await Storage.setJsonItem(GEOFENCES_KEY, {
+        version: this.version,
+        fetchedAt: this.fetchedAt,
+        geofences: this.geofences,
+      } as CachedGeofences);
+      return true;
+    } catch (error) {
+      console.log('Geofences not refreshed:', axios.isAxiosError(error) ? error.response?.status ?? error.message : error);
+      return false;
+    }
+  }
+
+  private async loadCachedGeofences(): Promise<void> {
+    const cached = await Storage.getJsonItem<CachedGeofences>(GEOFENCES_KEY);
+    if (cached) {
+      this.geofences = cached.geofences || [];
+      this.version = cached.version;
+      this.fetchedAt = cached.fetchedAt || 0;
+    }
+  }
+}
+
+export default new GeofenceService();
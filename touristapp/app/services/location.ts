@@ -1,30 +1,79 @@
 import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import * as Battery from 'expo-battery';
+import NetInfo from '@react-native-community/netinfo';
+import axios from 'axios';
 import Storage from '../utils/storage';
+import { postLocations, isRetryableError, LocationPoint } from '../api/tourist';
+import GeofenceService from './geofence';
+
+const PENDING_LOCATIONS_KEY = 'pendingLocations';
+const DEVICE_ID_KEY = 'deviceId';
+const MAX_BATCH_SIZE = 50;
+const MAX_QUEUE_SIZE = 1000;
+
+export const BACKGROUND_LOCATION_TASK = 'background-location-task';
+
+const LOW_BATTERY_LEVEL = 0.2;
+const STATIONARY_SPEED = 0.5; // m/s
+const STATIONARY_RADIUS = 25; // meters
+
+export type SamplingProfile = 'restricted' | 'moving' | 'stationary' | 'lowPower';
+export type TrackingMode = 'background' | 'foreground';
+
+// Faster sampling inside restricted zones, slower when idle or low on battery
+const SAMPLING_PROFILES: Record<SamplingProfile, { accuracy: Location.Accuracy; timeInterval: number; distanceInterval: number }> = {
+  restricted: { accuracy: Location.Accuracy.BestForNavigation, timeInterval: 10000, distanceInterval: 5 },
+  moving: { accuracy: Location.Accuracy.High, timeInterval: 30000, distanceInterval: 10 },
+  stationary: { accuracy: Location.Accuracy.Balanced, timeInterval: 120000, distanceInterval: 50 },
+  lowPower: { accuracy: Location.Accuracy.Low, timeInterval: 300000, distanceInterval: 100 },
+};
 
 export interface LocationData {
   latitude: number;
   longitude: number;
   accuracy?: number;
+  speed?: number;
   timestamp: Date;
   address?: string;
 }
 
 export interface LocationUpdate {
-  touristId: string;
   deviceId: string;
-  locations: Array<{
-    lat: number;
-    lon: number;
-    speed?: number;
-    accuracy?: number;
-    ts: string;
-  }>;
+  locations: LocationPoint[];
+}
+
+export interface TrackingState {
+  isTracking: boolean;
+  mode: TrackingMode | null;
+  profile: SamplingProfile;
+  lastLocation: LocationData | null;
 }
 
 class LocationService {
   private watchId: Location.LocationSubscription | null = null;
   private isTracking = false;
+  private mode: TrackingMode | null = null;
+  private profile: SamplingProfile = 'moving';
+  private startPromise: Promise<boolean> | null = null;
+  private insideRestrictedZone = false;
+  private batteryLevel = -1;
+  private lowPowerMode = false;
+  private batterySubscriptions: Array<{ remove: () => void }> = [];
+  private locationListeners = new Set<(location: LocationData) => void>();
+  private stateListeners = new Set<(state: TrackingState) => void>();
   private locationHistory: LocationData[] = [];
+  private isFlushing = false;
+  private queueOp: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    // Flush anything queued while offline as soon as connectivity returns
+    NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.flushQueue();
+      }
+    });
+  }
 
   async requestPermissions(): Promise<boolean> {
     try {
@@ -85,98 +134,346 @@ class LocationService {
     }
   }
 
-  async startTracking(callback: (location: LocationData) => void): Promise<boolean> {
+  async startTracking(callback?: (location: LocationData) => void): Promise<boolean> {
+    if (callback) this.locationListeners.add(callback);
+
+    if (this.isTracking) {
+      console.log('Location tracking already active');
+      return true;
+    }
+
+    // Both toggles may ask at once; share a single start
+    if (!this.startPromise) {
+      this.startPromise = this.beginTracking().finally(() => {
+        this.startPromise = null;
+      });
+    }
+    return this.startPromise;
+  }
+
+  private async beginTracking(): Promise<boolean> {
     try {
       const hasPermission = await this.requestPermissions();
       if (!hasPermission) return false;
 
-      if (this.isTracking) {
-        console.log('Location tracking already active');
-        return true;
-      }
-
-      this.watchId = await Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.High,
-          timeInterval: 30000, // Update every 30 seconds
-          distanceInterval: 10, // Update every 10 meters
-        },
-        (location) => {
-          const locationData: LocationData = {
-            latitude: location.coords.latitude,
-            longitude: location.coords.longitude,
-            accuracy: location.coords.accuracy || undefined,
-            timestamp: new Date(),
-          };
-
-          this.locationHistory.push(locationData);
-          
-          // Keep only last 50 locations
-          if (this.locationHistory.length > 50) {
-            this.locationHistory = this.locationHistory.slice(-50);
-          }
+      const background = await Location.getBackgroundPermissionsAsync();
+      const canRunInBackground = background.status === 'granted' && await TaskManager.isAvailableAsync();
+      this.mode = canRunInBackground ? 'background' : 'foreground';
 
-          callback(locationData);
-          this.sendLocationUpdate(locationData);
-        }
-      );
+      await this.refreshBatteryState();
+      this.subscribeToBattery();
+      this.profile = this.pickSamplingProfile();
+      await this.startUpdates();
 
       this.isTracking = true;
       await Storage.setItem('locationTracking', 'true');
-      console.log('Location tracking started');
+      this.emitState();
+      console.log(`Location tracking started (${this.mode}, ${this.profile})`);
       return true;
     } catch (error) {
       console.error('Error starting location tracking:', error);
+      this.mode = null;
+      this.unsubscribeFromBattery();
       return false;
     }
   }
 
   async stopTracking(): Promise<void> {
     try {
-      if (this.watchId) {
-        this.watchId.remove();
-        this.watchId = null;
-      }
+      await this.stopUpdates();
+      this.unsubscribeFromBattery();
       this.isTracking = false;
+      this.mode = null;
       await Storage.setItem('locationTracking', 'false');
+      this.emitState();
       console.log('Location tracking stopped');
     } catch (error) {
       console.error('Error stopping location tracking:', error);
     }
   }
 
+  /**
+   * Forget everything recorded for the signed-in tourist: tracking stops and
+   * queued points are dropped so the next account does not upload them.
+   */
+  async clear(): Promise<void> {
+    await this.stopTracking();
+    await this.updateQueue(() => []);
+    this.locationHistory = [];
+  }
+
+  /**
+   * Resume tracking after an app restart if the tourist left it enabled.
+   */
+  async restoreTracking(): Promise<void> {
+    if (this.isTracking) return;
+    if (await this.getStoredTrackingPreference()) {
+      await this.startTracking();
+    }
+  }
+
+  private async startUpdates(): Promise<void> {
+    const options = SAMPLING_PROFILES[this.profile];
+
+    if (this.mode === 'background') {
+      await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+        ...options,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'Safety tracking active',
+          notificationBody: 'Your location is shared with authorities for safety monitoring.',
+          notificationColor: '#1D4ED8',
+        },
+      });
+    } else {
+      this.watchId = await Location.watchPositionAsync(options, (location) => {
+        this.handleLocations([location]);
+      });
+    }
+  }
+
+  private async stopUpdates(): Promise<void> {
+    if (this.watchId) {
+      this.watchId.remove();
+      this.watchId = null;
+    }
+    if (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK)) {
+      await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    }
+  }
+
+  /**
+   * Entry point for the background task, which may run before any screen
+   * has started tracking (e.g. after the OS relaunched the app headless).
+   */
+  async handleBackgroundLocations(locations: Location.LocationObject[]): Promise<void> {
+    if (!this.isTracking) {
+      this.isTracking = true;
+      this.mode = 'background';
+      await this.refreshBatteryState();
+    }
+    await this.handleLocations(locations);
+  }
+
+  private async handleLocations(locations: Location.LocationObject[]): Promise<void> {
+    for (const location of locations) {
+      const locationData: LocationData = {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy || undefined,
+        speed: location.coords.speed != null && location.coords.speed >= 0 ? location.coords.speed : undefined,
+        timestamp: new Date(location.timestamp),
+      };
+
+      this.locationHistory.push(locationData);
+
+      // Keep only last 50 locations
+      if (this.locationHistory.length > 50) {
+        this.locationHistory = this.locationHistory.slice(-50);
+      }
+
+      // Zones are checked on the device so warnings work without network
+      const zones = GeofenceService.checkLocation(locationData);
+      this.setInsideRestrictedZone(zones.some((zone) => zone.restricted));
+
+      this.locationListeners.forEach((listener) => listener(locationData));
+      await this.sendLocationUpdate(locationData);
+    }
+
+    this.emitState();
+    await this.updateSamplingProfile();
+  }
+
+  // ---------- Adaptive sampling ----------
+
+  setInsideRestrictedZone(inside: boolean): void {
+    if (this.insideRestrictedZone === inside) return;
+    this.insideRestrictedZone = inside;
+    this.updateSamplingProfile();
+  }
+
+  private pickSamplingProfile(): SamplingProfile {
+    if (this.insideRestrictedZone) return 'restricted';
+    if (this.lowPowerMode || (this.batteryLevel >= 0 && this.batteryLevel < LOW_BATTERY_LEVEL)) return 'lowPower';
+    return this.isStationary() ? 'stationary' : 'moving';
+  }
+
+  private isStationary(): boolean {
+    const recent = this.locationHistory.slice(-3);
+    if (recent.length < 3) return false;
+
+    const latest = recent[recent.length - 1];
+    const speed = latest.speed ?? this.calculateSpeed(recent[0], latest);
+    return speed < STATIONARY_SPEED && recent.every((loc) => this.calculateDistance(loc, latest) <= STATIONARY_RADIUS);
+  }
+
+  private async updateSamplingProfile(): Promise<void> {
+    const next = this.pickSamplingProfile();
+    if (next === this.profile) return;
+
+    this.profile = next;
+    this.emitState();
+    if (!this.isTracking) return;
+
+    try {
+      await this.stopUpdates();
+      await this.startUpdates();
+      console.log(`Location sampling switched to ${next}`);
+    } catch (error) {
+      console.error('Error applying sampling profile:', error);
+    }
+  }
+
+  private async refreshBatteryState(): Promise<void> {
+    try {
+      const [level, lowPowerMode] = await Promise.all([
+        Battery.getBatteryLevelAsync(),
+        Battery.isLowPowerModeEnabledAsync(),
+      ]);
+      this.batteryLevel = level;
+      this.lowPowerMode = lowPowerMode;
+    } catch (error) {
+      console.log('Battery state unavailable:', error);
+    }
+  }
+
+  private subscribeToBattery(): void {
+    this.unsubscribeFromBattery();
+    this.batterySubscriptions = [
+      Battery.addBatteryLevelListener(({ batteryLevel }) => {
+        this.batteryLevel = batteryLevel;
+        this.updateSamplingProfile();
+      }),
+      Battery.addLowPowerModeListener(({ lowPowerMode }) => {
+        this.lowPowerMode = lowPowerMode;
+        this.updateSamplingProfile();
+      }),
+    ];
+  }
+
+  private unsubscribeFromBattery(): void {
+    this.batterySubscriptions.forEach((subscription) => subscription.remove());
+    this.batterySubscriptions = [];
+  }
+
+  // ---------- State subscriptions ----------
+
+  getTrackingState(): TrackingState {
+    return {
+      isTracking: this.isTracking,
+      mode: this.mode,
+      profile: this.profile,
+      lastLocation: this.locationHistory[this.locationHistory.length - 1] || null,
+    };
+  }
+
+  subscribe(listener: (state: TrackingState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  removeLocationListener(callback: (location: LocationData) => void): void {
+    this.locationListeners.delete(callback);
+  }
+
+  private emitState(): void {
+    const state = this.getTrackingState();
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
+  // ---------- Upload pipeline ----------
+
   private async sendLocationUpdate(location: LocationData): Promise<void> {
     try {
-      const user = await Storage.getJsonItem('user');
-      const token = await Storage.getItem('token');
-      
-      if (!user || !token) return;
-
-      const locationUpdate: LocationUpdate = {
-        touristId: user.walletId || user._id,
-        deviceId: 'mobile-app', // You can generate a unique device ID
-        locations: [{
-          lat: location.latitude,
-          lon: location.longitude,
-          speed: 0, // You can calculate speed from previous locations
-          accuracy: location.accuracy,
-          ts: location.timestamp.toISOString(),
-        }]
+      const previous = this.locationHistory[this.locationHistory.length - 2];
+      const point: LocationPoint = {
+        lat: location.latitude,
+        lon: location.longitude,
+        speed: location.speed ?? (previous ? this.calculateSpeed(previous, location) : 0),
+        accuracy: location.accuracy,
+        ts: location.timestamp.toISOString(),
       };
 
-      // Send to backend (implement your API call here)
-      console.log('Sending location update:', locationUpdate);
-      
-      // Example API call:
-      // await axios.post('/api/tourist/location', locationUpdate, {
-      //   headers: { Authorization: `Bearer ${token}` }
-      // });
-
+      // Every point goes through the durable queue so nothing is lost offline
+      await this.updateQueue((queue) => [...queue, point].slice(-MAX_QUEUE_SIZE));
+      await this.flushQueue();
     } catch (error) {
       console.error('Error sending location update:', error);
     }
   }
 
+  /**
+   * Upload queued points oldest-first in batches. Stops on network errors
+   * and 5xx responses, leaving the remaining points for the next flush.
+   */
+  async flushQueue(): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+
+    try {
+      const token = await Storage.getItem('token');
+      if (!token) return;
+
+      const deviceId = await this.getDeviceId();
+
+      while (true) {
+        const queue = await this.updateQueue((q) => q);
+        if (queue.length === 0) break;
+
+        const batch = queue.slice(0, MAX_BATCH_SIZE);
+        const locationUpdate: LocationUpdate = { deviceId, locations: batch };
+
+        try {
+          await postLocations(locationUpdate, token);
+        } catch (error) {
+          if (isRetryableError(error)) {
+            console.log(`Location upload deferred, ${queue.length} point(s) queued`);
+            break;
+          }
+          // The server rejected the batch itself; retrying would never succeed
+          console.error('Dropping rejected location batch:', axios.isAxiosError(error) ? error.response?.data : error);
+        }
+
+        await this.updateQueue((q) => q.slice(batch.length));
+      }
+    } catch (error) {
+      console.error('Error flushing location queue:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  async getPendingCount(): Promise<number> {
+    const queue = await this.updateQueue((q) => q);
+    return queue.length;
+  }
+
+  // Serialises read-modify-write cycles on the stored queue
+  private updateQueue(mutate: (queue: LocationPoint[]) => LocationPoint[]): Promise<LocationPoint[]> {
+    const op = this.queueOp.then(async () => {
+      const current = (await Storage.getJsonItem<LocationPoint[]>(PENDING_LOCATIONS_KEY)) || [];
+      const next = mutate(current);
+      if (next !== current) {
+        await Storage.setJsonItem(PENDING_LOCATIONS_KEY, next);
+      }
+      return next;
+    });
+    this.queueOp = op.catch(() => undefined);
+    return op;
+  }
+
+  async getDeviceId(): Promise<string> {
+    let deviceId = await Storage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+      await Storage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
   getLocationHistory(): LocationData[] {
     return [...this.locationHistory];
   }
@@ -216,4 +513,17 @@ class LocationService {
   }
 }
 
-export default new LocationService();
\ No newline at end of file
+const locationService = new LocationService();
+
+// Must be defined at module scope so the OS can run it while the app is backgrounded
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Background location task error:', error);
+    return;
+  }
+  if (data?.locations?.length) {
+    await locationService.handleBackgroundLocations(data.locations);
+  }
+});
+
+export default locationService;
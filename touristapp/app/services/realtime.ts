@@ -0,0 +1,128 @@
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import Storage from '../utils/storage';
+
+const WS_URL = process.env.EXPO_PUBLIC_WS_URL || 'ws://localhost:5001';
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+type MessageHandler = (payload: any) => void;
+
+class RealtimeService {
+  private socket: WebSocket | null = null;
+  private handlers = new Map<string, Set<MessageHandler>>();
+  private connectListeners = new Set<() => void>();
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldConnect = false;
+  private connecting = false;
+
+  constructor() {
+    // Reconnect straight away instead of waiting out the backoff
+    NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.reconnectNow();
+      }
+    });
+    AppState.addEventListener('change', (state) => {
+      if (state === 'active') this.reconnectNow();
+    });
+  }
+
+  /**
+   * Open the authenticated connection and keep it open until disconnect().
+   */
+  async connect(): Promise<void> {
+    this.shouldConnect = true;
+    if (this.connecting || (this.socket && this.socket.readyState <= WebSocket.OPEN)) return;
+
+    this.connecting = true;
+    const token = await Storage.getItem('token');
+    this.connecting = false;
+    if (!token || !this.shouldConnect) return;
+
+    const socket = new WebSocket(`${WS_URL}?token=${encodeURIComponent(token)}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_DELAY;
+      this.connectListeners.forEach((listener) => listener());
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const { topic, payload } = JSON.parse(event.data);
+        this.handlers.get(topic)?.forEach((handler) => handler(payload));
+      } catch (error) {
+        console.log('Ignoring malformed realtime message:', error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket === socket) this.socket = null;
+      // 4401: the server rejected our token; wait for a fresh login
+      if (event.code === 4401) {
+        this.shouldConnect = false;
+        return;
+      }
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      // onclose follows and handles the retry
+    };
+  }
+
+  disconnect(): void {
+    this.shouldConnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  on(topic: string, handler: MessageHandler): () => void {
+    if (!this.handlers.has(topic)) this.handlers.set(topic, new Set());
+    this.handlers.get(topic)!.add(handler);
+    return () => {
+      this.handlers.get(topic)?.delete(handler);
+    };
+  }
+
+  /**
+   * Called on every (re)connect so callers can fetch anything they missed.
+   */
+  onConnect(listener: () => void): () => void {
+    this.connectListeners.add(listener);
+    return () => {
+      this.connectListeners.delete(listener);
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldConnect || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  private reconnectNow(): void {
+    if (!this.shouldConnect || this.isConnected()) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectDelay = MIN_RECONNECT_DELAY;
+    this.connect();
+  }
+}
+
+export default new RealtimeService();
@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from 'react';
+import LocationService, { TrackingState } from '../app/services/location';
+
+export function useLocationTracking() {
+  const [state, setState] = useState<TrackingState>(() => LocationService.getTrackingState());
+
+  useEffect(() => {
+    setState(LocationService.getTrackingState());
+    return LocationService.subscribe(setState);
+  }, []);
+
+  const setTracking = useCallback(async (enabled: boolean): Promise<boolean> => {
+    if (enabled) return LocationService.startTracking();
+    await LocationService.stopTracking();
+    return true;
+  }, []);
+
+  return { ...state, setTracking };
+}